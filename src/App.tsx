@@ -1,81 +1,351 @@
-import { useEffect, useMemo, useState } from "react";
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import "./App.css";
 import {
   annualToMonthlyRate,
-  monthsToTarget,
+  clamp,
+  inflationFactorAt,
   parseNumberBR,
   realMonthlyRateFromGross,
+  simulateDecumulation,
   simulateProjection,
-  solveRequiredPmt,
+  sustainableWithdrawal,
 } from "./lib/finance";
+import type { EngineArgs, EngineResult, EngineTask } from "./lib/engine";
+import { createEngineClient, isAbortError } from "./lib/engineClient";
+import type { InvestmentFees } from "./lib/fees";
+import type { FireMethod } from "./lib/fire";
+import type { GoalAllocation } from "./lib/goals";
+import { PGBL_DEDUCTION_LIMIT, pgblTaxRefund } from "./lib/pension";
+import type { PensionPlanType, PensionTaxTable } from "./lib/pension";
+import { loadHistoricalSeries } from "./lib/history";
+import type { AssetClassKey, Portfolio } from "./lib/portfolio";
+import { FIXED_INCOME_PRODUCTS } from "./lib/products";
+import type { FixedIncomeProductKey } from "./lib/products";
+import {
+  BENCHMARKS,
+  SCENARIOS,
+  feesFromInputs,
+  glidePathFromInputs,
+  goalsFromInputs,
+  grossMonthlyPctFromInputs,
+  householdFromInputs,
+  inssValueFromInputs,
+  pensionProjectionFromInputs,
+  planEventsFromInputs,
+  portfolioFromInputs,
+  ratePathFromInputs,
+  reserveFromInputs,
+  scheduleFromInputs,
+  targetTodayFromInputs,
+  taxRegimeFromInputs,
+} from "./lib/plan";
+import {
+  DEFAULT_PRESET,
+  PRESET_FIELD_ORDER,
+  PRESET_VERSION,
+  diffPresetPayloads,
+  mergePresets,
+  migratePresetData,
+  parsePresetFile,
+  parseStoredPresets,
+  previewPresetImport,
+  serializePresetFile,
+  validatePresetPayload,
+} from "./lib/presets";
+import type {
+  ConflictResolution,
+  ContributionEventInput,
+  ImportPreviewItem,
+  ImportStatus,
+  DisplayMode,
+  GoalInput,
+  PlanEventInput,
+  PortfolioClassInput,
+  Preset,
+  PresetPayload,
+  PresetReport,
+  ProjectionMode,
+  RatePhaseInput,
+  SafetyMarginMode,
+} from "./lib/presets";
+import type { ContributionSchedule } from "./lib/schedule";
+import {
+  TAX_REGIME_ORDER,
+  sensitivityRange,
+  variableValue,
+} from "./lib/sensitivity";
+import type {
+  SensitivityAnalysis,
+  SensitivityAxis,
+  SensitivityMetric,
+  SensitivityPlan,
+  SensitivityValue,
+  SensitivityVariable,
+} from "./lib/sensitivity";
+import { decodeSharedPlan, encodeSharedPlan } from "./lib/share";
+import { longTermTaxRate } from "./lib/tax";
+import type { TaxRegime } from "./lib/tax";
 import type {
   BenchmarkKey,
   ContributionIndexation,
   ContributionTiming,
   ScenarioKey,
+  PlanEvent,
   SimulationPoint,
+  WithdrawalRule,
 } from "./lib/finance";
-type DisplayMode = "real" | "nominal";
-type PresetPayload = {
-  benchmarkKey: BenchmarkKey;
-  taxaAporteModeloPct: string;
-  rendaMensal: string;
-  carteiraAtual: string;
-  idadeAtual: string;
-  meta: string;
-  scenarioKey: ScenarioKey;
-  rendimentoMensalPctPersonalizado: string;
-  inflacaoAnualPct: number;
-  impostoEfetivoPct: number;
-  indexation: ContributionIndexation;
-  timing: ContributionTiming;
-  displayMode: DisplayMode;
-  usarTempoDoModelo: boolean;
-  idadeAlvoManual: string;
-  meuAporte: string;
+const PRESET_STORAGE_KEY = "calcAporte.presets.v1";
+
+const TAX_REGIMES: Record<TaxRegime, { label: string; hint: string }> = {
+  regressive: {
+    label: "CDB / Tesouro (tabela regressiva)",
+    hint: "22,5% até 180 dias, 20% até 360, 17,5% até 720 e 15% acima, por aporte, no resgate.",
+  },
+  comeCotas: {
+    label: "Fundos (come-cotas)",
+    hint: "15% antecipados em maio e novembro; complemento pela tabela regressiva no resgate.",
+  },
+  stocks: {
+    label: "Ações / ETFs / exterior (15% no ganho)",
+    hint: "15% sobre o ganho na venda, sem tabela por prazo (não considera a isenção até R$ 20 mil/mês).",
+  },
+  exempt: {
+    label: "LCI / LCA / CRI / CRA (isento)",
+    hint: "Isento de IR para pessoa física.",
+  },
 };
 
-type Preset = {
-  name: string;
-  data: PresetPayload;
+const ASSET_CLASSES: Record<AssetClassKey, { label: string; color: string }> = {
+  posFixado: { label: "Renda fixa pós", color: "rgba(147, 197, 253, 0.55)" },
+  ipcaMais: { label: "IPCA+", color: "rgba(196, 181, 253, 0.55)" },
+  acoesBr: { label: "Ações BR", color: "rgba(34, 197, 94, 0.5)" },
+  exterior: { label: "Exterior", color: "rgba(250, 204, 21, 0.5)" },
+  fiis: { label: "FIIs", color: "rgba(248, 113, 113, 0.5)" },
 };
 
-const PRESET_STORAGE_KEY = "calcAporte.presets.v1";
+const WITHDRAWAL_RULES: Record<WithdrawalRule, string> = {
+  fixedReal: "Valor fixo (R$ de hoje)",
+  percentOfBalance: "% do saldo",
+  guardrails: "Guardrails (Guyton-Klinger)",
+};
+
+const PROJECTION_MODES: Record<ProjectionMode, string> = {
+  deterministic: "Taxa constante",
+  monteCarlo: "Monte Carlo (P10/P50/P90)",
+  backtest: "Histórico (CDI, IPCA e Ibovespa)",
+};
+
+const MONTH_NAMES = [
+  "Janeiro",
+  "Fevereiro",
+  "Março",
+  "Abril",
+  "Maio",
+  "Junho",
+  "Julho",
+  "Agosto",
+  "Setembro",
+  "Outubro",
+  "Novembro",
+  "Dezembro",
+];
 
-type Benchmark = {
-  label: string;
-  baseAge: number;
-  income: number;
-  startBalance: number;
+const SAFETY_MARGINS: Record<SafetyMarginMode, string> = {
+  none: "Nenhuma (exatamente a meta)",
+  haircut: "Reduzir a rentabilidade (bp a.a.)",
+  probability: "Probabilidade mínima (Monte Carlo)",
 };
 
-type Scenario = {
-  key: Exclude<ScenarioKey, "personalizado">;
-  label: string;
-  grossMonthlyPct: number; // bruto ao mês
+const FIRE_METHODS: Record<FireMethod, string> = {
+  withdrawalRate: "Taxa de retirada segura",
+  annuity: "Retorno real até a expectativa de vida",
 };
 
-const BENCHMARKS: Record<BenchmarkKey, Benchmark> = {
-  investidor: {
-    label: "Investidor BR (benchmark)",
-    baseAge: 43,
-    income: 6299,
-    startBalance: 2270,
-  },
-  populacao: {
-    label: "População geral (benchmark)",
-    baseAge: 43,
-    income: 4520,
-    startBalance: 0,
-  },
+const PENSION_PLANS: Record<PensionPlanType, string> = {
+  pgbl: "PGBL",
+  vgbl: "VGBL",
+};
+
+const PENSION_TAX_TABLES: Record<PensionTaxTable, string> = {
+  regressive: "Regressiva (35% a 10% pelo prazo)",
+  progressive: "Progressiva (tabela do IRPF)",
+};
+
+const GOAL_ALLOCATIONS: Record<GoalAllocation, string> = {
+  priority: "Por prioridade (ordem da lista)",
+  proportional: "Proporcional ao necessário",
 };
 
-const SCENARIOS: Scenario[] = [
-  { key: "pessimista", label: "Pessimista", grossMonthlyPct: 0.4 },
-  { key: "base", label: "Base", grossMonthlyPct: 0.6 },
-  { key: "otimista", label: "Otimista", grossMonthlyPct: 0.8 },
+// Comparação de presets: um plano por cor
+const COMPARE_MAX = 4;
+const COMPARE_COLORS = [
+  "rgba(147, 197, 253, 0.95)",
+  "rgba(250, 204, 21, 0.9)",
+  "rgba(34, 197, 94, 0.9)",
+  "rgba(248, 113, 113, 0.9)",
 ];
 
+const PRESET_FIELDS: Record<keyof PresetPayload, string> = {
+  benchmarkKey: "Benchmark",
+  taxaAporteModeloPct: "Aporte do benchmark (% da renda)",
+  rendaMensal: "Renda mensal",
+  carteiraAtual: "Carteira atual",
+  idadeAtual: "Idade atual",
+  modoCasal: "Plano do casal",
+  aportePctRenda: "Seu aporte (% da renda)",
+  inicioAporteMes: "Você começa a aportar (mês)",
+  idadeFimAporte: "Você para de aportar (idade)",
+  idadeParceiro: "Idade do(a) parceiro(a)",
+  rendaParceiro: "Renda do(a) parceiro(a)",
+  aportePctRendaParceiro: "Aporte do(a) parceiro(a) (% da renda)",
+  inicioAporteParceiroMes: "Parceiro(a) começa a aportar (mês)",
+  idadeFimAporteParceiro: "Parceiro(a) para de aportar (idade)",
+  meta: "Meta (R$ de hoje)",
+  usarMetaFire: "Meta pelo gasto mensal",
+  gastoMensalFire: "Gasto mensal desejado",
+  metodoFire: "Cálculo do patrimônio",
+  taxaRetiradaFirePct: "Taxa de retirada (% a.a.)",
+  rendimentoRealFirePct: "Retorno real na aposentadoria (% a.a.)",
+  idadeIndependencia: "Idade da independência",
+  beneficioInss: "INSS / outra aposentadoria (R$/mês)",
+  idadeInss: "Idade de início do INSS",
+  usarPrevidencia: "Previdência privada",
+  tipoPrevidencia: "Plano de previdência",
+  tabelaPrevidencia: "Tabela de IR da previdência",
+  aportePrevidencia: "Aporte na previdência",
+  saldoPrevidencia: "Saldo da previdência",
+  rendimentoPrevidenciaPct: "Rendimento da previdência (% a.m.)",
+  taxaAdmPrevidenciaPct: "Taxa de administração da previdência (% a.a.)",
+  usarReserva: "Reserva de emergência antes da meta",
+  despesaMensal: "Despesa mensal",
+  mesesReserva: "Meses de despesa na reserva",
+  reservaAtual: "Reserva atual",
+  rendimentoReservaPct: "Rendimento da reserva (% a.m.)",
+  scenarioKey: "Cenário de rentabilidade",
+  rendimentoMensalPctPersonalizado: "Rentabilidade personalizada (% a.m.)",
+  produtoKey: "Produto",
+  produtoTaxaPct: "Taxa do produto",
+  selicAnualPct: "Selic (% a.a.)",
+  cdiAnualPct: "CDI (% a.a.)",
+  trAnualPct: "TR (% a.a.)",
+  inflacaoAnualPct: "Inflação / IPCA (% a.a.)",
+  curvaTaxas: "Curva de juros e IPCA",
+  usarTransicao: "Transição para preservação",
+  anosTransicao: "Anos de transição",
+  rendimentoPreservacaoPct: "Rendimento na preservação (% a.m.)",
+  volPreservacaoPct: "Volatilidade na preservação (% a.m.)",
+  taxRegime: "Tributação",
+  taxaAdmAnualPct: "Taxa de administração (% a.a.)",
+  taxaCustodiaAnualPct: "Custódia (% a.a.)",
+  taxaPerformancePct: "Taxa de performance (% acima do CDI)",
+  corretagemPorAporte: "Corretagem por aporte",
+  indexation: "Aporte reajustado pela inflação",
+  timing: "Momento do aporte",
+  displayMode: "Exibição",
+  usarTempoDoModelo: "Idade-alvo pelo benchmark",
+  idadeAlvoManual: "Idade-alvo manual",
+  meuAporte: "Meu aporte",
+  projectionMode: "Projeção",
+  volRetornoMensalPct: "Volatilidade do retorno (% a.m.)",
+  volInflacaoMensalPct: "Volatilidade da inflação (% a.m.)",
+  simulacoesMC: "Simulações",
+  seedMC: "Semente",
+  pctIbovBacktest: "% em Ibovespa (backtest)",
+  usarCarteira: "Carteira por classes",
+  carteiraClasses: "Classes da carteira",
+  rebalanceamentoAnual: "Rebalanceamento anual",
+  simularRetiradas: "Simular retiradas",
+  expectativaVida: "Expectativa de vida",
+  regraRetirada: "Regra de retirada",
+  retiradaMensal: "Retirada mensal",
+  taxaRetiradaPct: "Taxa de retirada (% a.a.)",
+  margemSeguranca: "Margem de segurança",
+  margemBp: "Margem (bp a.a.)",
+  probabilidadeMinimaPct: "Probabilidade mínima (%)",
+  aumentoRealAnualPct: "Aumento real do aporte (% a.a.)",
+  aporte13: "Aporte do 13º",
+  plrMultiplo: "PLR (múltiplo do aporte)",
+  plrMes: "Mês da PLR",
+  eventosAporte: "Pausas e aportes extras",
+  eventosPlano: "Eventos do plano",
+  metas: "Outras metas",
+  orcamentoMetas: "Orçamento das metas",
+  alocacaoMetas: "Divisão do orçamento",
+};
+
+// Valor de um campo do preset como aparece na tela
+function formatPresetField<K extends keyof PresetPayload>(
+  key: K,
+  value: PresetPayload[K]
+): string {
+  switch (key) {
+    case "benchmarkKey":
+      return BENCHMARKS[value as BenchmarkKey].label;
+    case "scenarioKey":
+      if (value === "produto") return "Produto de renda fixa";
+      return SCENARIOS.find((s) => s.key === value)?.label ?? "Personalizado";
+    case "produtoKey":
+      return FIXED_INCOME_PRODUCTS[value as FixedIncomeProductKey].label;
+    case "taxRegime":
+      return TAX_REGIMES[value as TaxRegime].label;
+    case "indexation":
+      return value === "inflationAdjusted" ? "Sim" : "Não";
+    case "timing":
+      return value === "begin" ? "Começo do mês" : "Fim do mês";
+    case "displayMode":
+      return value === "real" ? "R$ de hoje" : "Nominal";
+    case "projectionMode":
+      return PROJECTION_MODES[value as ProjectionMode];
+    case "regraRetirada":
+      return WITHDRAWAL_RULES[value as WithdrawalRule];
+    case "margemSeguranca":
+      return SAFETY_MARGINS[value as SafetyMarginMode];
+    case "plrMes":
+      return MONTH_NAMES[value as number] ?? String(value);
+    case "carteiraClasses":
+      return (value as PortfolioClassInput[])
+        .map(
+          (c) =>
+            `${ASSET_CLASSES[c.key].label} ${c.pesoPct}% (${c.rendimentoMensalPct}% a.m.)`
+        )
+        .join(", ");
+    case "curvaTaxas": {
+      const n = (value as unknown[]).length;
+      if (n === 0) return "Taxas constantes";
+      return n === 1 ? "1 fase" : `${n} fases`;
+    }
+    case "metodoFire":
+      return FIRE_METHODS[value as FireMethod];
+    case "tipoPrevidencia":
+      return PENSION_PLANS[value as PensionPlanType];
+    case "tabelaPrevidencia":
+      return PENSION_TAX_TABLES[value as PensionTaxTable];
+    case "alocacaoMetas":
+      return GOAL_ALLOCATIONS[value as GoalAllocation];
+    case "metas": {
+      const n = (value as unknown[]).length;
+      return n === 1 ? "1 meta" : `${n} metas`;
+    }
+    case "eventosAporte":
+    case "eventosPlano": {
+      const n = (value as unknown[]).length;
+      return n === 1 ? "1 evento" : `${n} eventos`;
+    }
+  }
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  return String(value);
+}
+
+// Janelas mínimas para o backtest ter alguma dispersão entre inícios
+const BACKTEST_MIN_WINDOWS = 60;
+
 const GOAL_SHORTCUTS = [
   { label: "100 mil", value: 100_000 },
   { label: "300 mil", value: 300_000 },
@@ -94,24 +364,96 @@ const brl2 = new Intl.NumberFormat("pt-BR", {
   maximumFractionDigits: 2,
 });
 
-function loadPresetsFromStorage(): Preset[] {
-  if (typeof localStorage === "undefined") return [];
+const PLAN_HASH_PREFIX = "#plano=";
+
+async function planHash(payload: PresetPayload) {
+  return (
+    PLAN_HASH_PREFIX +
+    (await encodeSharedPlan(payload, PRESET_FIELD_ORDER, PRESET_VERSION))
+  );
+}
+
+/** Plano do link atual (`#plano=...`), ou o padrão com um aviso se inválido. */
+async function readPlanFromLocation(): Promise<{
+  payload: PresetPayload;
+  notice: string | null;
+}> {
+  if (!window.location.hash.startsWith(PLAN_HASH_PREFIX))
+    return { payload: DEFAULT_PRESET, notice: null };
+
+  const decoded = await decodeSharedPlan(
+    window.location.hash.slice(PLAN_HASH_PREFIX.length),
+    PRESET_FIELD_ORDER,
+    PRESET_VERSION
+  );
+  if (!decoded.ok) {
+    console.warn("Link de plano inválido", decoded.error);
+    return {
+      payload: DEFAULT_PRESET,
+      notice: `${decoded.error} Mostrando os valores padrão.`,
+    };
+  }
+  const { payload, invalid } = validatePresetPayload(
+    migratePresetData(decoded.data, decoded.version)
+  );
+  return {
+    payload,
+    notice:
+      invalid.length > 0
+        ? `Alguns campos do link eram inválidos e ficaram no padrão: ${invalid.join(", ")}.`
+        : null,
+  };
+}
+
+const IMPORT_STATUS: Record<ImportStatus, string> = {
+  new: "novo",
+  identical: "idêntico (ignorado)",
+  conflict: "nome já existe",
+};
+
+const CONFLICT_RESOLUTIONS: Record<ConflictResolution, string> = {
+  keepBoth: "Manter os dois (renomeia o importado)",
+  overwrite: "Sobrescrever o existente",
+  skip: "Pular",
+};
+
+const EMPTY_REPORT: PresetReport = { repaired: [], migrated: [], rejected: [] };
+
+function loadPresetsFromStorage(): ReturnType<typeof parseStoredPresets> {
+  const empty = { presets: [], report: EMPTY_REPORT, unreadable: [] };
+  if (typeof localStorage === "undefined") return empty;
+  let raw: string | null = null;
   try {
-    const raw = localStorage.getItem(PRESET_STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed.filter((p) => p?.name && p?.data);
+    raw = localStorage.getItem(PRESET_STORAGE_KEY);
+    if (!raw) return empty;
+    const result = parseStoredPresets(JSON.parse(raw));
+    if (result.report.rejected.length > 0) {
+      console.warn("Presets que não abrem", result.report.rejected);
+    }
+    return result;
   } catch (e) {
     console.warn("Erro ao ler presets do localStorage", e);
-    return [];
+    // O texto salvo fica guardado como está, para não se perder
+    return {
+      presets: [],
+      report: {
+        ...EMPTY_REPORT,
+        rejected: [{ name: null, reason: "A lista salva não é JSON válido." }],
+      },
+      unreadable: raw ? [raw] : [],
+    };
   }
 }
 
-function persistPresets(list: Preset[]) {
+// As entradas que não abrem vão antes: com nomes repetidos vale a última,
+// e a salva nesta versão é a mais recente
+function persistPresets(list: Preset[], unreadable: unknown[]) {
   if (typeof localStorage === "undefined") return;
   try {
-    localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(list));
+    localStorage.setItem(
+      PRESET_STORAGE_KEY,
+      JSON.stringify([...unreadable, ...list])
+    );
   } catch (e) {
     console.warn("Erro ao salvar presets no localStorage", e);
   }
@@ -121,6 +463,128 @@ function pct(n: number, digits = 2) {
   return `${n.toFixed(digits)}%`;
 }
 
+// Variação padrão (±) de cada entrada na análise de sensibilidade, na unidade
+// mostrada ao lado do campo
+const SENSITIVITY_VARIABLES: Record<
+  SensitivityVariable,
+  { label: string; unit: string; spread: string }
+> = {
+  grossMonthlyRate: {
+    label: "Rentabilidade bruta a.m.",
+    unit: "p.p. a.m.",
+    spread: "0.2",
+  },
+  inflationAnnualRate: {
+    label: "Inflação a.a.",
+    unit: "p.p. a.a.",
+    spread: "1",
+  },
+  taxRegime: { label: "Tributação", unit: "", spread: "" },
+  targetAge: { label: "Idade-alvo", unit: "anos", spread: "5" },
+  pvToday: { label: "Carteira inicial", unit: "R$", spread: "50000" },
+};
+
+const SENSITIVITY_METRICS: Record<SensitivityMetric, string> = {
+  requiredPmt: "Aporte necessário",
+  monthsToTarget: "Tempo até a meta (com o meu aporte)",
+};
+
+const TAX_REGIME_SHORT: Record<TaxRegime, string> = {
+  exempt: "Isento",
+  stocks: "15% no ganho",
+  regressive: "Regressiva",
+  comeCotas: "Come-cotas",
+};
+
+// Os valores testados: a tributação passa por todos os regimes; o resto vai
+// de `atual - variação` a `atual + variação`
+function sensitivityAxis(
+  plan: SensitivityPlan,
+  variable: SensitivityVariable,
+  spread: string,
+  points = 5
+): SensitivityAxis {
+  if (variable === "taxRegime") return { variable, values: TAX_REGIME_ORDER };
+  const scale =
+    variable === "grossMonthlyRate" || variable === "inflationAnnualRate"
+      ? 1 / 100
+      : 1;
+  return {
+    variable,
+    values: sensitivityRange(
+      Number(variableValue(plan, variable)),
+      Math.abs(parseNumberBR(spread)) * scale,
+      points
+    ),
+  };
+}
+
+function formatSensitivityValue(
+  variable: SensitivityVariable,
+  value: SensitivityValue
+) {
+  if (variable === "taxRegime") return TAX_REGIME_SHORT[value as TaxRegime];
+  const n = Number(value);
+  if (variable === "grossMonthlyRate") return pct(n * 100, 2);
+  if (variable === "inflationAnnualRate") return pct(n * 100, 1);
+  if (variable === "targetAge") return `${n.toFixed(1)} anos`;
+  return brl0.format(Math.max(0, n));
+}
+
+// Motor no worker: os cálculos pesados esperam a digitação parar por
+// ENGINE_DEBOUNCE_MS e um pedido novo cancela o anterior
+const ENGINE_DEBOUNCE_MS = 250;
+
+const engine = createEngineClient(
+  () =>
+    new Worker(new URL("./lib/engine.worker.ts", import.meta.url), {
+      type: "module",
+    })
+);
+
+/**
+ * Resultado de `task` para `args` (`null` = nada a calcular). Enquanto o
+ * cálculo dos argumentos atuais não chega, devolve o último resultado com
+ * `pending`. `args` precisa ser estável (useMemo).
+ */
+function useEngine<K extends EngineTask>(task: K, args: EngineArgs<K> | null) {
+  const [done, setDone] = useState<{
+    args: EngineArgs<K> | null;
+    value: EngineResult<K> | null;
+  }>({ args: null, value: null });
+
+  useEffect(() => {
+    if (args == null) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      engine.run(task, args, controller.signal).then(
+        (value) => setDone({ args, value }),
+        (e) => {
+          if (isAbortError(e)) return;
+          console.error("Engine error", e);
+          setDone({ args, value: null });
+        }
+      );
+    }, ENGINE_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [task, args]);
+
+  if (args == null) return { value: null, pending: false };
+  return { value: done.value, pending: done.args !== args };
+}
+
+function formatSensitivityResult(
+  metric: SensitivityMetric,
+  value: number | null
+) {
+  if (value == null) return "não chega";
+  if (metric === "requiredPmt") return brl0.format(value);
+  return `${(value / 12).toFixed(1)} anos`;
+}
+
 function InfoTooltip(props: { text: string; label?: string }) {
   const { text, label = "?" } = props;
   return (
@@ -138,6 +602,22 @@ function LineChart(props: {
   height?: number;
   formatY?: (v: number) => string;
   highlightIndex?: number | null;
+  bands?: { low: number[]; mid: number[]; high: number[] } | null;
+  overlays?: number[][] | null;
+  stacks?: { label: string; color: string; values: number[] }[] | null;
+  markers?: { index: number; label: string }[] | null;
+  // Curvas de vários planos, cada uma com nome e cor (no lugar da linha do
+  // plano atual); o eixo x segue `data`
+  series?: { label: string; color: string; values: number[] }[] | null;
+  // Linha tracejada de comparação (ex.: o plano sem taxas)
+  reference?: { label: string; values: number[] } | null;
+  // Outros baldes em linha contínua, fora da carteira (ex.: a reserva de
+  // emergência e a previdência)
+  buckets?: { label: string; color: string; values: number[] }[] | null;
+  // Faixa sombreada entre dois índices de `data` (ex.: a transição)
+  shade?: { from: number; to: number; label: string } | null;
+  // Resultado antigo enquanto o novo é calculado
+  pending?: boolean;
 }) {
   const height = props.height ?? 180;
   const width = 900; // viewBox “fixo”
@@ -145,8 +625,37 @@ function LineChart(props: {
     props.displayMode === "real" ? p.balanceReal : p.balanceNominal
   );
 
-  const min = Math.min(...values);
-  const max = Math.max(...values);
+  const netValues = props.data.map((p) =>
+    props.displayMode === "real" ? p.netBalanceReal : p.netBalanceNominal
+  );
+  const series = props.series ?? [];
+  const hasSeries = series.length > 0;
+  const hasTax =
+    !hasSeries &&
+    props.data.some((p) => p.taxDeferredNominal > 0 || p.taxPaidNominal > 0);
+
+  const bands = props.bands ?? null;
+  const overlays = props.overlays ?? [];
+  const reference = props.reference ?? null;
+  const buckets = props.buckets ?? [];
+  const shade =
+    props.shade && props.shade.to > props.shade.from ? props.shade : null;
+  const scaleValues = [
+    ...(hasSeries ? series.flatMap((s) => s.values) : values),
+    ...(reference?.values ?? []),
+    ...buckets.flatMap((k) => k.values),
+  ];
+  const min = Math.min(
+    ...scaleValues,
+    ...(hasTax ? netValues : []),
+    ...(bands?.low ?? []),
+    ...overlays.map((o) => Math.min(...o))
+  );
+  const max = Math.max(
+    ...scaleValues,
+    ...(bands?.high ?? []),
+    ...overlays.map((o) => Math.max(...o))
+  );
 
   const padX = 14;
   const padY = 12;
@@ -157,17 +666,54 @@ function LineChart(props: {
   const toY = (v: number) =>
     padY + (1 - (v - min) / (safeMax - min)) * (height - padY * 2);
 
-  const d = values
-    .map(
-      (v, i) =>
-        `${i === 0 ? "M" : "L"} ${toX(i).toFixed(2)} ${toY(v).toFixed(2)}`
-    )
-    .join(" ");
+  const toPath = (series: number[]) =>
+    series
+      .map(
+        (v, i) =>
+          `${i === 0 ? "M" : "L"} ${toX(i).toFixed(2)} ${toY(v).toFixed(2)}`
+      )
+      .join(" ");
+
+  const d = toPath(values);
+
+  // Áreas empilhadas por classe (de baixo para cima, na ordem recebida)
+  const stacks = props.stacks ?? [];
+  const stackAreas = stacks.map((stack, k) => {
+    const below = values.map((_, i) =>
+      stacks.slice(0, k).reduce((sum, s) => sum + s.values[i], 0)
+    );
+    const above = below.map((v, i) => v + stack.values[i]);
+    return {
+      label: stack.label,
+      color: stack.color,
+      d: `${toPath(above)} ${below
+        .map((v, i) => `L ${toX(i).toFixed(2)} ${toY(v).toFixed(2)}`)
+        .reverse()
+        .join(" ")} Z`,
+    };
+  });
+
+  // Faixa P10–P90: segue a borda inferior e volta pela superior
+  const bandArea = bands
+    ? `${toPath(bands.low)} ${bands.high
+        .map((v, i) => `L ${toX(i).toFixed(2)} ${toY(v).toFixed(2)}`)
+        .reverse()
+        .join(" ")} Z`
+    : null;
 
   const fmt = props.formatY ?? ((v: number) => brl0.format(v));
 
   const [hoverIdx, setHoverIdx] = useState<number | null>(null);
 
+  const tooltipTax = (idx: number, kind: "deferred" | "paid") => {
+    const p = props.data[idx];
+    if (kind === "deferred")
+      return props.displayMode === "real"
+        ? p.taxDeferredReal
+        : p.taxDeferredNominal;
+    return props.displayMode === "real" ? p.taxPaidReal : p.taxPaidNominal;
+  };
+
   const targetY =
     props.targetValue != null && Number.isFinite(props.targetValue)
       ? toY(props.targetValue)
@@ -178,8 +724,19 @@ function LineChart(props: {
       ? toX(props.highlightIndex)
       : null;
 
+  // Compras, heranças etc.: o valor vem do ponto, o nome vem do App
+  const markers = (props.markers ?? []).filter(
+    (mk) => values[mk.index] != null
+  );
+  const markerAt = (idx: number) => markers.find((mk) => mk.index === idx);
+  const eventAmount = (idx: number) => {
+    const p = props.data[idx];
+    const real = p.eventReal ?? 0;
+    return props.displayMode === "real" ? real : real * p.inflFactor;
+  };
+
   return (
-    <div className="chartWrap">
+    <div className={props.pending ? "chartWrap pending" : "chartWrap"}>
       <svg
         viewBox={`0 0 ${width} ${height}`}
         className="chartSvg"
@@ -194,6 +751,15 @@ function LineChart(props: {
           if (idx >= 0 && idx < values.length) setHoverIdx(idx);
         }}
       >
+        {shade && (
+          <rect
+            x={toX(shade.from)}
+            y={padY}
+            width={Math.max(0, toX(shade.to) - toX(shade.from))}
+            height={height - padY * 2}
+            className="chartShade"
+          />
+        )}
         {targetY != null && (
           <line
             x1={padX}
@@ -203,11 +769,69 @@ function LineChart(props: {
             className="chartGoal"
           />
         )}
-        <path d={d} className="chartLine" />
+        {stackAreas.map((area) => (
+          <path
+            key={area.label}
+            d={area.d}
+            fill={area.color}
+            className="chartStack"
+          />
+        ))}
+        {overlays.map((o, i) => (
+          <path key={i} d={toPath(o)} className="chartOverlay" />
+        ))}
+        {bandArea && bands && (
+          <>
+            <path d={bandArea} className="chartBand" />
+            <path d={toPath(bands.mid)} className="chartBandMid" />
+          </>
+        )}
+        {markers.map((mk) => (
+          <g key={mk.index}>
+            <line
+              x1={toX(mk.index)}
+              x2={toX(mk.index)}
+              y1={padY}
+              y2={height - padY}
+              className="chartEventLine"
+            />
+            <circle
+              cx={toX(mk.index)}
+              cy={toY(values[mk.index])}
+              r={4}
+              className={
+                eventAmount(mk.index) < 0
+                  ? "chartEventDot out"
+                  : "chartEventDot"
+              }
+            />
+          </g>
+        ))}
+        {series.map((s) => (
+          <path
+            key={s.label}
+            d={toPath(s.values)}
+            className="chartSeries"
+            stroke={s.color}
+          />
+        ))}
+        {reference && (
+          <path d={toPath(reference.values)} className="chartReference" />
+        )}
+        {buckets.map((k) => (
+          <path
+            key={k.label}
+            d={toPath(k.values)}
+            className="chartBucket"
+            stroke={k.color}
+          />
+        ))}
+        {!hasSeries && <path d={d} className="chartLine" />}
+        {hasTax && <path d={toPath(netValues)} className="chartNetLine" />}
         {props.highlightIndex != null && highlightX != null && (
           <circle
             cx={highlightX}
-            cy={toY(values[props.highlightIndex])}
+            cy={toY(netValues[props.highlightIndex])}
             r={5}
             className="chartMarker"
           />
@@ -221,12 +845,14 @@ function LineChart(props: {
               y2={height - padY}
               className="chartHoverLine"
             />
-            <circle
-              cx={toX(hoverIdx)}
-              cy={toY(values[hoverIdx])}
-              r={4.5}
-              className="chartHoverDot"
-            />
+            {!hasSeries && (
+              <circle
+                cx={toX(hoverIdx)}
+                cy={toY(values[hoverIdx])}
+                r={4.5}
+                className="chartHoverDot"
+              />
+            )}
           </g>
         )}
       </svg>
@@ -237,7 +863,50 @@ function LineChart(props: {
           </div>
           <div className="chartTooltipBody">
             <span>Idade ~{props.data[hoverIdx].age.toFixed(1)}</span>
-            <span>Saldo {fmt(values[hoverIdx])}</span>
+            {!hasSeries && <span>Saldo {fmt(values[hoverIdx])}</span>}
+            {series.map(
+              (s) =>
+                s.values[hoverIdx] != null && (
+                  <span key={s.label}>
+                    {s.label}: {fmt(s.values[hoverIdx])}
+                  </span>
+                )
+            )}
+            {reference && reference.values[hoverIdx] != null && (
+              <span>
+                {reference.label}: {fmt(reference.values[hoverIdx])}
+              </span>
+            )}
+            {buckets.map(
+              (k) =>
+                k.values[hoverIdx] != null && (
+                  <span key={k.label}>
+                    {k.label}: {fmt(k.values[hoverIdx])}
+                  </span>
+                )
+            )}
+            {markerAt(hoverIdx) && (
+              <span>
+                {markerAt(hoverIdx)!.label}:{" "}
+                {eventAmount(hoverIdx) >= 0 ? "+" : "−"}
+                {fmt(Math.abs(eventAmount(hoverIdx)))}
+              </span>
+            )}
+            {bands && (
+              <span>
+                P10 {fmt(bands.low[hoverIdx])} · P50 {fmt(bands.mid[hoverIdx])}{" "}
+                · P90 {fmt(bands.high[hoverIdx])}
+              </span>
+            )}
+            {hasTax && (
+              <>
+                <span>
+                  IR no resgate {fmt(tooltipTax(hoverIdx, "deferred"))}
+                </span>
+                <span>IR já pago {fmt(tooltipTax(hoverIdx, "paid"))}</span>
+                <span>Líquido {fmt(netValues[hoverIdx])}</span>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -245,6 +914,55 @@ function LineChart(props: {
         <span>
           min: <b>{fmt(min)}</b>
         </span>
+        {hasSeries && (
+          <span className="chartStackLegend">
+            {series.map((s) => (
+              <span key={s.label}>
+                <i style={{ background: s.color }} />
+                {s.label}
+              </span>
+            ))}
+          </span>
+        )}
+        {shade && (
+          <span className="chartStackLegend">
+            <span>
+              <i className="chartShadeKey" />
+              {shade.label}
+            </span>
+          </span>
+        )}
+        {reference && (
+          <span className="chartStackLegend">
+            <span>
+              <i className="chartReferenceKey" />
+              {reference.label}
+            </span>
+          </span>
+        )}
+        {buckets.length > 0 && (
+          <span className="chartStackLegend">
+            {buckets.map((k) => (
+              <span key={k.label}>
+                <i
+                  className="chartBucketKey"
+                  style={{ borderTopColor: k.color }}
+                />
+                {k.label}
+              </span>
+            ))}
+          </span>
+        )}
+        {stackAreas.length > 0 && (
+          <span className="chartStackLegend">
+            {stackAreas.map((area) => (
+              <span key={area.label}>
+                <i style={{ background: area.color }} />
+                {area.label}
+              </span>
+            ))}
+          </span>
+        )}
         <span>
           max: <b>{fmt(max)}</b>
         </span>
@@ -254,51 +972,319 @@ function LineChart(props: {
 }
 
 export default function App() {
+  // Começa nos valores padrão; o plano do link entra logo depois (ver abaixo)
+  const [linkNotice, setLinkNotice] = useState<string | null>(null);
+
   // Benchmark
-  const [benchmarkKey, setBenchmarkKey] = useState<BenchmarkKey>("investidor");
-  const [taxaAporteModeloPct, setTaxaAporteModeloPct] = useState("10"); // % da renda
-  const [rendaMensal, setRendaMensal] = useState(
-    String(BENCHMARKS.investidor.income)
+  const [benchmarkKey, setBenchmarkKey] = useState<BenchmarkKey>(
+    DEFAULT_PRESET.benchmarkKey
   );
+  const [taxaAporteModeloPct, setTaxaAporteModeloPct] = useState(
+    DEFAULT_PRESET.taxaAporteModeloPct
+  ); // % da renda
+  const [rendaMensal, setRendaMensal] = useState(DEFAULT_PRESET.rendaMensal);
 
   // Inputs
-  const [carteiraAtual, setCarteiraAtual] = useState("50000");
-  const [idadeAtual, setIdadeAtual] = useState("23");
-  const [meta, setMeta] = useState("1000000");
+  const [carteiraAtual, setCarteiraAtual] = useState(
+    DEFAULT_PRESET.carteiraAtual
+  );
+  const [idadeAtual, setIdadeAtual] = useState(DEFAULT_PRESET.idadeAtual);
+  const [meta, setMeta] = useState(DEFAULT_PRESET.meta);
+
+  // Modo casal: duas rendas e idades aportando na mesma carteira
+  const [modoCasal, setModoCasal] = useState(DEFAULT_PRESET.modoCasal);
+  const [aportePctRenda, setAportePctRenda] = useState(
+    DEFAULT_PRESET.aportePctRenda
+  );
+  const [inicioAporteMes, setInicioAporteMes] = useState(
+    DEFAULT_PRESET.inicioAporteMes
+  );
+  const [idadeFimAporte, setIdadeFimAporte] = useState(
+    DEFAULT_PRESET.idadeFimAporte
+  );
+  const [idadeParceiro, setIdadeParceiro] = useState(
+    DEFAULT_PRESET.idadeParceiro
+  );
+  const [rendaParceiro, setRendaParceiro] = useState(
+    DEFAULT_PRESET.rendaParceiro
+  );
+  const [aportePctRendaParceiro, setAportePctRendaParceiro] = useState(
+    DEFAULT_PRESET.aportePctRendaParceiro
+  );
+  const [inicioAporteParceiroMes, setInicioAporteParceiroMes] = useState(
+    DEFAULT_PRESET.inicioAporteParceiroMes
+  );
+  const [idadeFimAporteParceiro, setIdadeFimAporteParceiro] = useState(
+    DEFAULT_PRESET.idadeFimAporteParceiro
+  );
+
+  // Meta de independência financeira (a partir do gasto mensal)
+  const [usarMetaFire, setUsarMetaFire] = useState(DEFAULT_PRESET.usarMetaFire);
+  const [gastoMensalFire, setGastoMensalFire] = useState(
+    DEFAULT_PRESET.gastoMensalFire
+  );
+  const [metodoFire, setMetodoFire] = useState<FireMethod>(
+    DEFAULT_PRESET.metodoFire
+  );
+  const [taxaRetiradaFirePct, setTaxaRetiradaFirePct] = useState(
+    DEFAULT_PRESET.taxaRetiradaFirePct
+  );
+  const [rendimentoRealFirePct, setRendimentoRealFirePct] = useState(
+    DEFAULT_PRESET.rendimentoRealFirePct
+  );
+  const [idadeIndependencia, setIdadeIndependencia] = useState(
+    DEFAULT_PRESET.idadeIndependencia
+  );
+  const [beneficioInss, setBeneficioInss] = useState(
+    DEFAULT_PRESET.beneficioInss
+  );
+  const [idadeInss, setIdadeInss] = useState(DEFAULT_PRESET.idadeInss);
+
+  // Previdência privada (PGBL/VGBL), projetada à parte da carteira
+  const [usarPrevidencia, setUsarPrevidencia] = useState(
+    DEFAULT_PRESET.usarPrevidencia
+  );
+  const [tipoPrevidencia, setTipoPrevidencia] = useState<PensionPlanType>(
+    DEFAULT_PRESET.tipoPrevidencia
+  );
+  const [tabelaPrevidencia, setTabelaPrevidencia] = useState<PensionTaxTable>(
+    DEFAULT_PRESET.tabelaPrevidencia
+  );
+  const [aportePrevidencia, setAportePrevidencia] = useState(
+    DEFAULT_PRESET.aportePrevidencia
+  );
+  const [saldoPrevidencia, setSaldoPrevidencia] = useState(
+    DEFAULT_PRESET.saldoPrevidencia
+  );
+  const [rendimentoPrevidenciaPct, setRendimentoPrevidenciaPct] = useState(
+    DEFAULT_PRESET.rendimentoPrevidenciaPct
+  );
+  const [taxaAdmPrevidenciaPct, setTaxaAdmPrevidenciaPct] = useState(
+    DEFAULT_PRESET.taxaAdmPrevidenciaPct
+  );
+
+  // Reserva de emergência, preenchida antes de aportar na meta
+  const [usarReserva, setUsarReserva] = useState(DEFAULT_PRESET.usarReserva);
+  const [despesaMensal, setDespesaMensal] = useState(
+    DEFAULT_PRESET.despesaMensal
+  );
+  const [mesesReserva, setMesesReserva] = useState(DEFAULT_PRESET.mesesReserva);
+  const [reservaAtual, setReservaAtual] = useState(DEFAULT_PRESET.reservaAtual);
+  const [rendimentoReservaPct, setRendimentoReservaPct] = useState(
+    DEFAULT_PRESET.rendimentoReservaPct
+  );
 
   // Cenários
-  const [scenarioKey, setScenarioKey] = useState<ScenarioKey>("base");
+  const [scenarioKey, setScenarioKey] = useState<ScenarioKey>(
+    DEFAULT_PRESET.scenarioKey
+  );
   const [
     rendimentoMensalPctPersonalizado,
     setRendimentoMensalPctPersonalizado,
-  ] = useState("1.0"); // %
+  ] = useState(DEFAULT_PRESET.rendimentoMensalPctPersonalizado); // %
+  const [produtoKey, setProdutoKey] = useState<FixedIncomeProductKey>(
+    DEFAULT_PRESET.produtoKey
+  );
+  const [produtoTaxaPct, setProdutoTaxaPct] = useState(
+    DEFAULT_PRESET.produtoTaxaPct
+  );
 
   // Macros (sliders)
-  const [inflacaoAnualPct, setInflacaoAnualPct] = useState(4.5);
-  const [impostoEfetivoPct, setImpostoEfetivoPct] = useState(15);
+  const [inflacaoAnualPct, setInflacaoAnualPct] = useState(
+    DEFAULT_PRESET.inflacaoAnualPct
+  );
+  const [curvaTaxas, setCurvaTaxas] = useState<RatePhaseInput[]>(
+    DEFAULT_PRESET.curvaTaxas
+  );
+
+  // Transição para preservação (glide path)
+  const [usarTransicao, setUsarTransicao] = useState(
+    DEFAULT_PRESET.usarTransicao
+  );
+  const [anosTransicao, setAnosTransicao] = useState(
+    DEFAULT_PRESET.anosTransicao
+  );
+  const [rendimentoPreservacaoPct, setRendimentoPreservacaoPct] = useState(
+    DEFAULT_PRESET.rendimentoPreservacaoPct
+  );
+  const [volPreservacaoPct, setVolPreservacaoPct] = useState(
+    DEFAULT_PRESET.volPreservacaoPct
+  );
+  const [taxRegime, setTaxRegime] = useState<TaxRegime>(
+    DEFAULT_PRESET.taxRegime
+  );
+  const [selicAnualPct, setSelicAnualPct] = useState(
+    DEFAULT_PRESET.selicAnualPct
+  );
+  const [cdiAnualPct, setCdiAnualPct] = useState(DEFAULT_PRESET.cdiAnualPct);
+  const [trAnualPct, setTrAnualPct] = useState(DEFAULT_PRESET.trAnualPct);
+
+  // Custos
+  const [taxaAdmAnualPct, setTaxaAdmAnualPct] = useState(
+    DEFAULT_PRESET.taxaAdmAnualPct
+  );
+  const [taxaCustodiaAnualPct, setTaxaCustodiaAnualPct] = useState(
+    DEFAULT_PRESET.taxaCustodiaAnualPct
+  );
+  const [taxaPerformancePct, setTaxaPerformancePct] = useState(
+    DEFAULT_PRESET.taxaPerformancePct
+  );
+  const [corretagemPorAporte, setCorretagemPorAporte] = useState(
+    DEFAULT_PRESET.corretagemPorAporte
+  );
 
   // Aporte e projeção
-  const [indexation, setIndexation] =
-    useState<ContributionIndexation>("inflationAdjusted");
-  const [timing, setTiming] = useState<ContributionTiming>("end");
-  const [displayMode, setDisplayMode] = useState<DisplayMode>("real");
+  const [indexation, setIndexation] = useState<ContributionIndexation>(
+    DEFAULT_PRESET.indexation
+  );
+  const [timing, setTiming] = useState<ContributionTiming>(
+    DEFAULT_PRESET.timing
+  );
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(
+    DEFAULT_PRESET.displayMode
+  );
 
   // Presets
-  const [presets, setPresets] = useState<Preset[]>(() =>
-    loadPresetsFromStorage()
+  const [storedPresets] = useState(loadPresetsFromStorage);
+  const [presets, setPresets] = useState<Preset[]>(storedPresets.presets);
+  const [presetReport, setPresetReport] = useState<PresetReport>(
+    storedPresets.report
+  );
+  // Presets que esta versão não abre: ficam guardados até serem apagados
+  const [presetsIlegiveis, setPresetsIlegiveis] = useState(
+    storedPresets.unreadable
   );
   const [presetName, setPresetName] = useState("");
+  const [presetsSelecionados, setPresetsSelecionados] = useState<string[]>([]);
+  const [importacao, setImportacao] = useState<{
+    fileName: string;
+    preview: ImportPreviewItem[];
+  } | null>(null);
+  const [resolucaoConflito, setResolucaoConflito] =
+    useState<ConflictResolution>("keepBoth");
+  const [importResumo, setImportResumo] = useState<string | null>(null);
 
   useEffect(() => {
-    persistPresets(presets);
-  }, [presets]);
+    persistPresets(presets, presetsIlegiveis);
+  }, [presets, presetsIlegiveis]);
 
   // Idade alvo
-  const [usarTempoDoModelo, setUsarTempoDoModelo] = useState(true);
-  const [idadeAlvoManual, setIdadeAlvoManual] = useState("60");
+  const [usarTempoDoModelo, setUsarTempoDoModelo] = useState(
+    DEFAULT_PRESET.usarTempoDoModelo
+  );
+  const [idadeAlvoManual, setIdadeAlvoManual] = useState(
+    DEFAULT_PRESET.idadeAlvoManual
+  );
 
   // “Meu aporte” (quanto tempo com X/mês)
-  const [meuAporte, setMeuAporte] = useState("1000");
+  const [meuAporte, setMeuAporte] = useState(DEFAULT_PRESET.meuAporte);
+
+  // Cronograma do aporte: aumento real, 13º, PLR, pausas e extras
+  const [aumentoRealAnualPct, setAumentoRealAnualPct] = useState(
+    DEFAULT_PRESET.aumentoRealAnualPct
+  );
+  const [aporte13, setAporte13] = useState(DEFAULT_PRESET.aporte13);
+  const [plrMultiplo, setPlrMultiplo] = useState(DEFAULT_PRESET.plrMultiplo);
+  const [plrMes, setPlrMes] = useState(DEFAULT_PRESET.plrMes);
+  const [eventosAporte, setEventosAporte] = useState<ContributionEventInput[]>(
+    DEFAULT_PRESET.eventosAporte
+  );
+
+  // Eventos pontuais (compra do carro, herança...) em R$ de hoje
+  const [eventosPlano, setEventosPlano] = useState<PlanEventInput[]>(
+    DEFAULT_PRESET.eventosPlano
+  );
+
+  // Outras metas com prazo próprio, dividindo um orçamento mensal
+  const [metas, setMetas] = useState<GoalInput[]>(DEFAULT_PRESET.metas);
+  const [orcamentoMetas, setOrcamentoMetas] = useState(
+    DEFAULT_PRESET.orcamentoMetas
+  );
+  const [alocacaoMetas, setAlocacaoMetas] = useState<GoalAllocation>(
+    DEFAULT_PRESET.alocacaoMetas
+  );
+
+  // Margem de segurança do aporte sugerido (por padrão, exatamente a meta)
+  const [margemSeguranca, setMargemSeguranca] = useState<SafetyMarginMode>(
+    DEFAULT_PRESET.margemSeguranca
+  );
+  const [margemBp, setMargemBp] = useState(DEFAULT_PRESET.margemBp);
+  const [probabilidadeMinimaPct, setProbabilidadeMinimaPct] = useState(
+    DEFAULT_PRESET.probabilidadeMinimaPct
+  );
+
+  // Monte Carlo (média = cenário/inflação escolhidos)
+  const [projectionMode, setProjectionMode] = useState<ProjectionMode>(
+    DEFAULT_PRESET.projectionMode
+  );
+  const [volRetornoMensalPct, setVolRetornoMensalPct] = useState(
+    DEFAULT_PRESET.volRetornoMensalPct
+  );
+  const [volInflacaoMensalPct, setVolInflacaoMensalPct] = useState(
+    DEFAULT_PRESET.volInflacaoMensalPct
+  );
+  const [simulacoesMC, setSimulacoesMC] = useState(DEFAULT_PRESET.simulacoesMC);
+  const [seedMC, setSeedMC] = useState(DEFAULT_PRESET.seedMC);
+
+  // Backtest histórico (CDI + Ibovespa, deflacionado pelo IPCA)
+  const [pctIbovBacktest, setPctIbovBacktest] = useState(
+    DEFAULT_PRESET.pctIbovBacktest
+  );
+
+  // Carteira com várias classes
+  const [usarCarteira, setUsarCarteira] = useState(DEFAULT_PRESET.usarCarteira);
+  const [carteiraClasses, setCarteiraClasses] = useState<PortfolioClassInput[]>(
+    DEFAULT_PRESET.carteiraClasses
+  );
+  const [rebalanceamentoAnual, setRebalanceamentoAnual] = useState(
+    DEFAULT_PRESET.rebalanceamentoAnual
+  );
+
+  // Fase de retiradas (depois da meta)
+  const [simularRetiradas, setSimularRetiradas] = useState(
+    DEFAULT_PRESET.simularRetiradas
+  );
+  const [expectativaVida, setExpectativaVida] = useState(
+    DEFAULT_PRESET.expectativaVida
+  );
+  const [regraRetirada, setRegraRetirada] = useState<WithdrawalRule>(
+    DEFAULT_PRESET.regraRetirada
+  );
+  const [retiradaMensal, setRetiradaMensal] = useState(
+    DEFAULT_PRESET.retiradaMensal
+  );
+  const [taxaRetiradaPct, setTaxaRetiradaPct] = useState(
+    DEFAULT_PRESET.taxaRetiradaPct
+  );
+
+  // Sensibilidade: análise do plano atual, não vai para o preset
+  const [sensMetrica, setSensMetrica] =
+    useState<SensitivityMetric>("requiredPmt");
+  const [sensEixoX, setSensEixoX] =
+    useState<SensitivityVariable>("grossMonthlyRate");
+  const [sensEixoY, setSensEixoY] = useState<SensitivityVariable>(
+    "inflationAnnualRate"
+  );
+  const [sensVariacao, setSensVariacao] = useState<
+    Record<SensitivityVariable, string>
+  >(() => {
+    const spreads = {} as Record<SensitivityVariable, string>;
+    for (const [k, v] of Object.entries(SENSITIVITY_VARIABLES)) {
+      spreads[k as SensitivityVariable] = v.spread;
+    }
+    return spreads;
+  });
+  const [sensibilidade, setSensibilidade] = useState<
+    | (SensitivityAnalysis & {
+        plan: SensitivityPlan;
+        metric: SensitivityMetric;
+        x: SensitivityAxis;
+        y: SensitivityAxis;
+      })
+    | null
+  >(null);
+  const [sensCalculando, setSensCalculando] = useState(false);
+  const sensCalculo = useRef<AbortController | null>(null);
 
   const b = BENCHMARKS[benchmarkKey];
 
@@ -310,26 +1296,113 @@ export default function App() {
     () => Math.max(0, parseNumberBR(idadeAtual)),
     [idadeAtual]
   );
-  const targetToday = useMemo(() => Math.max(0, parseNumberBR(meta)), [meta]);
+  // Com a meta de independência, a meta acompanha o gasto mensal desejado
+  const metaTotal = useMemo(
+    () =>
+      targetTodayFromInputs({
+        meta,
+        usarMetaFire,
+        gastoMensalFire,
+        metodoFire,
+        taxaRetiradaFirePct,
+        rendimentoRealFirePct,
+        idadeIndependencia,
+        expectativaVida,
+      }),
+    [
+      meta,
+      usarMetaFire,
+      gastoMensalFire,
+      metodoFire,
+      taxaRetiradaFirePct,
+      rendimentoRealFirePct,
+      idadeIndependencia,
+      expectativaVida,
+    ]
+  );
 
   const rendaMensalNum = useMemo(
     () => Math.max(0, parseNumberBR(rendaMensal)),
     [rendaMensal]
   );
-  const rendaReferencia = rendaMensalNum > 0 ? rendaMensalNum : b.income;
-  const usandoRendaDoBenchmark = rendaMensalNum <= 0;
+  const casal = useMemo(
+    () =>
+      householdFromInputs({
+        modoCasal,
+        rendaMensal,
+        idadeAtual,
+        aportePctRenda,
+        inicioAporteMes,
+        idadeFimAporte,
+        idadeParceiro,
+        rendaParceiro,
+        aportePctRendaParceiro,
+        inicioAporteParceiroMes,
+        idadeFimAporteParceiro,
+      }),
+    [
+      modoCasal,
+      rendaMensal,
+      idadeAtual,
+      aportePctRenda,
+      inicioAporteMes,
+      idadeFimAporte,
+      idadeParceiro,
+      rendaParceiro,
+      aportePctRendaParceiro,
+      inicioAporteParceiroMes,
+      idadeFimAporteParceiro,
+    ]
+  );
+  const contributors = casal?.contributors;
+
+  // No modo casal, o benchmark usa a renda somada dos dois
+  const rendaPlano = casal ? casal.income : rendaMensalNum;
+  const rendaReferencia = rendaPlano > 0 ? rendaPlano : b.income;
+  const usandoRendaDoBenchmark = rendaPlano <= 0;
 
   const inflAnnual = inflacaoAnualPct / 100;
   const inflM = useMemo(() => annualToMonthlyRate(inflAnnual), [inflAnnual]);
 
-  const taxRate = impostoEfetivoPct / 100;
+  const returnInputs = useMemo(
+    () => ({
+      scenarioKey,
+      rendimentoMensalPctPersonalizado,
+      produtoKey,
+      produtoTaxaPct,
+      selicAnualPct,
+      cdiAnualPct,
+      trAnualPct,
+      inflacaoAnualPct,
+      taxRegime,
+    }),
+    [
+      scenarioKey,
+      rendimentoMensalPctPersonalizado,
+      produtoKey,
+      produtoTaxaPct,
+      selicAnualPct,
+      cdiAnualPct,
+      trAnualPct,
+      inflacaoAnualPct,
+      taxRegime,
+    ]
+  );
+  const usandoProduto = scenarioKey === "produto";
+  const produto = FIXED_INCOME_PRODUCTS[produtoKey];
+
+  // Com um produto, o IR é o dele
+  const taxRegimeUsado = taxRegimeFromInputs(returnInputs);
+
+  // IR por lote fica no motor; aqui só a alíquota de longo prazo para exibir
+  // uma taxa líquida de referência.
+  const taxRate = longTermTaxRate(taxRegimeUsado);
+  const startCalendarMonth = useMemo(() => new Date().getMonth(), []);
 
-  const grossMonthlyPctUsed = useMemo(() => {
-    if (scenarioKey === "personalizado")
-      return parseNumberBR(rendimentoMensalPctPersonalizado);
-    const preset = SCENARIOS.find((s) => s.key === scenarioKey);
-    return preset?.grossMonthlyPct ?? 0.6;
-  }, [scenarioKey, rendimentoMensalPctPersonalizado]);
+  const grossMonthlyPctUsed = useMemo(
+    () => grossMonthlyPctFromInputs(returnInputs),
+    [returnInputs]
+  );
 
   const grossMonthlyRate = useMemo(
     () => grossMonthlyPctUsed / 100,
@@ -344,6 +1417,15 @@ export default function App() {
     });
   }, [grossMonthlyRate, taxRate, inflM]);
 
+  // Taxa real antes do IR: é a que alimenta o motor junto com `taxRegime`.
+  const rRealGross = useMemo(() => {
+    return realMonthlyRateFromGross({
+      grossMonthlyRate,
+      taxOnGainsRate: 0,
+      inflationMonthlyRate: inflM,
+    });
+  }, [grossMonthlyRate, inflM]);
+
   const netNominalMonthlyRate = useMemo(
     () => grossMonthlyRate * (1 - taxRate),
     [grossMonthlyRate, taxRate]
@@ -356,17 +1438,86 @@ export default function App() {
       rendaMensal,
       carteiraAtual,
       idadeAtual,
+      modoCasal,
+      aportePctRenda,
+      inicioAporteMes,
+      idadeFimAporte,
+      idadeParceiro,
+      rendaParceiro,
+      aportePctRendaParceiro,
+      inicioAporteParceiroMes,
+      idadeFimAporteParceiro,
       meta,
+      usarMetaFire,
+      gastoMensalFire,
+      metodoFire,
+      taxaRetiradaFirePct,
+      rendimentoRealFirePct,
+      idadeIndependencia,
+      beneficioInss,
+      idadeInss,
+      usarPrevidencia,
+      tipoPrevidencia,
+      tabelaPrevidencia,
+      aportePrevidencia,
+      saldoPrevidencia,
+      rendimentoPrevidenciaPct,
+      taxaAdmPrevidenciaPct,
+      usarReserva,
+      despesaMensal,
+      mesesReserva,
+      reservaAtual,
+      rendimentoReservaPct,
       scenarioKey,
       rendimentoMensalPctPersonalizado,
+      produtoKey,
+      produtoTaxaPct,
+      selicAnualPct,
+      cdiAnualPct,
+      trAnualPct,
       inflacaoAnualPct,
-      impostoEfetivoPct,
+      curvaTaxas,
+      usarTransicao,
+      anosTransicao,
+      rendimentoPreservacaoPct,
+      volPreservacaoPct,
+      taxRegime,
+      taxaAdmAnualPct,
+      taxaCustodiaAnualPct,
+      taxaPerformancePct,
+      corretagemPorAporte,
       indexation,
       timing,
       displayMode,
       usarTempoDoModelo,
       idadeAlvoManual,
       meuAporte,
+      projectionMode,
+      volRetornoMensalPct,
+      volInflacaoMensalPct,
+      simulacoesMC,
+      seedMC,
+      pctIbovBacktest,
+      usarCarteira,
+      carteiraClasses,
+      rebalanceamentoAnual,
+      simularRetiradas,
+      expectativaVida,
+      regraRetirada,
+      retiradaMensal,
+      taxaRetiradaPct,
+      margemSeguranca,
+      margemBp,
+      probabilidadeMinimaPct,
+      aumentoRealAnualPct,
+      aporte13,
+      plrMultiplo,
+      plrMes,
+      eventosAporte,
+      eventosPlano,
+      metas,
+      orcamentoMetas,
+      alocacaoMetas,
     }),
     [
       benchmarkKey,
@@ -374,17 +1525,86 @@ export default function App() {
       rendaMensal,
       carteiraAtual,
       idadeAtual,
+      modoCasal,
+      aportePctRenda,
+      inicioAporteMes,
+      idadeFimAporte,
+      idadeParceiro,
+      rendaParceiro,
+      aportePctRendaParceiro,
+      inicioAporteParceiroMes,
+      idadeFimAporteParceiro,
       meta,
+      usarMetaFire,
+      gastoMensalFire,
+      metodoFire,
+      taxaRetiradaFirePct,
+      rendimentoRealFirePct,
+      idadeIndependencia,
+      beneficioInss,
+      idadeInss,
+      usarPrevidencia,
+      tipoPrevidencia,
+      tabelaPrevidencia,
+      aportePrevidencia,
+      saldoPrevidencia,
+      rendimentoPrevidenciaPct,
+      taxaAdmPrevidenciaPct,
+      usarReserva,
+      despesaMensal,
+      mesesReserva,
+      reservaAtual,
+      rendimentoReservaPct,
       scenarioKey,
       rendimentoMensalPctPersonalizado,
+      produtoKey,
+      produtoTaxaPct,
+      selicAnualPct,
+      cdiAnualPct,
+      trAnualPct,
       inflacaoAnualPct,
-      impostoEfetivoPct,
+      curvaTaxas,
+      usarTransicao,
+      anosTransicao,
+      rendimentoPreservacaoPct,
+      volPreservacaoPct,
+      taxRegime,
+      taxaAdmAnualPct,
+      taxaCustodiaAnualPct,
+      taxaPerformancePct,
+      corretagemPorAporte,
       indexation,
       timing,
       displayMode,
       usarTempoDoModelo,
       idadeAlvoManual,
       meuAporte,
+      projectionMode,
+      volRetornoMensalPct,
+      volInflacaoMensalPct,
+      simulacoesMC,
+      seedMC,
+      pctIbovBacktest,
+      usarCarteira,
+      carteiraClasses,
+      rebalanceamentoAnual,
+      simularRetiradas,
+      expectativaVida,
+      regraRetirada,
+      retiradaMensal,
+      taxaRetiradaPct,
+      margemSeguranca,
+      margemBp,
+      probabilidadeMinimaPct,
+      aumentoRealAnualPct,
+      aporte13,
+      plrMultiplo,
+      plrMes,
+      eventosAporte,
+      eventosPlano,
+      metas,
+      orcamentoMetas,
+      alocacaoMetas,
     ]
   );
 
@@ -394,63 +1614,440 @@ export default function App() {
 
     setPresets((prev) => {
       const filtered = prev.filter((p) => p.name !== name);
-      return [...filtered, { name, data: presetPayload }];
+      return [
+        ...filtered,
+        { name, version: PRESET_VERSION, data: presetPayload },
+      ];
     });
     setPresetName("");
   };
 
   const deletePreset = (name: string) => {
     setPresets((prev) => prev.filter((p) => p.name !== name));
+    setPresetsSelecionados((prev) => prev.filter((n) => n !== name));
   };
 
-  const loadPreset = (preset: Preset) => {
-    const data = preset.data;
-    setBenchmarkKey(data.benchmarkKey);
-    setTaxaAporteModeloPct(data.taxaAporteModeloPct);
-    setRendaMensal(data.rendaMensal ?? "");
-    setCarteiraAtual(data.carteiraAtual);
-    setIdadeAtual(data.idadeAtual);
-    setMeta(data.meta);
-    setScenarioKey(data.scenarioKey);
-    setRendimentoMensalPctPersonalizado(data.rendimentoMensalPctPersonalizado);
-    setInflacaoAnualPct(data.inflacaoAnualPct);
-    setImpostoEfetivoPct(data.impostoEfetivoPct);
-    setIndexation(data.indexation);
-    setTiming(data.timing);
-    setDisplayMode(data.displayMode);
-    setUsarTempoDoModelo(data.usarTempoDoModelo);
-    setIdadeAlvoManual(data.idadeAlvoManual);
-    setMeuAporte(data.meuAporte);
+  const togglePresetSelecionado = (name: string) => {
+    setPresetsSelecionados((prev) =>
+      prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]
+    );
   };
 
-  const modeloPmt = useMemo(() => {
-    const pctIncome = Math.max(0, parseNumberBR(taxaAporteModeloPct)) / 100;
-    return rendaReferencia * pctIncome;
-  }, [rendaReferencia, taxaAporteModeloPct]);
+  // Exporta os selecionados (ou todos, se nenhum estiver marcado)
+  const exportPresets = () => {
+    const selected = presets.filter((p) =>
+      presetsSelecionados.includes(p.name)
+    );
+    const list = selected.length > 0 ? selected : presets;
+    if (list.length === 0) return;
 
-  // Tempo do modelo (meses) até a meta, com as mesmas regras (indexation/timing)
-  const modeloMesesAteMeta = useMemo(() => {
-    return monthsToTarget({
-      pvToday: b.startBalance,
-      pmt0: modeloPmt,
-      targetToday,
-      ageNow: b.baseAge,
-      realMonthlyRate: rReal,
+    const blob = new Blob([serializePresetFile(list)], {
+      type: "application/json;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "presets_calculadora.json";
+    a.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  const readImportFile = async (file: File) => {
+    setImportResumo(null);
+    try {
+      const { presets: incoming, report } = parsePresetFile(
+        JSON.parse(await file.text())
+      );
+      setPresetReport(report);
+      if (incoming.length === 0) {
+        setImportacao(null);
+        setImportResumo(`Nenhum preset válido em ${file.name}.`);
+        return;
+      }
+      setImportacao({
+        fileName: file.name,
+        preview: previewPresetImport(presets, incoming),
+      });
+    } catch (e) {
+      console.warn("Erro ao ler arquivo de presets", e);
+      setImportacao(null);
+      setImportResumo(`${file.name} não é um arquivo de presets válido.`);
+    }
+  };
+
+  const confirmImport = () => {
+    if (!importacao) return;
+    // Recalcula contra a lista atual, caso ela tenha mudado desde a prévia
+    const preview = previewPresetImport(
+      presets,
+      importacao.preview.map((i) => i.preset)
+    );
+    const { presets: merged, summary } = mergePresets(
+      presets,
+      preview,
+      resolucaoConflito
+    );
+    setPresets(merged);
+    setImportacao(null);
+    setImportResumo(
+      `Importados: ${summary.added} novos, ${summary.overwritten} sobrescritos, ${summary.renamed} renomeados, ${summary.skipped} ignorados.`
+    );
+  };
+
+  // Só usa setters (estáveis): pode ficar fora das dependências dos efeitos
+  const applyPayload = useCallback((data: PresetPayload) => {
+    setBenchmarkKey(data.benchmarkKey);
+    setTaxaAporteModeloPct(data.taxaAporteModeloPct);
+    setRendaMensal(data.rendaMensal);
+    setCarteiraAtual(data.carteiraAtual);
+    setIdadeAtual(data.idadeAtual);
+    setModoCasal(data.modoCasal);
+    setAportePctRenda(data.aportePctRenda);
+    setInicioAporteMes(data.inicioAporteMes);
+    setIdadeFimAporte(data.idadeFimAporte);
+    setIdadeParceiro(data.idadeParceiro);
+    setRendaParceiro(data.rendaParceiro);
+    setAportePctRendaParceiro(data.aportePctRendaParceiro);
+    setInicioAporteParceiroMes(data.inicioAporteParceiroMes);
+    setIdadeFimAporteParceiro(data.idadeFimAporteParceiro);
+    setMeta(data.meta);
+    setUsarMetaFire(data.usarMetaFire);
+    setGastoMensalFire(data.gastoMensalFire);
+    setMetodoFire(data.metodoFire);
+    setTaxaRetiradaFirePct(data.taxaRetiradaFirePct);
+    setRendimentoRealFirePct(data.rendimentoRealFirePct);
+    setIdadeIndependencia(data.idadeIndependencia);
+    setBeneficioInss(data.beneficioInss);
+    setIdadeInss(data.idadeInss);
+    setUsarPrevidencia(data.usarPrevidencia);
+    setTipoPrevidencia(data.tipoPrevidencia);
+    setTabelaPrevidencia(data.tabelaPrevidencia);
+    setAportePrevidencia(data.aportePrevidencia);
+    setSaldoPrevidencia(data.saldoPrevidencia);
+    setRendimentoPrevidenciaPct(data.rendimentoPrevidenciaPct);
+    setTaxaAdmPrevidenciaPct(data.taxaAdmPrevidenciaPct);
+    setUsarReserva(data.usarReserva);
+    setDespesaMensal(data.despesaMensal);
+    setMesesReserva(data.mesesReserva);
+    setReservaAtual(data.reservaAtual);
+    setRendimentoReservaPct(data.rendimentoReservaPct);
+    setScenarioKey(data.scenarioKey);
+    setRendimentoMensalPctPersonalizado(data.rendimentoMensalPctPersonalizado);
+    setProdutoKey(data.produtoKey);
+    setProdutoTaxaPct(data.produtoTaxaPct);
+    setSelicAnualPct(data.selicAnualPct);
+    setCdiAnualPct(data.cdiAnualPct);
+    setTrAnualPct(data.trAnualPct);
+    setInflacaoAnualPct(data.inflacaoAnualPct);
+    setCurvaTaxas(data.curvaTaxas);
+    setUsarTransicao(data.usarTransicao);
+    setAnosTransicao(data.anosTransicao);
+    setRendimentoPreservacaoPct(data.rendimentoPreservacaoPct);
+    setVolPreservacaoPct(data.volPreservacaoPct);
+    setTaxRegime(data.taxRegime);
+    setTaxaAdmAnualPct(data.taxaAdmAnualPct);
+    setTaxaCustodiaAnualPct(data.taxaCustodiaAnualPct);
+    setTaxaPerformancePct(data.taxaPerformancePct);
+    setCorretagemPorAporte(data.corretagemPorAporte);
+    setIndexation(data.indexation);
+    setTiming(data.timing);
+    setDisplayMode(data.displayMode);
+    setUsarTempoDoModelo(data.usarTempoDoModelo);
+    setIdadeAlvoManual(data.idadeAlvoManual);
+    setMeuAporte(data.meuAporte);
+    setProjectionMode(data.projectionMode);
+    setVolRetornoMensalPct(data.volRetornoMensalPct);
+    setVolInflacaoMensalPct(data.volInflacaoMensalPct);
+    setSimulacoesMC(data.simulacoesMC);
+    setSeedMC(data.seedMC);
+    setPctIbovBacktest(data.pctIbovBacktest);
+    setUsarCarteira(data.usarCarteira);
+    setCarteiraClasses(data.carteiraClasses);
+    setRebalanceamentoAnual(data.rebalanceamentoAnual);
+    setSimularRetiradas(data.simularRetiradas);
+    setExpectativaVida(data.expectativaVida);
+    setRegraRetirada(data.regraRetirada);
+    setRetiradaMensal(data.retiradaMensal);
+    setTaxaRetiradaPct(data.taxaRetiradaPct);
+    setMargemSeguranca(data.margemSeguranca);
+    setMargemBp(data.margemBp);
+    setProbabilidadeMinimaPct(data.probabilidadeMinimaPct);
+    setAumentoRealAnualPct(data.aumentoRealAnualPct);
+    setAporte13(data.aporte13);
+    setPlrMultiplo(data.plrMultiplo);
+    setPlrMes(data.plrMes);
+    setEventosAporte(data.eventosAporte);
+    setEventosPlano(data.eventosPlano);
+    setMetas(data.metas);
+    setOrcamentoMetas(data.orcamentoMetas);
+    setAlocacaoMetas(data.alocacaoMetas);
+  }, []);
+
+  // Presets já passaram por migração e validação ao serem lidos
+  const loadPreset = (preset: Preset) => {
+    applyPayload(preset.data);
+  };
+
+  // O link é descomprimido de forma assíncrona: o plano dele entra depois da
+  // primeira renderização, e a URL só acompanha o plano a partir daí
+  const [linkLido, setLinkLido] = useState(false);
+  useEffect(() => {
+    let cancelled = false;
+    readPlanFromLocation().then((plan) => {
+      if (cancelled) return;
+      applyPayload(plan.payload);
+      setLinkNotice(plan.notice);
+      setLinkLido(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyPayload]);
+
+  // Mantém o plano na URL para compartilhar e para o voltar/avançar do
+  // navegador. Depois de abrir um link ou navegar, a primeira atualização
+  // substitui a entrada em vez de criar outra.
+  const replaceNextUrl = useRef(true);
+  useEffect(() => {
+    if (!linkLido) return;
+    let cancelled = false;
+    let timer: number | undefined;
+    planHash(presetPayload).then((hash) => {
+      if (cancelled) return;
+      if (window.location.hash === hash) {
+        replaceNextUrl.current = false;
+        return;
+      }
+      timer = window.setTimeout(() => {
+        if (replaceNextUrl.current) window.history.replaceState(null, "", hash);
+        else window.history.pushState(null, "", hash);
+        replaceNextUrl.current = false;
+      }, 600);
+    });
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [presetPayload, linkLido]);
+
+  useEffect(() => {
+    const onPopState = async () => {
+      const plan = await readPlanFromLocation();
+      replaceNextUrl.current = true;
+      applyPayload(plan.payload);
+      setLinkNotice(plan.notice);
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [applyPayload]);
+
+  const copyPlanLink = async () => {
+    const url = new URL(window.location.href);
+    url.hash = await planHash(presetPayload);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+    } catch (e) {
+      console.error("Clipboard error", e);
+    }
+  };
+
+  const modeloPmt = useMemo(() => {
+    const pctIncome = Math.max(0, parseNumberBR(taxaAporteModeloPct)) / 100;
+    return rendaReferencia * pctIncome;
+  }, [rendaReferencia, taxaAporteModeloPct]);
+
+  const portfolio = useMemo<Portfolio | undefined>(() => {
+    if (!usarCarteira) return undefined;
+    return portfolioFromInputs(carteiraClasses, rebalanceamentoAnual, inflM);
+  }, [usarCarteira, rebalanceamentoAnual, carteiraClasses, inflM]);
+
+  const pesoTotalCarteira = carteiraClasses.reduce(
+    (sum, c) => sum + Math.max(0, parseNumberBR(c.pesoPct)),
+    0
+  );
+
+  const brutoMedioCarteiraPct =
+    pesoTotalCarteira > 0
+      ? carteiraClasses.reduce(
+          (sum, c) =>
+            sum +
+            Math.max(0, parseNumberBR(c.pesoPct)) *
+              parseNumberBR(c.rendimentoMensalPct),
+          0
+        ) / pesoTotalCarteira
+      : 0;
+
+  const updateClasse = (
+    key: AssetClassKey,
+    patch: Partial<PortfolioClassInput>
+  ) => {
+    setCarteiraClasses((prev) =>
+      prev.map((c) => (c.key === key ? { ...c, ...patch } : c))
+    );
+  };
+
+  const schedule = useMemo<ContributionSchedule | undefined>(
+    () =>
+      scheduleFromInputs({
+        aumentoRealAnualPct,
+        aporte13,
+        plrMultiplo,
+        plrMes,
+        eventosAporte,
+      }),
+    [eventosAporte, aumentoRealAnualPct, aporte13, plrMultiplo, plrMes]
+  );
+
+  const fees = useMemo<InvestmentFees | undefined>(
+    () =>
+      feesFromInputs({
+        taxaAdmAnualPct,
+        taxaCustodiaAnualPct,
+        taxaPerformancePct,
+        corretagemPorAporte,
+        cdiAnualPct,
+      }),
+    [
+      taxaAdmAnualPct,
+      taxaCustodiaAnualPct,
+      taxaPerformancePct,
+      corretagemPorAporte,
+      cdiAnualPct,
+    ]
+  );
+
+  // Fases da curva; depois delas valem as taxas constantes do plano
+  const ratePath = useMemo(
+    () =>
+      ratePathFromInputs(curvaTaxas, {
+        grossMonthlyRate,
+        inflationMonthlyRate: inflM,
+      }),
+    [curvaTaxas, grossMonthlyRate, inflM]
+  );
+
+  const updateFaseCurva = (index: number, patch: Partial<RatePhaseInput>) => {
+    setCurvaTaxas((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, ...patch } : p))
+    );
+  };
+
+  const updateEventoAporte = (
+    index: number,
+    patch: Partial<ContributionEventInput>
+  ) => {
+    setEventosAporte((prev) =>
+      prev.map((e, i) => (i === index ? { ...e, ...patch } : e))
+    );
+  };
+
+  const planEvents = useMemo<PlanEvent[]>(
+    () => planEventsFromInputs(eventosPlano, ageNow),
+    [eventosPlano, ageNow]
+  );
+
+  const updateEventoPlano = (index: number, patch: Partial<PlanEventInput>) => {
+    setEventosPlano((prev) =>
+      prev.map((e, i) => (i === index ? { ...e, ...patch } : e))
+    );
+  };
+
+  const updateMeta = (index: number, patch: Partial<GoalInput>) => {
+    setMetas((prev) =>
+      prev.map((g, i) => (i === index ? { ...g, ...patch } : g))
+    );
+  };
+
+  // Sobe a meta uma posição na ordem de prioridade
+  const subirMeta = (index: number) => {
+    if (index <= 0) return;
+    setMetas((prev) => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  // Parâmetros do motor comuns a todos os cálculos do plano
+  const reserve = useMemo(
+    () =>
+      reserveFromInputs(
+        {
+          usarReserva,
+          despesaMensal,
+          mesesReserva,
+          reservaAtual,
+          rendimentoReservaPct,
+        },
+        inflM
+      ),
+    [
+      usarReserva,
+      despesaMensal,
+      mesesReserva,
+      reservaAtual,
+      rendimentoReservaPct,
+      inflM,
+    ]
+  );
+
+  const engineParams = useMemo(
+    () => ({
+      realMonthlyRate: rRealGross,
       inflationMonthlyRate: inflM,
       indexation,
       timing,
-      maxMonths: 2400,
-    });
-  }, [
-    b.startBalance,
-    modeloPmt,
-    targetToday,
-    b.baseAge,
-    rReal,
-    inflM,
-    indexation,
-    timing,
-  ]);
+      taxRegime: taxRegimeUsado,
+      startCalendarMonth,
+      ratePath,
+      portfolio,
+      schedule,
+      contributors,
+      reserve,
+      events: planEvents,
+      fees,
+    }),
+    [
+      rRealGross,
+      inflM,
+      indexation,
+      timing,
+      taxRegimeUsado,
+      startCalendarMonth,
+      ratePath,
+      portfolio,
+      schedule,
+      contributors,
+      reserve,
+      planEvents,
+      fees,
+    ]
+  );
+
+  // Tempo do modelo (meses) até a meta, com as mesmas regras (indexation/timing)
+  const modeloMesesArgs = useMemo(
+    (): EngineArgs<"monthsToTarget"> => [
+      {
+        ...engineParams,
+        // O benchmark aporta sempre o mesmo valor (sem o seu cronograma, os
+        // seus eventos, o aporte do casal nem a reserva)
+        schedule: undefined,
+        contributors: undefined,
+        events: undefined,
+        reserve: undefined,
+        pvToday: b.startBalance,
+        pmt0: modeloPmt,
+        targetToday: metaTotal,
+        ageNow: b.baseAge,
+        maxMonths: 2400,
+      },
+    ],
+    [b.startBalance, modeloPmt, metaTotal, b.baseAge, engineParams]
+  );
+  const modeloMesesCalc = useEngine("monthsToTarget", modeloMesesArgs);
+  const modeloMesesAteMeta = modeloMesesCalc.value;
 
   const idadeModeloNaMeta = useMemo(() => {
     if (modeloMesesAteMeta == null) return null;
@@ -458,11 +2055,24 @@ export default function App() {
   }, [b.baseAge, modeloMesesAteMeta]);
 
   const idadeAlvo = useMemo(() => {
+    // Ainda sem o primeiro tempo do benchmark: nada de cair na idade digitada
+    if (
+      usarTempoDoModelo &&
+      modeloMesesCalc.pending &&
+      modeloMesesAteMeta == null
+    )
+      return null;
     if (usarTempoDoModelo && modeloMesesAteMeta != null)
       return ageNow + modeloMesesAteMeta / 12;
     const manual = parseNumberBR(idadeAlvoManual);
     return manual > 0 ? manual : null;
-  }, [usarTempoDoModelo, modeloMesesAteMeta, ageNow, idadeAlvoManual]);
+  }, [
+    usarTempoDoModelo,
+    modeloMesesCalc.pending,
+    modeloMesesAteMeta,
+    ageNow,
+    idadeAlvoManual,
+  ]);
 
   const mesesAteAlvo = useMemo(() => {
     if (idadeAlvo == null) return null;
@@ -470,90 +2080,532 @@ export default function App() {
     return years > 0 ? Math.round(years * 12) : null;
   }, [idadeAlvo, ageNow]);
 
-  const metaNominalEquivalente = useMemo(() => {
-    if (mesesAteAlvo == null) return null;
-    const inflFactor = Math.pow(1 + inflM, mesesAteAlvo);
-    return targetToday * inflFactor;
-  }, [mesesAteAlvo, inflM, targetToday]);
+  // A transição depende da idade-alvo: entra nos cálculos do plano, mas não
+  // no tempo do benchmark (que define essa idade)
+  const glidePath = useMemo(
+    () =>
+      glidePathFromInputs(
+        {
+          usarTransicao,
+          anosTransicao,
+          rendimentoPreservacaoPct,
+          volPreservacaoPct,
+        },
+        mesesAteAlvo,
+        inflM
+      ),
+    [
+      usarTransicao,
+      anosTransicao,
+      rendimentoPreservacaoPct,
+      volPreservacaoPct,
+      mesesAteAlvo,
+      inflM,
+    ]
+  );
+  const planParams = useMemo(
+    () => ({ ...engineParams, glidePath }),
+    [engineParams, glidePath]
+  );
 
-  const aporteNecessario = useMemo(() => {
+  // A previdência e o INSS dependem da idade-alvo (prazo dos aportes e da
+  // renda) e chegam lá por conta própria: a carteira só cobre o resto da meta
+  const previdencia = useMemo(
+    () =>
+      pensionProjectionFromInputs(
+        {
+          rendaMensal,
+          usarPrevidencia,
+          tipoPrevidencia,
+          tabelaPrevidencia,
+          aportePrevidencia,
+          saldoPrevidencia,
+          rendimentoPrevidenciaPct,
+          taxaAdmPrevidenciaPct,
+          expectativaVida,
+          beneficioInss,
+        },
+        { months: mesesAteAlvo, targetAge: idadeAlvo },
+        { grossMonthlyRate, inflationMonthlyRate: inflM }
+      ),
+    [
+      rendaMensal,
+      usarPrevidencia,
+      tipoPrevidencia,
+      tabelaPrevidencia,
+      aportePrevidencia,
+      saldoPrevidencia,
+      rendimentoPrevidenciaPct,
+      taxaAdmPrevidenciaPct,
+      expectativaVida,
+      beneficioInss,
+      mesesAteAlvo,
+      idadeAlvo,
+      grossMonthlyRate,
+      inflM,
+    ]
+  );
+  const previdenciaNaMeta = previdencia
+    ? previdencia[previdencia.length - 1]
+    : null;
+  const inssNaMeta = useMemo(
+    () =>
+      inssValueFromInputs(
+        {
+          beneficioInss,
+          idadeInss,
+          expectativaVida,
+          rendimentoRealFirePct,
+          usarMetaFire,
+          idadeIndependencia,
+        },
+        idadeAlvo
+      ),
+    [
+      beneficioInss,
+      idadeInss,
+      expectativaVida,
+      rendimentoRealFirePct,
+      usarMetaFire,
+      idadeIndependencia,
+      idadeAlvo,
+    ]
+  );
+  const targetToday = Math.max(
+    0,
+    metaTotal - (previdenciaNaMeta?.netBalanceReal ?? 0) - inssNaMeta
+  );
+  const restituicaoPgbl =
+    usarPrevidencia && tipoPrevidencia === "pgbl"
+      ? pgblTaxRefund(parseNumberBR(aportePrevidencia), rendaMensalNum)
+      : null;
+
+  const metaNominalEquivalente = useMemo(() => {
     if (mesesAteAlvo == null) return null;
-    return solveRequiredPmt({
+    return targetToday * inflationFactorAt(mesesAteAlvo, inflM, ratePath);
+  }, [mesesAteAlvo, inflM, ratePath, targetToday]);
+
+  const safetyMarginBp =
+    margemSeguranca === "haircut" ? Math.max(0, parseNumberBR(margemBp)) : 0;
+  // A probabilidade mínima só faz sentido com as trajetórias do Monte Carlo
+  const usarProbabilidadeMinima =
+    margemSeguranca === "probability" && projectionMode === "monteCarlo";
+
+  // Mesmas hipóteses para a simulação e para o aporte por probabilidade
+  const monteCarloParams = useMemo(() => {
+    if (projectionMode !== "monteCarlo" || mesesAteAlvo == null) return null;
+    return {
       pvToday,
-      targetToday,
       months: mesesAteAlvo,
       ageNow,
-      realMonthlyRate: rReal,
-      inflationMonthlyRate: inflM,
       indexation,
       timing,
-    });
+      taxRegime: taxRegimeUsado,
+      startCalendarMonth,
+      schedule,
+      contributors,
+      reserve,
+      events: planEvents,
+      fees,
+      glidePath,
+      targetToday,
+      meanGrossMonthlyRate: grossMonthlyRate,
+      grossMonthlyVolatility:
+        Math.max(0, parseNumberBR(volRetornoMensalPct)) / 100,
+      meanInflationMonthlyRate: inflM,
+      inflationMonthlyVolatility:
+        Math.max(0, parseNumberBR(volInflacaoMensalPct)) / 100,
+      paths: clamp(parseNumberBR(simulacoesMC), 100, 5000),
+      seed: parseNumberBR(seedMC),
+    };
   }, [
+    projectionMode,
     mesesAteAlvo,
     pvToday,
-    targetToday,
     ageNow,
-    rReal,
-    inflM,
     indexation,
     timing,
+    taxRegimeUsado,
+    startCalendarMonth,
+    schedule,
+    contributors,
+    reserve,
+    planEvents,
+    fees,
+    glidePath,
+    targetToday,
+    grossMonthlyRate,
+    volRetornoMensalPct,
+    inflM,
+    volInflacaoMensalPct,
+    simulacoesMC,
+    seedMC,
   ]);
 
-  const meuAporteNum = useMemo(
-    () => Math.max(0, parseNumberBR(meuAporte)),
-    [meuAporte]
+  // Aporte que chega exatamente na meta (sem margem)
+  const aporteSemMargemArgs =
+    useMemo((): EngineArgs<"solveRequiredPmt"> | null => {
+      if (mesesAteAlvo == null) return null;
+      return [
+        {
+          ...planParams,
+          pvToday,
+          targetToday,
+          months: mesesAteAlvo,
+          ageNow,
+        },
+      ];
+    }, [mesesAteAlvo, pvToday, targetToday, ageNow, planParams]);
+  const aporteSemMargemCalc = useEngine(
+    "solveRequiredPmt",
+    aporteSemMargemArgs
   );
-
-  const mesesComMeuAporte = useMemo(() => {
-    return monthsToTarget({
+  const aporteSemMargem = aporteSemMargemCalc.value;
+
+  const aporteComMargemArgs =
+    useMemo((): EngineArgs<"solveRequiredPmt"> | null => {
+      if (
+        mesesAteAlvo == null ||
+        usarProbabilidadeMinima ||
+        safetyMarginBp <= 0
+      )
+        return null;
+      return [
+        {
+          ...planParams,
+          pvToday,
+          targetToday,
+          months: mesesAteAlvo,
+          ageNow,
+          safetyMarginBp,
+        },
+      ];
+    }, [
+      mesesAteAlvo,
+      usarProbabilidadeMinima,
+      safetyMarginBp,
       pvToday,
-      pmt0: meuAporteNum,
       targetToday,
       ageNow,
-      realMonthlyRate: rReal,
-      inflationMonthlyRate: inflM,
-      indexation,
-      timing,
-    });
-  }, [
-    pvToday,
-    meuAporteNum,
-    targetToday,
-    ageNow,
-    rReal,
-    inflM,
-    indexation,
-    timing,
-  ]);
+      planParams,
+    ]);
+  const aporteComMargemCalc = useEngine(
+    "solveRequiredPmt",
+    aporteComMargemArgs
+  );
+
+  const aportePorProbabilidadeArgs =
+    useMemo((): EngineArgs<"solveRequiredPmtForProbability"> | null => {
+      if (!usarProbabilidadeMinima || !monteCarloParams) return null;
+      return [
+        {
+          ...monteCarloParams,
+          requiredProbability:
+            clamp(parseNumberBR(probabilidadeMinimaPct), 1, 99) / 100,
+        },
+      ];
+    }, [usarProbabilidadeMinima, monteCarloParams, probabilidadeMinimaPct]);
+  const aportePorProbabilidadeCalc = useEngine(
+    "solveRequiredPmtForProbability",
+    aportePorProbabilidadeArgs
+  );
+
+  const aporteCalc = usarProbabilidadeMinima
+    ? aportePorProbabilidadeCalc
+    : safetyMarginBp > 0
+      ? aporteComMargemCalc
+      : aporteSemMargemCalc;
+  const aporteNecessario = mesesAteAlvo == null ? null : aporteCalc.value;
+
+  // No modo casal, "meu aporte" é a soma do que os dois aportam
+  const meuAporteNum = useMemo(
+    () =>
+      casal ? casal.monthlyContribution : Math.max(0, parseNumberBR(meuAporte)),
+    [casal, meuAporte]
+  );
+
+  const mesesComMeuAporteArgs = useMemo(
+    (): EngineArgs<"monthsToTarget"> => [
+      {
+        ...planParams,
+        pvToday,
+        pmt0: meuAporteNum,
+        targetToday,
+        ageNow,
+      },
+    ],
+    [pvToday, meuAporteNum, targetToday, ageNow, planParams]
+  );
+  const mesesComMeuAporteCalc = useEngine(
+    "monthsToTarget",
+    mesesComMeuAporteArgs
+  );
+  const mesesComMeuAporte = mesesComMeuAporteCalc.value;
 
   const idadeComMeuAporte = useMemo(() => {
     if (mesesComMeuAporte == null) return null;
     return ageNow + mesesComMeuAporte / 12;
   }, [ageNow, mesesComMeuAporte]);
 
+  // Modo casal: as mesmas datas pela idade do(a) parceiro(a)
+  const idadeParceiroNaMeta =
+    casal && idadeAlvo != null ? idadeAlvo + casal.partnerAgeOffset : null;
+  const idadeParceiroComMeuAporte =
+    casal && idadeComMeuAporte != null
+      ? idadeComMeuAporte + casal.partnerAgeOffset
+      : null;
+
+  // Caminho inverso: com o meu aporte e a idade-alvo fixos, que rentabilidade
+  // (ou carteira inicial) seria necessária?
+  const inversoArgs = useMemo(() => {
+    if (mesesAteAlvo == null) return null;
+    return {
+      ...planParams,
+      pmt0: meuAporteNum,
+      months: mesesAteAlvo,
+      targetToday,
+      ageNow,
+    };
+  }, [mesesAteAlvo, meuAporteNum, targetToday, ageNow, planParams]);
+
+  const taxaNecessariaArgs = useMemo(
+    (): EngineArgs<"solveRequiredRate"> | null =>
+      inversoArgs && [{ ...inversoArgs, pvToday }],
+    [inversoArgs, pvToday]
+  );
+  const taxaNecessariaCalc = useEngine("solveRequiredRate", taxaNecessariaArgs);
+  const taxaNecessaria = taxaNecessariaCalc.value;
+
+  const carteiraNecessariaArgs = useMemo(
+    (): EngineArgs<"solveRequiredPv"> | null => inversoArgs && [inversoArgs],
+    [inversoArgs]
+  );
+  const carteiraNecessariaCalc = useEngine(
+    "solveRequiredPv",
+    carteiraNecessariaArgs
+  );
+  const carteiraNecessaria = carteiraNecessariaCalc.value;
+
+  const otimistaPct =
+    SCENARIOS.find((s) => s.key === "otimista")?.grossMonthlyPct ?? 0.8;
+  const taxaAcimaDoOtimista =
+    taxaNecessaria != null &&
+    taxaNecessaria.grossMonthlyRate * 100 > otimistaPct;
+
   const projection = useMemo(() => {
     if (mesesAteAlvo == null) return null;
     const pmtToUse = aporteNecessario ?? 0;
     return simulateProjection({
+      ...planParams,
       pvToday,
       pmt0: pmtToUse,
       months: mesesAteAlvo,
       ageNow,
-      realMonthlyRate: rReal,
-      inflationMonthlyRate: inflM,
-      indexation,
-      timing,
     });
+  }, [mesesAteAlvo, aporteNecessario, pvToday, ageNow, planParams]);
+
+  const finalPoint = projection?.[projection.length - 1] ?? null;
+
+  // Mesmo plano (e mesmo aporte) sem nenhuma taxa, para comparar
+  const projecaoSemTaxas = useMemo(() => {
+    if (!projection || !fees) return null;
+    return simulateProjection({
+      ...planParams,
+      fees: undefined,
+      pvToday,
+      pmt0: aporteNecessario ?? 0,
+      months: projection.length - 1,
+      ageNow,
+    });
+  }, [projection, fees, planParams, pvToday, aporteNecessario, ageNow]);
+  const finalSemTaxas = projecaoSemTaxas?.[projecaoSemTaxas.length - 1] ?? null;
+
+  const monteCarloArgs =
+    useMemo((): EngineArgs<"simulateMonteCarlo"> | null => {
+      if (!monteCarloParams) return null;
+      return [{ ...monteCarloParams, pmt0: aporteNecessario ?? 0 }];
+    }, [monteCarloParams, aporteNecessario]);
+  const monteCarloCalc = useEngine("simulateMonteCarlo", monteCarloArgs);
+  const monteCarlo = monteCarloCalc.value;
+
+  const historicalSeries = useMemo(() => loadHistoricalSeries(), []);
+
+  // O histórico é curto para planos longos: limitamos o horizonte para ter
+  // pelo menos BACKTEST_MIN_WINDOWS meses de início diferentes.
+  const horizonteBacktest = useMemo(() => {
+    if (!historicalSeries || mesesAteAlvo == null) return null;
+    return Math.min(
+      mesesAteAlvo,
+      historicalSeries.months.length - BACKTEST_MIN_WINDOWS + 1
+    );
+  }, [mesesAteAlvo, historicalSeries]);
+  // Com o horizonte cortado, a meta do backtest é o saldo que o plano prevê
+  // para o último mês dele, não a meta da idade-alvo
+  const metaBacktest =
+    horizonteBacktest != null &&
+    mesesAteAlvo != null &&
+    horizonteBacktest < mesesAteAlvo
+      ? (projection?.[horizonteBacktest]?.netBalanceReal ?? null)
+      : targetToday;
+
+  const backtestArgs = useMemo((): EngineArgs<"runBacktest"> | null => {
+    if (
+      projectionMode !== "backtest" ||
+      !historicalSeries ||
+      horizonteBacktest == null ||
+      metaBacktest == null
+    )
+      return null;
+    return [
+      {
+        pvToday,
+        pmt0: aporteNecessario ?? 0,
+        months: horizonteBacktest,
+        ageNow,
+        indexation,
+        timing,
+        taxRegime: taxRegimeUsado,
+        schedule,
+        contributors,
+        reserve,
+        events: planEvents,
+        fees,
+        targetToday: metaBacktest,
+        series: historicalSeries,
+        equityShare: clamp(parseNumberBR(pctIbovBacktest), 0, 100) / 100,
+      },
+    ];
   }, [
-    mesesAteAlvo,
-    aporteNecessario,
+    projectionMode,
+    horizonteBacktest,
     pvToday,
+    aporteNecessario,
     ageNow,
-    rReal,
-    inflM,
     indexation,
     timing,
+    taxRegimeUsado,
+    schedule,
+    contributors,
+    reserve,
+    planEvents,
+    fees,
+    metaBacktest,
+    historicalSeries,
+    pctIbovBacktest,
   ]);
+  const backtestCalc = useEngine("runBacktest", backtestArgs);
+  const backtest = backtestCalc.value;
+
+  const chartOverlays = useMemo(() => {
+    if (!backtest) return null;
+    return backtest.cohorts.map((c) =>
+      c.points.map((p) =>
+        displayMode === "real" ? p.netBalanceReal : p.netBalanceNominal
+      )
+    );
+  }, [backtest, displayMode]);
+
+  // Na aposentadoria usamos a taxa real líquida de longo prazo (IR de 15% ou
+  // isento), ponderada pelas classes quando há carteira.
+  const rRealAposentadoria = useMemo(() => {
+    if (!usarCarteira || pesoTotalCarteira <= 0) return rReal;
+    return (
+      carteiraClasses.reduce(
+        (sum, c) =>
+          sum +
+          Math.max(0, parseNumberBR(c.pesoPct)) *
+            realMonthlyRateFromGross({
+              grossMonthlyRate: parseNumberBR(c.rendimentoMensalPct) / 100,
+              taxOnGainsRate: longTermTaxRate(c.taxRegime),
+              inflationMonthlyRate: inflM,
+            }),
+        0
+      ) / pesoTotalCarteira
+    );
+  }, [usarCarteira, pesoTotalCarteira, rReal, carteiraClasses, inflM]);
+
+  const idadeFimRetiradas = Math.max(0, parseNumberBR(expectativaVida));
+
+  const decumulation = useMemo(() => {
+    if (!simularRetiradas || !finalPoint || idadeFimRetiradas <= finalPoint.age)
+      return null;
+    const startBalanceReal = Math.max(0, finalPoint.netBalanceReal);
+    const months = Math.round((idadeFimRetiradas - finalPoint.age) * 12);
+    const sustainable = sustainableWithdrawal({
+      startBalanceReal,
+      months,
+      realMonthlyRate: rRealAposentadoria,
+    });
+    const result = simulateDecumulation({
+      startBalanceReal,
+      startMonth: finalPoint.month,
+      startInflFactor: finalPoint.inflFactor,
+      ageStart: finalPoint.age,
+      ageEnd: idadeFimRetiradas,
+      realMonthlyRate: rRealAposentadoria,
+      inflationMonthlyRate: inflM,
+      rule: regraRetirada,
+      monthlyWithdrawalReal: Math.max(0, parseNumberBR(retiradaMensal)),
+      annualWithdrawalRate: Math.max(0, parseNumberBR(taxaRetiradaPct)) / 100,
+    });
+    return {
+      ...result,
+      sustainableMonthlyReal: sustainable,
+      safeWithdrawalRate:
+        startBalanceReal > 0 ? (sustainable * 12) / startBalanceReal : null,
+    };
+  }, [
+    simularRetiradas,
+    finalPoint,
+    idadeFimRetiradas,
+    rRealAposentadoria,
+    inflM,
+    regraRetirada,
+    retiradaMensal,
+    taxaRetiradaPct,
+  ]);
+
+  // Acumulação seguida das retiradas (o 1º ponto das retiradas é o último da
+  // acumulação)
+  const chartData = useMemo(() => {
+    if (!projection) return null;
+    if (!decumulation) return projection;
+    return [...projection, ...decumulation.points.slice(1)];
+  }, [projection, decumulation]);
+
+  const chartMarkers = useMemo(() => {
+    if (!projection) return null;
+    return projection.flatMap((p, index) => {
+      if (p.eventReal == null) return [];
+      const label = planEvents
+        .filter((e) => e.month === p.month)
+        .map((e) => e.label)
+        .join(" + ");
+      return [{ index, label }];
+    });
+  }, [projection, planEvents]);
+
+  const chartStacks = useMemo(() => {
+    if (!projection || !usarCarteira) return null;
+    return carteiraClasses.map((c, i) => ({
+      label: ASSET_CLASSES[c.key].label,
+      color: ASSET_CLASSES[c.key].color,
+      values: projection.map((p) => {
+        const real = p.classBalancesReal?.[i] ?? 0;
+        return displayMode === "real" ? real : real * p.inflFactor;
+      }),
+    }));
+  }, [projection, usarCarteira, carteiraClasses, displayMode]);
+
+  const chartBands = useMemo(() => {
+    if (!monteCarlo) return null;
+    const real = displayMode === "real";
+    return {
+      low: monteCarlo.bands.map((b) => (real ? b.p10Real : b.p10Nominal)),
+      mid: monteCarlo.bands.map((b) => (real ? b.p50Real : b.p50Nominal)),
+      high: monteCarlo.bands.map((b) => (real ? b.p90Real : b.p90Nominal)),
+    };
+  }, [monteCarlo, displayMode]);
 
   const chartValues = useMemo(() => {
     if (!projection) return [];
@@ -562,68 +2614,380 @@ export default function App() {
     );
   }, [projection, displayMode]);
 
-  const scenarioCompare = useMemo(() => {
-    if (mesesAteAlvo == null) return [];
-    return SCENARIOS.map((s) => {
-      const rScenario = realMonthlyRateFromGross({
-        grossMonthlyRate: s.grossMonthlyPct / 100,
-        taxOnGainsRate: taxRate,
-        inflationMonthlyRate: inflM,
+  const chartReference = useMemo(() => {
+    if (!projecaoSemTaxas) return null;
+    return {
+      label: "Sem taxas",
+      values: projecaoSemTaxas.map((p) =>
+        displayMode === "real" ? p.balanceReal : p.balanceNominal
+      ),
+    };
+  }, [projecaoSemTaxas, displayMode]);
+
+  const chartBuckets = useMemo(() => {
+    if (!projection) return null;
+    const buckets = [];
+    if (reserve) {
+      buckets.push({
+        label: "Reserva de emergência",
+        color: "rgba(56, 189, 248, 0.85)",
+        values: projection.map((p) =>
+          displayMode === "real"
+            ? (p.reserveReal ?? 0)
+            : (p.reserveNominal ?? 0)
+        ),
       });
+    }
+    if (previdencia) {
+      buckets.push({
+        label: "Previdência (líquida)",
+        color: "rgba(167, 139, 250, 0.9)",
+        values: projection.map((p, i) => {
+          const net = previdencia[i]?.netBalanceReal ?? 0;
+          return displayMode === "real" ? net : net * p.inflFactor;
+        }),
+      });
+    }
+    return buckets;
+  }, [projection, reserve, previdencia, displayMode]);
+
+  // Mês em que a reserva fica completa (a partir dele o aporte vai todo para a
+  // meta)
+  const mesReservaCompleta = useMemo(() => {
+    if (!projection || !reserve) return null;
+    const idx = projection.findIndex(
+      (p) => (p.reserveReal ?? 0) >= reserve.targetReal - 0.01
+    );
+    return idx < 0 ? null : projection[idx].month;
+  }, [projection, reserve]);
+
+  // Mesmo plano com a rentabilidade de cada cenário
+  const scenarioCompareArgs =
+    useMemo((): EngineArgs<"solveRequiredPmtEach"> | null => {
+      if (mesesAteAlvo == null) return null;
+      return [
+        SCENARIOS.map((s) => ({
+          pvToday,
+          targetToday,
+          months: mesesAteAlvo,
+          ageNow,
+          realMonthlyRate: realMonthlyRateFromGross({
+            grossMonthlyRate: s.grossMonthlyPct / 100,
+            taxOnGainsRate: 0,
+            inflationMonthlyRate: inflM,
+          }),
+          inflationMonthlyRate: inflM,
+          indexation,
+          timing,
+          taxRegime: taxRegimeUsado,
+          startCalendarMonth,
+          schedule,
+          contributors,
+          reserve,
+          events: planEvents,
+          fees,
+          glidePath,
+          safetyMarginBp,
+        })),
+      ];
+    }, [
+      mesesAteAlvo,
+      inflM,
+      pvToday,
+      targetToday,
+      ageNow,
+      indexation,
+      timing,
+      taxRegimeUsado,
+      startCalendarMonth,
+      schedule,
+      contributors,
+      reserve,
+      planEvents,
+      fees,
+      glidePath,
+      safetyMarginBp,
+    ]);
+  const scenarioCompareCalc = useEngine(
+    "solveRequiredPmtEach",
+    scenarioCompareArgs
+  );
 
-      const pmtNeed = solveRequiredPmt({
-        pvToday,
-        targetToday,
-        months: mesesAteAlvo,
+  const scenarioCompare = useMemo(() => {
+    if (mesesAteAlvo == null) return [];
+    return SCENARIOS.map((s, i) => ({
+      key: s.key,
+      label: s.label,
+      grossMonthlyPct: s.grossMonthlyPct,
+      realMonthlyPct:
+        realMonthlyRateFromGross({
+          grossMonthlyRate: s.grossMonthlyPct / 100,
+          taxOnGainsRate: taxRate,
+          inflationMonthlyRate: inflM,
+        }) * 100,
+      pmtNeed: scenarioCompareCalc.value?.[i] ?? null,
+    }));
+  }, [mesesAteAlvo, taxRate, inflM, scenarioCompareCalc.value]);
+
+  const metasArgs = useMemo((): EngineArgs<"planGoals"> | null => {
+    const goals = goalsFromInputs(metas, ageNow, {
+      grossMonthlyRate,
+      inflationMonthlyRate: inflM,
+    });
+    if (goals.length === 0) return null;
+    return [
+      {
+        goals,
+        budget: Math.max(0, parseNumberBR(orcamentoMetas)),
+        allocation: alocacaoMetas,
         ageNow,
-        realMonthlyRate: rScenario,
         inflationMonthlyRate: inflM,
         indexation,
         timing,
-      });
-
-      return {
-        key: s.key,
-        label: s.label,
-        grossMonthlyPct: s.grossMonthlyPct,
-        realMonthlyPct: rScenario * 100,
-        pmtNeed,
-      };
-    });
+        taxRegime: taxRegimeUsado,
+        startCalendarMonth,
+        fees,
+      },
+    ];
   }, [
-    mesesAteAlvo,
-    taxRate,
-    inflM,
-    pvToday,
-    targetToday,
+    metas,
     ageNow,
+    grossMonthlyRate,
+    inflM,
+    orcamentoMetas,
+    alocacaoMetas,
     indexation,
     timing,
+    taxRegimeUsado,
+    startCalendarMonth,
+    fees,
   ]);
+  const metasCalc = useEngine("planGoals", metasArgs);
+  const metasResultado = metasArgs ? metasCalc.value : null;
+
+  // Presets marcados na lista, na ordem em que aparecem
+  const presetsComparados = useMemo(
+    () => presets.filter((p) => presetsSelecionados.includes(p.name)),
+    [presets, presetsSelecionados]
+  );
+
+  const comparacaoArgs = useMemo((): EngineArgs<"evaluatePlans"> | null => {
+    if (presetsComparados.length < 2 || presetsComparados.length > COMPARE_MAX)
+      return null;
+    return [presetsComparados.map((p) => p.data), startCalendarMonth];
+  }, [presetsComparados, startCalendarMonth]);
+  const comparacaoCalc = useEngine("evaluatePlans", comparacaoArgs);
+
+  // Enquanto recalcula, fica o resultado anterior (se ainda bater com a
+  // quantidade de presets marcados)
+  const comparacao = useMemo(() => {
+    const results = comparacaoCalc.value;
+    if (!comparacaoArgs || !results) return null;
+    if (results.length !== presetsComparados.length) return null;
+    return presetsComparados.map((p, i) => {
+      const result = results[i];
+      const finalPt = result.projection?.[result.projection.length - 1];
+      return {
+        name: p.name,
+        color: COMPARE_COLORS[i],
+        result,
+        finalPoint: finalPt ?? null,
+      };
+    });
+  }, [comparacaoArgs, comparacaoCalc.value, presetsComparados]);
+
+  const camposDiferentes = useMemo(
+    () =>
+      comparacao
+        ? diffPresetPayloads(presetsComparados.map((p) => p.data))
+        : [],
+    [comparacao, presetsComparados]
+  );
+
+  const colunasDiff = `1.2fr repeat(${comparacao?.length ?? 1}, 1fr)`;
+
+  // Curvas líquidas de cada plano; o eixo x vai até o horizonte mais longo
+  const comparacaoChart = useMemo(() => {
+    if (!comparacao) return null;
+    let data: SimulationPoint[] = [];
+    const series = [];
+    for (const c of comparacao) {
+      const proj = c.result.projection;
+      if (!proj) continue;
+      if (proj.length > data.length) data = proj;
+      series.push({
+        label: c.name,
+        color: c.color,
+        values: proj.map((pt) =>
+          displayMode === "real" ? pt.netBalanceReal : pt.netBalanceNominal
+        ),
+      });
+    }
+    return series.length > 0 ? { data, series } : null;
+  }, [comparacao, displayMode]);
+
+  // Plano atual como ativo único, base da análise de sensibilidade
+  const sensitivityPlan = useMemo<SensitivityPlan>(
+    () => ({
+      pvToday,
+      pmt0: meuAporteNum,
+      ageNow,
+      indexation,
+      timing,
+      taxRegime: taxRegimeUsado,
+      startCalendarMonth,
+      schedule,
+      contributors,
+      reserve,
+      events: planEvents,
+      fees,
+      grossMonthlyRate,
+      inflationAnnualRate: inflAnnual,
+      targetAge: idadeAlvo ?? ageNow,
+      targetToday,
+      safetyMarginBp,
+    }),
+    [
+      pvToday,
+      meuAporteNum,
+      ageNow,
+      indexation,
+      timing,
+      taxRegimeUsado,
+      startCalendarMonth,
+      schedule,
+      contributors,
+      reserve,
+      planEvents,
+      fees,
+      grossMonthlyRate,
+      inflAnnual,
+      idadeAlvo,
+      targetToday,
+      safetyMarginBp,
+    ]
+  );
+
+  // Cada célula resolve o plano inteiro: calcula só quando pedido (um novo
+  // pedido cancela o anterior)
+  const calcularSensibilidade = async () => {
+    sensCalculo.current?.abort();
+    const controller = new AbortController();
+    sensCalculo.current = controller;
+
+    const plan = sensitivityPlan;
+    const metric = sensMetrica;
+    const x = sensitivityAxis(plan, sensEixoX, sensVariacao[sensEixoX]);
+    const y = sensitivityAxis(plan, sensEixoY, sensVariacao[sensEixoY]);
+    const variables = Object.keys(
+      SENSITIVITY_VARIABLES
+    ) as SensitivityVariable[];
+    const tornadoAxes = variables.map((v) =>
+      sensitivityAxis(plan, v, sensVariacao[v], 2)
+    );
+
+    setSensCalculando(true);
+    try {
+      const analysis = await engine.run(
+        "analyzeSensitivity",
+        [plan, metric, x, y, tornadoAxes],
+        controller.signal
+      );
+      setSensibilidade({ plan, metric, x, y, ...analysis });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Sensitivity error", e);
+    }
+    if (sensCalculo.current === controller) {
+      sensCalculo.current = null;
+      setSensCalculando(false);
+    }
+  };
+
+  const trocarEixoSensibilidade = (
+    eixo: "x" | "y",
+    variable: SensitivityVariable
+  ) => {
+    // Os dois eixos nunca são a mesma entrada: troca de lugar
+    if (eixo === "x") {
+      if (variable === sensEixoY) setSensEixoY(sensEixoX);
+      setSensEixoX(variable);
+    } else {
+      if (variable === sensEixoX) setSensEixoX(sensEixoY);
+      setSensEixoY(variable);
+    }
+  };
+
+  // Escala de cores do mapa e das barras: do menor ao maior resultado
+  const sensEscala = useMemo(() => {
+    if (!sensibilidade) return null;
+    const values = [
+      ...sensibilidade.grid.flat(),
+      ...sensibilidade.tornado.flatMap((t) => [t.low, t.high]),
+      sensibilidade.base,
+    ].filter((v): v is number => v != null);
+    if (values.length === 0) return null;
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return { min, span: max > min ? max - min : 1 };
+  }, [sensibilidade]);
+
+  // 0 = menor resultado (verde), 1 = maior (vermelho); sem meta fica em 1
+  const sensPosicao = (value: number | null) =>
+    value == null || !sensEscala
+      ? 1
+      : (value - sensEscala.min) / sensEscala.span;
+
+  const sensDesatualizada =
+    sensibilidade != null &&
+    (sensibilidade.plan !== sensitivityPlan ||
+      sensibilidade.metric !== sensMetrica ||
+      sensibilidade.x.variable !== sensEixoX ||
+      sensibilidade.y.variable !== sensEixoY);
+
+  // O gráfico depende do aporte e, nos modos Monte Carlo/histórico, das
+  // trajetórias
+  const graficoPendente =
+    aporteCalc.pending || monteCarloCalc.pending || backtestCalc.pending;
+  const calculando =
+    graficoPendente ||
+    modeloMesesCalc.pending ||
+    mesesComMeuAporteCalc.pending ||
+    aporteSemMargemCalc.pending ||
+    taxaNecessariaCalc.pending ||
+    carteiraNecessariaCalc.pending ||
+    scenarioCompareCalc.pending ||
+    comparacaoCalc.pending;
 
   const faltaHoje = Math.max(0, targetToday - pvToday);
 
   const scenarioLabel = useMemo(() => {
     if (scenarioKey === "personalizado") return "Personalizado";
+    if (scenarioKey === "produto") return produto.label;
     return SCENARIOS.find((s) => s.key === scenarioKey)?.label ?? "Base";
-  }, [scenarioKey]);
+  }, [scenarioKey, produto]);
 
   const summaryText = useMemo(() => {
     const aporteText =
       aporteNecessario == null ? "—" : `${brl2.format(aporteNecessario)} / mês`;
     const idadeText = idadeAlvo == null ? "—" : `${idadeAlvo.toFixed(1)} anos`;
+    const parceiroText =
+      idadeParceiroNaMeta == null
+        ? ""
+        : ` (parceiro(a): ${idadeParceiroNaMeta.toFixed(1)} anos)`;
     return [
       `Aporte sugerido: ${aporteText}`,
-      `Chega em: idade ${idadeText}`,
+      `Chega em: idade ${idadeText}${parceiroText}`,
       `Cenário: ${scenarioLabel} | Inflação: ${inflacaoAnualPct.toFixed(
         1
-      )}% | Imposto: ${impostoEfetivoPct.toFixed(1)}%`,
+      )}% | IR: ${TAX_REGIMES[taxRegimeUsado].label}`,
     ].join("\n");
   }, [
     aporteNecessario,
     inflacaoAnualPct,
-    impostoEfetivoPct,
+    taxRegimeUsado,
     idadeAlvo,
+    idadeParceiroNaMeta,
     scenarioLabel,
   ]);
 
@@ -643,9 +3007,13 @@ export default function App() {
   const metaHitIndex = useMemo(() => {
     if (!projection || displayTargetValue == null) return null;
     if (displayMode === "real") {
-      return projection.findIndex((p) => p.balanceReal >= displayTargetValue);
+      return projection.findIndex(
+        (p) => p.netBalanceReal >= displayTargetValue
+      );
     }
-    return projection.findIndex((p) => p.balanceNominal >= displayTargetValue);
+    return projection.findIndex(
+      (p) => p.netBalanceNominal >= displayTargetValue
+    );
   }, [projection, displayTargetValue, displayMode]);
 
   const milestones = useMemo(() => {
@@ -653,7 +3021,7 @@ export default function App() {
     const thresholds = [100_000, 300_000, 500_000, 1_000_000];
     return thresholds
       .map((value) => {
-        const hit = projection.find((p) => p.balanceReal >= value);
+        const hit = projection.find((p) => p.netBalanceReal >= value);
         if (!hit) return null;
         return {
           value,
@@ -675,9 +3043,23 @@ export default function App() {
       "balanceNominal",
       "contributionReal",
       "contributionNominal",
+      "taxDeferredReal",
+      "taxDeferredNominal",
+      "taxPaidReal",
+      "taxPaidNominal",
+      "feesPaidReal",
+      "feesPaidNominal",
+      "netBalanceReal",
+      "netBalanceNominal",
+      "eventReal",
+      ...(reserve ? ["reserveReal", "reserveNominal"] : []),
+      ...(previdencia ? ["pensionBalanceReal", "pensionNetReal"] : []),
+      ...(usarCarteira
+        ? carteiraClasses.map((c) => `balanceReal_${c.key}`)
+        : []),
     ].join(",");
 
-    const rows = projection.map((p) =>
+    const rows = projection.map((p, i) =>
       [
         p.month,
         p.age.toFixed(4),
@@ -686,6 +3068,28 @@ export default function App() {
         p.balanceNominal.toFixed(2),
         p.contributionReal.toFixed(2),
         p.contributionNominal.toFixed(2),
+        p.taxDeferredReal.toFixed(2),
+        p.taxDeferredNominal.toFixed(2),
+        p.taxPaidReal.toFixed(2),
+        p.taxPaidNominal.toFixed(2),
+        p.feesPaidReal.toFixed(2),
+        p.feesPaidNominal.toFixed(2),
+        p.netBalanceReal.toFixed(2),
+        p.netBalanceNominal.toFixed(2),
+        (p.eventReal ?? 0).toFixed(2),
+        ...(reserve
+          ? [
+              (p.reserveReal ?? 0).toFixed(2),
+              (p.reserveNominal ?? 0).toFixed(2),
+            ]
+          : []),
+        ...(previdencia
+          ? [
+              (previdencia[i]?.balanceReal ?? 0).toFixed(2),
+              (previdencia[i]?.netBalanceReal ?? 0).toFixed(2),
+            ]
+          : []),
+        ...(p.classBalancesReal ?? []).map((v) => v.toFixed(2)),
       ].join(",")
     );
 
@@ -708,16 +3112,25 @@ export default function App() {
           <h1>Rumo ao 1º Milhão</h1>
           <p>
             Meta em <b>R$ de hoje</b>. O cálculo usa{" "}
-            <b>rendimento real líquido</b> (desconta inflação e um imposto
-            efetivo aproximado).
+            <b>rendimento real líquido</b> (desconta inflação e o IR de cada
+            aporte conforme o produto).
           </p>
         </div>
         <div className="pill">
-          <span>Taxa real liq.</span>
+          <span>Taxa real liq. (longo prazo)</span>
           <b>{pct(rReal * 100, 3)} a.m.</b>
         </div>
       </header>
 
+      {linkNotice && (
+        <div className="hintBox warnBox linkNotice">
+          <span>{linkNotice}</span>
+          <button className="btn" onClick={() => setLinkNotice(null)}>
+            Ok
+          </button>
+        </div>
+      )}
+
       <div className="grid">
         <section className="card">
           <h2>Entradas</h2>
@@ -790,7 +3203,13 @@ export default function App() {
                 value={meta}
                 onChange={(e) => setMeta(e.target.value)}
                 inputMode="decimal"
+                disabled={usarMetaFire}
               />
+              {usarMetaFire && (
+                <small>
+                  Pelo gasto mensal: <b>{brl0.format(metaTotal)}</b>.
+                </small>
+              )}
             </label>
 
             <label>
@@ -805,38 +3224,436 @@ export default function App() {
                   </option>
                 ))}
                 <option value="personalizado">Personalizado</option>
+                <option value="produto">Produto de renda fixa</option>
               </select>
             </label>
-
+
+            {usandoProduto && (
+              <label>
+                Produto
+                <select
+                  value={produtoKey}
+                  onChange={(e) => {
+                    const key = e.target.value as FixedIncomeProductKey;
+                    setProdutoKey(key);
+                    const padrao = FIXED_INCOME_PRODUCTS[key].defaultRatePct;
+                    if (padrao != null) setProdutoTaxaPct(String(padrao));
+                  }}
+                >
+                  {Object.entries(FIXED_INCOME_PRODUCTS).map(([k, p]) => (
+                    <option key={k} value={k}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {usandoProduto && produto.rateLabel && (
+              <label>
+                {produto.rateLabel}
+                <input
+                  value={produtoTaxaPct}
+                  onChange={(e) => setProdutoTaxaPct(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
+            )}
+
+            <label>
+              Rendimento bruto mensal (%)
+              <input
+                value={
+                  scenarioKey === "personalizado"
+                    ? rendimentoMensalPctPersonalizado
+                    : String(grossMonthlyPctUsed)
+                }
+                onChange={(e) => {
+                  setScenarioKey("personalizado");
+                  setRendimentoMensalPctPersonalizado(e.target.value);
+                }}
+                inputMode="decimal"
+              />
+              <small>
+                {usandoProduto
+                  ? "Calculado pelo produto e pelas premissas de Selic, CDI e IPCA (em Macros). Editar aqui muda para “Personalizado”."
+                  : "Editar aqui muda para “Personalizado”."}
+              </small>
+            </label>
+          </div>
+
+          <h3>Meta pelo gasto (independência financeira)</h3>
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={usarMetaFire}
+              onChange={(e) => setUsarMetaFire(e.target.checked)}
+            />
+            Calcular a meta a partir do gasto mensal desejado
+          </label>
+          {usarMetaFire && (
+            <>
+              <div className="threeCols">
+                <label>
+                  Gasto mensal (R$ de hoje)
+                  <input
+                    value={gastoMensalFire}
+                    onChange={(e) => setGastoMensalFire(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+                <label>
+                  Cálculo do patrimônio
+                  <select
+                    value={metodoFire}
+                    onChange={(e) =>
+                      setMetodoFire(e.target.value as FireMethod)
+                    }
+                  >
+                    {Object.entries(FIRE_METHODS).map(([k, label]) => (
+                      <option key={k} value={k}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {metodoFire === "withdrawalRate" && (
+                  <label>
+                    Taxa de retirada (% a.a.)
+                    <input
+                      value={taxaRetiradaFirePct}
+                      onChange={(e) => setTaxaRetiradaFirePct(e.target.value)}
+                      inputMode="decimal"
+                    />
+                  </label>
+                )}
+              </div>
+              <div className="threeCols">
+                <label>
+                  Idade da independência
+                  <input
+                    value={idadeIndependencia}
+                    onChange={(e) => setIdadeIndependencia(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+              </div>
+            </>
+          )}
+          <small className="muted">
+            {metodoFire === "withdrawalRate"
+              ? "Patrimônio = gasto anual ÷ taxa de retirada (4% a.a. = 25 vezes o gasto anual)."
+              : `Patrimônio = valor presente dos gastos da idade da independência até a expectativa de vida (${expectativaVida} anos, em Depois da meta), ao retorno real na aposentadoria (em INSS e previdência privada).`}{" "}
+            A meta acompanha essas entradas; o INSS e a previdência são abatidos
+            dela depois.
+          </small>
+
+          <h3>INSS e previdência privada</h3>
+          <div className="threeCols">
+            <label>
+              INSS / outra aposentadoria (R$ de hoje / mês)
+              <input
+                value={beneficioInss}
+                onChange={(e) => setBeneficioInss(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+            <label>
+              A partir da idade
+              <input
+                value={idadeInss}
+                onChange={(e) => setIdadeInss(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
             <label>
-              Rendimento bruto mensal (%)
+              Retorno real na aposentadoria (% a.a.)
               <input
-                value={
-                  scenarioKey === "personalizado"
-                    ? rendimentoMensalPctPersonalizado
-                    : String(grossMonthlyPctUsed)
-                }
-                onChange={(e) => {
-                  setScenarioKey("personalizado");
-                  setRendimentoMensalPctPersonalizado(e.target.value);
-                }}
+                value={rendimentoRealFirePct}
+                onChange={(e) => setRendimentoRealFirePct(e.target.value)}
                 inputMode="decimal"
               />
-              <small>Editar aqui muda para “Personalizado”.</small>
             </label>
           </div>
+          {inssNaMeta > 0 && (
+            <small>
+              {usarMetaFire ? "Na idade da independência" : "Na idade-alvo"}, o
+              INSS vale <b>{brl0.format(inssNaMeta)}</b>, que abatem a meta da
+              carteira ({brl0.format(targetToday)}).
+            </small>
+          )}
+          <small className="muted">
+            O INSS conta, em qualquer modo de meta, como o patrimônio que paga a
+            mesma renda líquida do IR da idade de início até a expectativa de
+            vida, descontada ao retorno real na aposentadoria até o início das
+            retiradas: a idade da independência com a meta pelo gasto, senão a
+            idade-alvo. Ele também soma na tabela progressiva da previdência.
+          </small>
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={usarPrevidencia}
+              onChange={(e) => setUsarPrevidencia(e.target.checked)}
+            />
+            Tenho previdência privada (PGBL/VGBL)
+          </label>
+          {usarPrevidencia && (
+            <>
+              <div className="threeCols">
+                <label>
+                  Plano
+                  <select
+                    value={tipoPrevidencia}
+                    onChange={(e) =>
+                      setTipoPrevidencia(e.target.value as PensionPlanType)
+                    }
+                  >
+                    {Object.entries(PENSION_PLANS).map(([k, label]) => (
+                      <option key={k} value={k}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Tabela de IR
+                  <select
+                    value={tabelaPrevidencia}
+                    onChange={(e) =>
+                      setTabelaPrevidencia(e.target.value as PensionTaxTable)
+                    }
+                  >
+                    {Object.entries(PENSION_TAX_TABLES).map(([k, label]) => (
+                      <option key={k} value={k}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Aporte mensal (R$ de hoje)
+                  <input
+                    value={aportePrevidencia}
+                    onChange={(e) => setAportePrevidencia(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+              </div>
+              <div className="threeCols">
+                <label>
+                  Saldo atual
+                  <input
+                    value={saldoPrevidencia}
+                    onChange={(e) => setSaldoPrevidencia(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+                <label>
+                  Rendimento bruto (% a.m.)
+                  <input
+                    value={rendimentoPrevidenciaPct}
+                    onChange={(e) =>
+                      setRendimentoPrevidenciaPct(e.target.value)
+                    }
+                    inputMode="decimal"
+                    placeholder={grossMonthlyPctUsed.toFixed(2)}
+                  />
+                </label>
+                <label>
+                  Taxa de administração (% a.a.)
+                  <input
+                    value={taxaAdmPrevidenciaPct}
+                    onChange={(e) => setTaxaAdmPrevidenciaPct(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+              </div>
+              {previdenciaNaMeta && (
+                <small>
+                  Na idade-alvo: {brl0.format(previdenciaNaMeta.balanceReal)}{" "}
+                  brutos, {brl0.format(previdenciaNaMeta.taxReal)} de IR e{" "}
+                  <b>{brl0.format(previdenciaNaMeta.netBalanceReal)}</b>{" "}
+                  líquidos, que abatem a meta da carteira (
+                  {brl0.format(targetToday)}).
+                </small>
+              )}
+              {restituicaoPgbl && (
+                <small>
+                  Dedução do PGBL: {brl2.format(restituicaoPgbl.deductible)} /
+                  mês (até {PGBL_DEDUCTION_LIMIT * 100}% da renda mensal, na
+                  declaração completa), devolvendo cerca de{" "}
+                  <b>{brl2.format(restituicaoPgbl.refund)} / mês</b> de IR (
+                  {brl0.format(restituicaoPgbl.refund * 12)} por ano), que o
+                  plano reaplica na previdência junto com o aporte.
+                </small>
+              )}
+              <small className="muted">
+                O rendimento vazio usa o do plano. O saldo atual conta como
+                aplicado hoje. A renda mensal entra como renda bruta tributável
+                e a tabela do IRPF como corrigida pela inflação. A tabela
+                progressiva soma a renda da previdência (da idade-alvo até a
+                expectativa de vida) ao INSS.
+              </small>
+            </>
+          )}
+
+          <h3>Plano do casal</h3>
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={modoCasal}
+              onChange={(e) => setModoCasal(e.target.checked)}
+            />
+            Duas rendas aportando na mesma carteira
+          </label>
+          {modoCasal && (
+            <>
+              <div className="threeCols">
+                <label>
+                  Seu aporte (% da renda)
+                  <input
+                    value={aportePctRenda}
+                    onChange={(e) => setAportePctRenda(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+                <label>
+                  Você começa a aportar (mês do plano)
+                  <input
+                    value={inicioAporteMes}
+                    onChange={(e) => setInicioAporteMes(e.target.value)}
+                    inputMode="numeric"
+                  />
+                </label>
+                <label>
+                  Você para de aportar (idade)
+                  <input
+                    value={idadeFimAporte}
+                    onChange={(e) => setIdadeFimAporte(e.target.value)}
+                    inputMode="decimal"
+                    placeholder="Até a meta"
+                  />
+                </label>
+              </div>
+              <div className="threeCols">
+                <label>
+                  Idade do(a) parceiro(a)
+                  <input
+                    value={idadeParceiro}
+                    onChange={(e) => setIdadeParceiro(e.target.value)}
+                    inputMode="numeric"
+                  />
+                </label>
+                <label>
+                  Renda do(a) parceiro(a) (R$)
+                  <input
+                    value={rendaParceiro}
+                    onChange={(e) => setRendaParceiro(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+                <label>
+                  Aporte do(a) parceiro(a) (% da renda)
+                  <input
+                    value={aportePctRendaParceiro}
+                    onChange={(e) => setAportePctRendaParceiro(e.target.value)}
+                    inputMode="decimal"
+                  />
+                </label>
+              </div>
+              <div className="twoCols">
+                <label>
+                  Parceiro(a) começa a aportar (mês do plano)
+                  <input
+                    value={inicioAporteParceiroMes}
+                    onChange={(e) => setInicioAporteParceiroMes(e.target.value)}
+                    inputMode="numeric"
+                  />
+                </label>
+                <label>
+                  Parceiro(a) para de aportar (idade)
+                  <input
+                    value={idadeFimAporteParceiro}
+                    onChange={(e) => setIdadeFimAporteParceiro(e.target.value)}
+                    inputMode="decimal"
+                    placeholder="Até a meta"
+                  />
+                </label>
+              </div>
+            </>
+          )}
+          <small className="muted">
+            Os dois aportes somam mês a mês numa carteira só. O aporte sugerido
+            é o do casal, dividido na proporção do que cada um aporta hoje; o
+            benchmark usa a renda somada. Os resultados mostram a idade de cada
+            um na meta.
+          </small>
+
+          <h3>Reserva de emergência</h3>
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={usarReserva}
+              onChange={(e) => setUsarReserva(e.target.checked)}
+            />
+            Montar a reserva antes de investir para a meta
+          </label>
+          {usarReserva && (
+            <div className="twoCols">
+              <label>
+                Despesa mensal (R$)
+                <input
+                  value={despesaMensal}
+                  onChange={(e) => setDespesaMensal(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
+              <label>
+                Meses de despesa
+                <input
+                  value={mesesReserva}
+                  onChange={(e) => setMesesReserva(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
+              <label>
+                Reserva atual (R$)
+                <input
+                  value={reservaAtual}
+                  onChange={(e) => setReservaAtual(e.target.value)}
+                  inputMode="decimal"
+                />
+                <small>Fora da carteira atual.</small>
+              </label>
+              <label>
+                Rendimento bruto da reserva (% a.m.)
+                <input
+                  value={rendimentoReservaPct}
+                  onChange={(e) => setRendimentoReservaPct(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
+            </div>
+          )}
+          <small className="muted">
+            Os aportes enchem a reserva primeiro (numa aplicação líquida, como o
+            Tesouro Selic, sem IR nem taxas no modelo) e só depois vão para a
+            meta. A reserva não conta para a meta, então o tempo até ela e o
+            aporte sugerido já incluem esse atraso.
+          </small>
 
           <div className="tabsRow">
             <div>
               <h3>Metas rápidas</h3>
               <div className="chipGroup">
                 {GOAL_SHORTCUTS.map((goal) => {
-                  const isActive = Math.abs(targetToday - goal.value) < 1;
+                  const isActive = Math.abs(metaTotal - goal.value) < 1;
                   return (
                     <button
                       key={goal.value}
                       className={`chipBtn ${isActive ? "active" : ""}`}
                       onClick={() => setMeta(String(goal.value))}
+                      disabled={usarMetaFire}
                     >
                       {goal.label}
                     </button>
@@ -861,20 +3678,131 @@ export default function App() {
             <button className="btn" onClick={savePreset}>
               Salvar preset
             </button>
+            <button className="btn" onClick={copyPlanLink}>
+              Copiar link do plano
+            </button>
           </div>
           <small className="muted">
-            Salva os parâmetros atuais no navegador para carregar depois.
+            Salva os parâmetros atuais no navegador para carregar depois. O link
+            leva o plano inteiro na URL.
           </small>
 
+          {(presetReport.repaired.length > 0 ||
+            presetReport.migrated.length > 0 ||
+            presetReport.rejected.length > 0) && (
+            <div className="hintBox" style={{ marginTop: 10 }}>
+              {presetReport.migrated.map((m) => (
+                <span key={`m-${m.name}`}>
+                  <b>{m.name}</b>: atualizado do formato v{m.fromVersion}.
+                </span>
+              ))}
+              {presetReport.repaired.map((r) => (
+                <span key={`r-${r.name}`}>
+                  <b>{r.name}</b>: campos inválidos voltaram ao padrão (
+                  {r.fields.join(", ")}).
+                </span>
+              ))}
+              {presetReport.rejected.map((r, i) => (
+                <span key={`x-${i}`}>
+                  <b>{r.name ?? "Sem nome"}</b>: não abre nesta versão e fica
+                  guardado como está. {r.reason}
+                </span>
+              ))}
+              {presetsIlegiveis.length > 0 && (
+                <button
+                  className="btn"
+                  onClick={() => {
+                    setPresetsIlegiveis([]);
+                    setPresetReport(EMPTY_REPORT);
+                  }}
+                >
+                  Apagar os que não abrem
+                </button>
+              )}
+              <button
+                className="btn"
+                onClick={() => setPresetReport(EMPTY_REPORT)}
+              >
+                Ok
+              </button>
+            </div>
+          )}
+
+          <div className="presetActions" style={{ marginTop: 8 }}>
+            <button
+              className="btn"
+              onClick={exportPresets}
+              disabled={presets.length === 0}
+            >
+              {presetsSelecionados.length > 0
+                ? `Exportar selecionados (${presetsSelecionados.length})`
+                : "Exportar todos"}
+            </button>
+            <label className="btn fileBtn">
+              Importar arquivo
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) void readImportFile(file);
+                }}
+              />
+            </label>
+          </div>
+
+          {importacao && (
+            <div className="hintBox" style={{ marginTop: 10 }}>
+              <b>Prévia de {importacao.fileName}</b>
+              {importacao.preview.map((item) => (
+                <span key={item.preset.name}>
+                  {item.preset.name}: {IMPORT_STATUS[item.status]}
+                </span>
+              ))}
+              {importacao.preview.some((i) => i.status === "conflict") && (
+                <label>
+                  Nomes que já existem
+                  <select
+                    value={resolucaoConflito}
+                    onChange={(e) =>
+                      setResolucaoConflito(e.target.value as ConflictResolution)
+                    }
+                  >
+                    {Object.entries(CONFLICT_RESOLUTIONS).map(([k, label]) => (
+                      <option key={k} value={k}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <div className="presetActions">
+                <button className="btn" onClick={confirmImport}>
+                  Importar
+                </button>
+                <button className="btn" onClick={() => setImportacao(null)}>
+                  Cancelar
+                </button>
+              </div>
+            </div>
+          )}
+          {importResumo && <small className="muted">{importResumo}</small>}
+
           <div className="presetList">
             {presets.length === 0 && (
               <div className="muted">Nenhum preset salvo ainda.</div>
             )}
             {presets.map((p) => (
               <div className="presetItem" key={p.name}>
-                <div>
+                <label className="checkbox">
+                  <input
+                    type="checkbox"
+                    checked={presetsSelecionados.includes(p.name)}
+                    onChange={() => togglePresetSelecionado(p.name)}
+                  />
                   <b>{p.name}</b>
-                </div>
+                </label>
                 <div className="presetActions">
                   <button className="btn" onClick={() => loadPreset(p)}>
                     Carregar
@@ -897,7 +3825,7 @@ export default function App() {
           <div className="twoCols">
             <div className="slider">
               <div className="sliderTop">
-                <span>Inflação anual</span>
+                <span>Inflação anual (IPCA)</span>
                 <b>{pct(inflacaoAnualPct, 1)}</b>
               </div>
               <input
@@ -913,29 +3841,228 @@ export default function App() {
               </small>
             </div>
 
-            <div className="slider">
-              <div className="sliderTop">
-                <span>Imposto efetivo sobre ganhos</span>
-                <b>{pct(impostoEfetivoPct, 1)}</b>
-              </div>
+            <label>
+              Tributação do produto (IR)
+              <select
+                value={taxRegimeUsado}
+                onChange={(e) => setTaxRegime(e.target.value as TaxRegime)}
+                disabled={usandoProduto}
+              >
+                {Object.entries(TAX_REGIMES).map(([k, v]) => (
+                  <option key={k} value={k}>
+                    {v.label}
+                  </option>
+                ))}
+              </select>
+              <small>
+                {usandoProduto && "Definida pelo produto. "}
+                {TAX_REGIMES[taxRegimeUsado].hint}
+              </small>
+            </label>
+          </div>
+
+          <div className="threeCols">
+            <label>
+              Selic (% a.a.)
               <input
-                type="range"
-                min={0}
-                max={30}
-                step={0.5}
-                value={impostoEfetivoPct}
-                onChange={(e) => setImpostoEfetivoPct(Number(e.target.value))}
+                value={selicAnualPct}
+                onChange={(e) => setSelicAnualPct(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+            <label>
+              CDI (% a.a.)
+              <input
+                value={cdiAnualPct}
+                onChange={(e) => setCdiAnualPct(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+            <label>
+              TR (% a.a.)
+              <input
+                value={trAnualPct}
+                onChange={(e) => setTrAnualPct(e.target.value)}
+                inputMode="decimal"
               />
-              <small>Aproximação constante (não modela IR por prazo).</small>
+            </label>
+          </div>
+          <small className="muted">
+            Premissas dos produtos de renda fixa (o IPCA é a inflação acima).
+            Poupança: 0,5% a.m. + TR com a Selic acima de 8,5% a.a.; abaixo
+            disso, 70% da Selic + TR.
+          </small>
+
+          <h3>Curva de juros e IPCA</h3>
+          <div className="table">
+            <div className="thead">
+              <div>Anos</div>
+              <div>Rendimento bruto (% a.a.)</div>
+              <div>IPCA (% a.a.)</div>
+              <div />
+            </div>
+            {curvaTaxas.length === 0 && (
+              <div className="trow">
+                <div className="muted">
+                  Taxas constantes durante todo o plano.
+                </div>
+              </div>
+            )}
+            {curvaTaxas.map((fase, i) => (
+              <div className="trow" key={i}>
+                <input
+                  value={fase.anos}
+                  onChange={(ev) =>
+                    updateFaseCurva(i, { anos: ev.target.value })
+                  }
+                  inputMode="decimal"
+                />
+                <input
+                  value={fase.rendimentoAnualPct}
+                  placeholder={pct(
+                    (Math.pow(1 + grossMonthlyRate, 12) - 1) * 100,
+                    2
+                  )}
+                  onChange={(ev) =>
+                    updateFaseCurva(i, { rendimentoAnualPct: ev.target.value })
+                  }
+                  inputMode="decimal"
+                />
+                <input
+                  value={fase.ipcaAnualPct}
+                  placeholder={pct(inflacaoAnualPct, 1)}
+                  onChange={(ev) =>
+                    updateFaseCurva(i, { ipcaAnualPct: ev.target.value })
+                  }
+                  inputMode="decimal"
+                />
+                <button
+                  className="btn danger"
+                  onClick={() =>
+                    setCurvaTaxas((prev) => prev.filter((_, j) => j !== i))
+                  }
+                >
+                  Remover
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="presetActions" style={{ marginTop: 8 }}>
+            <button
+              className="btn"
+              onClick={() =>
+                setCurvaTaxas((prev) => [
+                  ...prev,
+                  { anos: "1", rendimentoAnualPct: "", ipcaAnualPct: "" },
+                ])
+              }
+            >
+              Adicionar fase
+            </button>
+          </div>
+          <small className="muted">
+            Fases em sequência a partir de hoje (ex.: as expectativas do Focus
+            ano a ano). Campo vazio usa o cenário ou a inflação acima, que
+            também valem depois da última fase.
+            {usarCarteira &&
+              " Com a carteira por classes, só o IPCA da curva é usado."}
+          </small>
+
+          <h3>Transição para preservação</h3>
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={usarTransicao}
+              onChange={(e) => setUsarTransicao(e.target.checked)}
+            />
+            Reduzir o risco nos últimos anos antes da idade-alvo
+          </label>
+          {usarTransicao && (
+            <div className="threeCols">
+              <label>
+                Anos de transição
+                <input
+                  value={anosTransicao}
+                  onChange={(e) => setAnosTransicao(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
+              <label>
+                Rendimento bruto final (% a.m.)
+                <input
+                  value={rendimentoPreservacaoPct}
+                  onChange={(e) => setRendimentoPreservacaoPct(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
+              <label>
+                Volatilidade final (% a.m.)
+                <input
+                  value={volPreservacaoPct}
+                  onChange={(e) => setVolPreservacaoPct(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
             </div>
+          )}
+          <small className="muted">
+            A rentabilidade (e, no Monte Carlo, a volatilidade) vai em linha
+            reta do perfil atual até o de preservação nesses anos. Vale para o
+            aporte sugerido, o tempo até a meta e o gráfico (faixa sombreada); o
+            modo histórico usa a série sem transição.
+          </small>
+
+          <h3>Custos</h3>
+          <div className="twoCols">
+            <label>
+              Taxa de administração (% a.a.)
+              <input
+                value={taxaAdmAnualPct}
+                onChange={(e) => setTaxaAdmAnualPct(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+            <label>
+              Custódia B3 (% a.a.)
+              <input
+                value={taxaCustodiaAnualPct}
+                onChange={(e) => setTaxaCustodiaAnualPct(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+            <label>
+              Taxa de performance (% do que passar do CDI)
+              <input
+                value={taxaPerformancePct}
+                onChange={(e) => setTaxaPerformancePct(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+            <label>
+              Corretagem por aporte (R$ de hoje)
+              <input
+                value={corretagemPorAporte}
+                onChange={(e) => setCorretagemPorAporte(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
           </div>
+          <small className="muted">
+            Descontadas todo mês: administração e custódia sobre o saldo,
+            performance sobre o rendimento do mês acima do CDI e corretagem de
+            cada aporte. O gráfico mostra tracejado o mesmo plano sem taxas.
+          </small>
 
           <div className="hintBox">
             <div>
               <b>Bruto a.m.:</b> {pct(grossMonthlyRate * 100, 3)}
             </div>
             <div>
-              <b>Líquido nominal a.m.:</b> {pct(netNominalMonthlyRate * 100, 3)}
+              <b>Real antes do IR a.m.:</b> {pct(rRealGross * 100, 3)}
+            </div>
+            <div>
+              <b>Líquido nominal a.m. (IR de longo prazo):</b>{" "}
+              {pct(netNominalMonthlyRate * 100, 3)}
             </div>
             <div>
               <b>Real líquido a.m.:</b> {pct(rReal * 100, 3)}
@@ -944,6 +4071,84 @@ export default function App() {
 
           <div className="divider" />
 
+          <h3>Carteira</h3>
+
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={usarCarteira}
+              onChange={(e) => setUsarCarteira(e.target.checked)}
+            />
+            Usar carteira com várias classes (em vez de um único rendimento)
+          </label>
+
+          {usarCarteira && (
+            <>
+              <div className="table" style={{ marginTop: 10 }}>
+                <div className="thead">
+                  <div>Classe</div>
+                  <div>Peso-alvo (%)</div>
+                  <div>Bruto a.m. (%)</div>
+                  <div>IR</div>
+                </div>
+                {carteiraClasses.map((c) => (
+                  <div className="trow" key={c.key}>
+                    <div>{ASSET_CLASSES[c.key].label}</div>
+                    <input
+                      value={c.pesoPct}
+                      onChange={(e) =>
+                        updateClasse(c.key, { pesoPct: e.target.value })
+                      }
+                      inputMode="decimal"
+                    />
+                    <input
+                      value={c.rendimentoMensalPct}
+                      onChange={(e) =>
+                        updateClasse(c.key, {
+                          rendimentoMensalPct: e.target.value,
+                        })
+                      }
+                      inputMode="decimal"
+                    />
+                    <select
+                      value={c.taxRegime}
+                      onChange={(e) =>
+                        updateClasse(c.key, {
+                          taxRegime: e.target.value as TaxRegime,
+                        })
+                      }
+                    >
+                      {Object.entries(TAX_REGIMES).map(([k, v]) => (
+                        <option key={k} value={k}>
+                          {v.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <small className="muted">
+                Soma dos pesos: {pesoTotalCarteira.toFixed(1)}%
+                {Math.abs(pesoTotalCarteira - 100) > 0.01 &&
+                  " (os pesos são normalizados para 100%)"}
+                . Bruto médio ponderado: {pct(brutoMedioCarteiraPct, 3)} a.m. Os
+                aportes vão para as classes abaixo do peso-alvo.
+              </small>
+
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={rebalanceamentoAnual}
+                  onChange={(e) => setRebalanceamentoAnual(e.target.checked)}
+                />
+                Rebalancear uma vez por ano (vende o excesso e paga IR sobre o
+                ganho)
+              </label>
+            </>
+          )}
+
+          <div className="divider" />
+
           <h3>Aporte</h3>
 
           <div className="twoCols">
@@ -974,17 +4179,350 @@ export default function App() {
             <label>
               Momento do aporte
               <select
-                value={timing}
+                value={timing}
+                onChange={(e) =>
+                  setTiming(e.target.value as ContributionTiming)
+                }
+              >
+                <option value="end">Fim do mês</option>
+                <option value="begin">Começo do mês</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="twoCols" style={{ marginTop: 10 }}>
+            <label>
+              Aumento real do aporte (% a.a.)
+              <input
+                value={aumentoRealAnualPct}
+                onChange={(e) => setAumentoRealAnualPct(e.target.value)}
+                inputMode="decimal"
+              />
+              <small>Aplicado a cada 12 meses de plano.</small>
+            </label>
+
+            <label className="checkbox">
+              <input
+                type="checkbox"
+                checked={aporte13}
+                onChange={(e) => setAporte13(e.target.checked)}
+              />
+              Aportar o 13º (um aporte a mais em dezembro)
+            </label>
+
+            <label>
+              PLR / bônus (em aportes mensais)
+              <input
+                value={plrMultiplo}
+                onChange={(e) => setPlrMultiplo(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+
+            <label>
+              Mês da PLR
+              <select
+                value={plrMes}
+                onChange={(e) => setPlrMes(Number(e.target.value))}
+              >
+                {MONTH_NAMES.map((name, i) => (
+                  <option key={name} value={i}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="table" style={{ marginTop: 10 }}>
+            <div className="thead">
+              <div>Evento</div>
+              <div>Mês do plano</div>
+              <div>Meses / R$</div>
+              <div />
+            </div>
+            {eventosAporte.length === 0 && (
+              <div className="trow">
+                <div className="muted">Sem pausas ou aportes extras.</div>
+              </div>
+            )}
+            {eventosAporte.map((e, i) => (
+              <div className="trow" key={i}>
+                <select
+                  value={e.kind}
+                  onChange={(ev) =>
+                    updateEventoAporte(i, {
+                      kind: ev.target.value as ContributionEventInput["kind"],
+                    })
+                  }
+                >
+                  <option value="pause">Pausa</option>
+                  <option value="extra">Aporte extra</option>
+                </select>
+                <input
+                  value={e.mes}
+                  onChange={(ev) =>
+                    updateEventoAporte(i, { mes: ev.target.value })
+                  }
+                  inputMode="numeric"
+                />
+                <input
+                  value={e.valor}
+                  onChange={(ev) =>
+                    updateEventoAporte(i, { valor: ev.target.value })
+                  }
+                  inputMode="decimal"
+                />
+                <button
+                  className="btn danger"
+                  onClick={() =>
+                    setEventosAporte((prev) => prev.filter((_, j) => j !== i))
+                  }
+                >
+                  Remover
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="presetActions" style={{ marginTop: 8 }}>
+            <button
+              className="btn"
+              onClick={() =>
+                setEventosAporte((prev) => [
+                  ...prev,
+                  { kind: "pause", mes: "12", valor: "6" },
+                ])
+              }
+            >
+              Adicionar pausa
+            </button>
+            <button
+              className="btn"
+              onClick={() =>
+                setEventosAporte((prev) => [
+                  ...prev,
+                  { kind: "extra", mes: "12", valor: "10000" },
+                ])
+              }
+            >
+              Adicionar aporte extra
+            </button>
+          </div>
+          <small className="muted">
+            Mês 0 é o mês atual. Na pausa não há aporte regular, 13º nem PLR.
+            Valores extras seguem a mesma regra de reajuste do aporte.
+          </small>
+
+          <div className="divider" />
+
+          <h3>Eventos (compras, heranças)</h3>
+
+          <div className="table eventsTable">
+            <div className="thead">
+              <div>Descrição</div>
+              <div>Idade</div>
+              <div>Valor (R$ de hoje)</div>
+              <div>Tipo</div>
+              <div />
+            </div>
+            {eventosPlano.length === 0 && (
+              <div className="trow">
+                <div className="muted">Nenhum evento cadastrado.</div>
+              </div>
+            )}
+            {eventosPlano.map((e, i) => (
+              <div className="trow" key={i}>
+                <input
+                  value={e.descricao}
+                  onChange={(ev) =>
+                    updateEventoPlano(i, { descricao: ev.target.value })
+                  }
+                  placeholder="Ex: entrada do apê"
+                />
+                <input
+                  value={e.idade}
+                  onChange={(ev) =>
+                    updateEventoPlano(i, { idade: ev.target.value })
+                  }
+                  inputMode="decimal"
+                />
+                <input
+                  value={e.valor}
+                  onChange={(ev) =>
+                    updateEventoPlano(i, { valor: ev.target.value })
+                  }
+                  inputMode="decimal"
+                />
+                <select
+                  value={e.tipo}
+                  onChange={(ev) =>
+                    updateEventoPlano(i, {
+                      tipo: ev.target.value as PlanEventInput["tipo"],
+                    })
+                  }
+                >
+                  <option value="withdrawal">Retirada</option>
+                  <option value="deposit">Entrada</option>
+                </select>
+                <button
+                  className="btn danger"
+                  onClick={() =>
+                    setEventosPlano((prev) => prev.filter((_, j) => j !== i))
+                  }
+                >
+                  Remover
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="presetActions" style={{ marginTop: 8 }}>
+            <button
+              className="btn"
+              onClick={() =>
+                setEventosPlano((prev) => [
+                  ...prev,
+                  {
+                    descricao: "",
+                    idade: String(Math.ceil(ageNow) + 5),
+                    valor: "50000",
+                    tipo: "withdrawal",
+                  },
+                ])
+              }
+            >
+              Adicionar evento
+            </button>
+          </div>
+          <small className="muted">
+            Retiradas resgatam o suficiente para sobrar o valor líquido do IR.
+            Eventos depois da idade-alvo não entram na projeção até a meta.
+          </small>
+
+          <div className="divider" />
+
+          <h3>Outras metas</h3>
+
+          <div className="twoCols">
+            <label>
+              Orçamento mensal para as metas (R$ de hoje)
+              <input
+                value={orcamentoMetas}
+                onChange={(e) => setOrcamentoMetas(e.target.value)}
+                inputMode="decimal"
+              />
+            </label>
+            <label>
+              Divisão do orçamento
+              <select
+                value={alocacaoMetas}
                 onChange={(e) =>
-                  setTiming(e.target.value as ContributionTiming)
+                  setAlocacaoMetas(e.target.value as GoalAllocation)
                 }
               >
-                <option value="end">Fim do mês</option>
-                <option value="begin">Começo do mês</option>
+                {Object.entries(GOAL_ALLOCATIONS).map(([k, label]) => (
+                  <option key={k} value={k}>
+                    {label}
+                  </option>
+                ))}
               </select>
             </label>
           </div>
 
+          <div className="table goalsTable">
+            <div className="thead">
+              <div>Meta</div>
+              <div>Valor (R$ de hoje)</div>
+              <div>Idade</div>
+              <div>Bruto (% a.m.)</div>
+              <div>Já guardado</div>
+              <div />
+            </div>
+            {metas.length === 0 && (
+              <div className="trow">
+                <div className="muted">Nenhuma meta cadastrada.</div>
+              </div>
+            )}
+            {metas.map((g, i) => (
+              <div className="trow" key={i}>
+                <input
+                  value={g.descricao}
+                  onChange={(ev) =>
+                    updateMeta(i, { descricao: ev.target.value })
+                  }
+                  placeholder="Ex: faculdade dos filhos"
+                />
+                <input
+                  value={g.valor}
+                  onChange={(ev) => updateMeta(i, { valor: ev.target.value })}
+                  inputMode="decimal"
+                />
+                <input
+                  value={g.idade}
+                  onChange={(ev) => updateMeta(i, { idade: ev.target.value })}
+                  inputMode="decimal"
+                />
+                <input
+                  value={g.rendimentoMensalPct}
+                  onChange={(ev) =>
+                    updateMeta(i, { rendimentoMensalPct: ev.target.value })
+                  }
+                  inputMode="decimal"
+                  placeholder="Do plano"
+                />
+                <input
+                  value={g.saldoAtual}
+                  onChange={(ev) =>
+                    updateMeta(i, { saldoAtual: ev.target.value })
+                  }
+                  inputMode="decimal"
+                />
+                <div className="presetActions">
+                  <button
+                    className="btn"
+                    disabled={i === 0}
+                    onClick={() => subirMeta(i)}
+                    title="Subir na prioridade"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="btn danger"
+                    onClick={() =>
+                      setMetas((prev) => prev.filter((_, j) => j !== i))
+                    }
+                  >
+                    Remover
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="presetActions" style={{ marginTop: 8 }}>
+            <button
+              className="btn"
+              onClick={() =>
+                setMetas((prev) => [
+                  ...prev,
+                  {
+                    descricao: "",
+                    valor: "200000",
+                    idade: String(Math.ceil(ageNow) + 10),
+                    rendimentoMensalPct: "",
+                    saldoAtual: "0",
+                  },
+                ])
+              }
+            >
+              Adicionar meta
+            </button>
+          </div>
+          <small className="muted">
+            Metas à parte da principal, cada uma com prazo e rentabilidade
+            próprios (vazio usa a do plano) e a mesma inflação, tributação e
+            custos. O aporte de cada meta é fixo até o prazo dela; o que sobra
+            depois que uma meta vence não volta para as outras.
+          </small>
+
           <div className="divider" />
 
           <h3>Alvo</h3>
@@ -1009,12 +4547,62 @@ export default function App() {
               />
             </label>
           )}
+
+          <div className="twoCols" style={{ marginTop: 10 }}>
+            <label>
+              Margem de segurança do aporte
+              <select
+                value={margemSeguranca}
+                onChange={(e) =>
+                  setMargemSeguranca(e.target.value as SafetyMarginMode)
+                }
+              >
+                {Object.entries(SAFETY_MARGINS).map(([k, label]) => (
+                  <option key={k} value={k}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {margemSeguranca === "haircut" && (
+              <label>
+                Redução da rentabilidade real (bp a.a.)
+                <input
+                  value={margemBp}
+                  onChange={(e) => setMargemBp(e.target.value)}
+                  inputMode="numeric"
+                />
+              </label>
+            )}
+
+            {margemSeguranca === "probability" && (
+              <label>
+                Chance mínima de atingir a meta (%)
+                <input
+                  value={probabilidadeMinimaPct}
+                  onChange={(e) => setProbabilidadeMinimaPct(e.target.value)}
+                  inputMode="numeric"
+                />
+              </label>
+            )}
+          </div>
+          {margemSeguranca === "probability" &&
+            projectionMode !== "monteCarlo" && (
+              <small className="muted">
+                Escolha o modo Monte Carlo em Projeção para usar a probabilidade
+                mínima; até lá o aporte sugerido chega exatamente na meta.
+              </small>
+            )}
         </section>
 
         <section className="card">
-          <h2>Resultado</h2>
+          <h2>
+            Resultado
+            {calculando && <small className="calcBadge">calculando…</small>}
+          </h2>
 
-          <div className="kpis">
+          <div className={aporteCalc.pending ? "kpis pending" : "kpis"}>
             <div className="kpiRow">
               <span>Falta para a meta (hoje)</span>
               <b>{brl0.format(faltaHoje)}</b>
@@ -1034,7 +4622,9 @@ export default function App() {
                 Aporte médio{" "}
                 {usandoRendaDoBenchmark
                   ? "(renda do benchmark)"
-                  : "(sua renda)"}
+                  : casal
+                    ? "(renda do casal)"
+                    : "(sua renda)"}
               </span>
               <b>{brl2.format(modeloPmt)} / mês</b>
             </div>
@@ -1056,6 +4646,53 @@ export default function App() {
               </b>
             </div>
 
+            {reserve && (
+              <div className="kpiRow">
+                <span>Reserva de emergência completa</span>
+                <b>
+                  {mesReservaCompleta == null
+                    ? "—"
+                    : mesReservaCompleta === 0
+                      ? "já está completa"
+                      : `mês ${mesReservaCompleta} (idade ~${(
+                          ageNow +
+                          mesReservaCompleta / 12
+                        ).toFixed(1)})`}
+                </b>
+              </div>
+            )}
+
+            {inssNaMeta > 0 && (
+              <div className="kpiRow">
+                <span>INSS no início das retiradas (como patrimônio)</span>
+                <b>
+                  {brl0.format(inssNaMeta)} (carteira:{" "}
+                  {brl0.format(targetToday)})
+                </b>
+              </div>
+            )}
+
+            {previdenciaNaMeta && (
+              <div className="kpiRow">
+                <span>Previdência na idade-alvo (líquida do IR)</span>
+                <b>
+                  {brl0.format(previdenciaNaMeta.netBalanceReal)} (carteira:{" "}
+                  {brl0.format(targetToday)})
+                </b>
+              </div>
+            )}
+
+            {casal && (
+              <div className="kpiRow">
+                <span>Idade do(a) parceiro(a) na meta</span>
+                <b>
+                  {idadeParceiroNaMeta == null
+                    ? "—"
+                    : `${idadeParceiroNaMeta.toFixed(1)} anos`}
+                </b>
+              </div>
+            )}
+
             <div className="kpiRow highlight">
               <span>Aporte mensal sugerido</span>
               <b>
@@ -1065,6 +4702,64 @@ export default function App() {
               </b>
             </div>
 
+            {casal && aporteNecessario != null && (
+              <div className="kpiRow">
+                <span>Parte de cada um (quando os dois aportam)</span>
+                <b>
+                  Você{" "}
+                  {brl2.format(aporteNecessario * casal.contributors[0].share)}{" "}
+                  · Parceiro(a){" "}
+                  {brl2.format(aporteNecessario * casal.contributors[1].share)}
+                </b>
+              </div>
+            )}
+
+            {(safetyMarginBp > 0 || usarProbabilidadeMinima) && (
+              <div className="kpiRow">
+                <span>Sem margem de segurança</span>
+                <b>
+                  {aporteSemMargem == null
+                    ? "—"
+                    : `${brl2.format(aporteSemMargem)} / mês`}
+                </b>
+              </div>
+            )}
+
+            {finalPoint && (
+              <>
+                <div className="kpiRow">
+                  <span>Saldo bruto no alvo (R$ de hoje)</span>
+                  <b>{brl0.format(finalPoint.balanceReal)}</b>
+                </div>
+                <div className="kpiRow">
+                  <span>IR devido no resgate</span>
+                  <b>{brl0.format(finalPoint.taxDeferredReal)}</b>
+                </div>
+                {finalPoint.taxPaidReal > 0 && (
+                  <div className="kpiRow">
+                    <span>IR já pago (come-cotas)</span>
+                    <b>{brl0.format(finalPoint.taxPaidReal)}</b>
+                  </div>
+                )}
+                {fees && (
+                  <div className="kpiRow">
+                    <span>Custo total das taxas (R$ de hoje)</span>
+                    <b>{brl0.format(finalPoint.feesPaidReal)}</b>
+                  </div>
+                )}
+                <div className="kpiRow">
+                  <span>Saldo líquido no alvo</span>
+                  <b>{brl0.format(finalPoint.netBalanceReal)}</b>
+                </div>
+                {finalSemTaxas && (
+                  <div className="kpiRow">
+                    <span>Saldo líquido sem taxas (mesmo aporte)</span>
+                    <b>{brl0.format(finalSemTaxas.netBalanceReal)}</b>
+                  </div>
+                )}
+              </>
+            )}
+
             <small className="subnote">
               {indexation === "inflationAdjusted"
                 ? "Esse valor é em R$ de hoje e deve ser reajustado pela inflação ao longo do tempo."
@@ -1087,10 +4782,16 @@ export default function App() {
                 <br />
                 Chega em: idade{" "}
                 <b>{idadeAlvo == null ? "—" : `${idadeAlvo.toFixed(1)}`}</b>
+                {idadeParceiroNaMeta != null && (
+                  <>
+                    {" "}
+                    (parceiro(a): <b>{idadeParceiroNaMeta.toFixed(1)}</b>)
+                  </>
+                )}
                 <br />
                 Cenário: {scenarioLabel} | Inflação:{" "}
-                {inflacaoAnualPct.toFixed(1)}% | Imposto:{" "}
-                {impostoEfetivoPct.toFixed(1)}%
+                {inflacaoAnualPct.toFixed(1)}% | IR:{" "}
+                {TAX_REGIMES[taxRegime].label}
               </p>
             </div>
             <button className="btn" onClick={copySummary}>
@@ -1116,14 +4817,21 @@ export default function App() {
 
           <h3>“Se eu aportar X, quando chego?”</h3>
           <div className="twoCols">
-            <label>
-              Meu aporte mensal (R$)
-              <input
-                value={meuAporte}
-                onChange={(e) => setMeuAporte(e.target.value)}
-                inputMode="decimal"
-              />
-            </label>
+            {casal ? (
+              <div className="kpiRow">
+                <span>Aporte do casal (% das rendas)</span>
+                <b>{brl2.format(meuAporteNum)} / mês</b>
+              </div>
+            ) : (
+              <label>
+                Meu aporte mensal (R$)
+                <input
+                  value={meuAporte}
+                  onChange={(e) => setMeuAporte(e.target.value)}
+                  inputMode="decimal"
+                />
+              </label>
+            )}
 
             <div className="kpiRow">
               <span>Chega em</span>
@@ -1146,15 +4854,186 @@ export default function App() {
             </b>
           </div>
 
+          {casal && (
+            <div className="kpiRow">
+              <span>Idade do(a) parceiro(a) quando chega</span>
+              <b>
+                {idadeParceiroComMeuAporte == null
+                  ? "—"
+                  : `~${idadeParceiroComMeuAporte.toFixed(1)} anos`}
+              </b>
+            </div>
+          )}
+
+          <div className="kpiRow">
+            <span>Rentabilidade real necessária até a idade-alvo</span>
+            <b className={taxaNecessariaCalc.pending ? "pending" : undefined}>
+              {taxaNecessaria == null
+                ? "—"
+                : `${pct(taxaNecessaria.realMonthlyRate * 100, 3)} a.m. (${pct(
+                    taxaNecessaria.realAnnualRate * 100,
+                    2
+                  )} a.a.)`}
+            </b>
+          </div>
+
+          <div className="kpiRow">
+            <span>Equivalente bruto{taxRate > 0 ? " (antes do IR)" : ""}</span>
+            <b className={taxaNecessariaCalc.pending ? "pending" : undefined}>
+              {taxaNecessaria == null
+                ? "—"
+                : `${pct(taxaNecessaria.grossMonthlyRate * 100, 3)} a.m. (${pct(
+                    taxaNecessaria.grossAnnualRate * 100,
+                    2
+                  )} a.a.)`}
+            </b>
+          </div>
+
+          <div className="kpiRow">
+            <span>Ou: carteira inicial necessária</span>
+            <b
+              className={carteiraNecessariaCalc.pending ? "pending" : undefined}
+            >
+              {carteiraNecessaria == null
+                ? "—"
+                : brl0.format(carteiraNecessaria)}
+            </b>
+          </div>
+
+          {taxaAcimaDoOtimista && (
+            <div className="hintBox warnBox">
+              A rentabilidade bruta necessária passa do cenário otimista (
+              {pct(otimistaPct, 1)} a.m.). Considere aportar mais, começar com
+              uma carteira maior ou adiar a idade-alvo.
+            </div>
+          )}
+
+          {usarCarteira && (
+            <small className="muted">
+              A rentabilidade necessária considera um único ativo com o IR do
+              produto selecionado em Macros, sem a divisão da carteira.
+            </small>
+          )}
+
+          <div className="divider" />
+
+          <h3>Depois da meta: quanto tempo o dinheiro dura?</h3>
+
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={simularRetiradas}
+              onChange={(e) => setSimularRetiradas(e.target.checked)}
+            />
+            Simular retiradas a partir da idade-alvo
+          </label>
+
+          {simularRetiradas && (
+            <>
+              <div className="twoCols" style={{ marginTop: 10 }}>
+                <label>
+                  Expectativa de vida (idade)
+                  <input
+                    value={expectativaVida}
+                    onChange={(e) => setExpectativaVida(e.target.value)}
+                    inputMode="numeric"
+                  />
+                </label>
+                <label>
+                  Regra de retirada
+                  <select
+                    value={regraRetirada}
+                    onChange={(e) =>
+                      setRegraRetirada(e.target.value as WithdrawalRule)
+                    }
+                  >
+                    {Object.entries(WITHDRAWAL_RULES).map(([k, label]) => (
+                      <option key={k} value={k}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  {regraRetirada === "guardrails" && (
+                    <small>
+                      Revisão anual: corta 10% se a taxa de retirada passar de
+                      120% da inicial e aumenta 10% se cair abaixo de 80%.
+                    </small>
+                  )}
+                </label>
+                {regraRetirada === "percentOfBalance" ? (
+                  <label>
+                    Retirada anual (% do saldo)
+                    <input
+                      value={taxaRetiradaPct}
+                      onChange={(e) => setTaxaRetiradaPct(e.target.value)}
+                      inputMode="decimal"
+                    />
+                  </label>
+                ) : (
+                  <label>
+                    Retirada mensal (R$ de hoje)
+                    <input
+                      value={retiradaMensal}
+                      onChange={(e) => setRetiradaMensal(e.target.value)}
+                      inputMode="decimal"
+                    />
+                  </label>
+                )}
+                <div className="muted">
+                  Rendimento real líquido na aposentadoria:{" "}
+                  {pct(rRealAposentadoria * 100, 3)} a.m.
+                </div>
+              </div>
+
+              {decumulation ? (
+                <div className="kpis" style={{ marginTop: 10 }}>
+                  <div className="kpiRow highlight">
+                    <span>O dinheiro acaba aos</span>
+                    <b>
+                      {decumulation.depletionAge == null
+                        ? `Não acaba até ${idadeFimRetiradas.toFixed(0)} anos`
+                        : `${decumulation.depletionAge.toFixed(1)} anos`}
+                    </b>
+                  </div>
+                  <div className="kpiRow">
+                    <span>
+                      Renda mensal sustentável até{" "}
+                      {idadeFimRetiradas.toFixed(0)} anos
+                    </span>
+                    <b>
+                      {brl2.format(decumulation.sustainableMonthlyReal)} / mês
+                    </b>
+                  </div>
+                  <div className="kpiRow">
+                    <span>Taxa de retirada segura</span>
+                    <b>
+                      {decumulation.safeWithdrawalRate == null
+                        ? "—"
+                        : `${pct(decumulation.safeWithdrawalRate * 100, 2)} a.a.`}
+                    </b>
+                  </div>
+                </div>
+              ) : (
+                <div className="muted">
+                  Defina uma idade-alvo e uma expectativa de vida maior que ela.
+                </div>
+              )}
+            </>
+          )}
+
           <div className="divider" />
 
           <h3>Comparar cenários</h3>
           <p className="muted">
             Mesmo alvo de tempo. Só muda a rentabilidade (mantém
             inflação/imposto/forma de aporte).
+            {usarCarteira &&
+              " Aqui cada cenário é um ativo único, sem a carteira de classes."}
           </p>
 
-          <div className="table">
+          <div
+            className={scenarioCompareCalc.pending ? "table pending" : "table"}
+          >
             <div className="thead">
               <div>Cenário</div>
               <div>Bruto a.m.</div>
@@ -1174,6 +5053,383 @@ export default function App() {
             ))}
           </div>
 
+          {metasArgs && (
+            <>
+              <div className="divider" />
+
+              <h3>Outras metas</h3>
+              <p className="muted">
+                Orçamento de {brl2.format(parseNumberBR(orcamentoMetas))} / mês,{" "}
+                {alocacaoMetas === "priority"
+                  ? "na ordem de prioridade da lista"
+                  : "dividido na proporção do que cada meta precisa"}
+                . Saldos líquidos de IR, em R$ de hoje.
+              </p>
+
+              <div
+                className={
+                  metasCalc.pending
+                    ? "table goalsResult pending"
+                    : "table goalsResult"
+                }
+              >
+                <div className="thead">
+                  <div>Meta</div>
+                  <div>Necessário</div>
+                  <div>Alocado</div>
+                  <div>Saldo no prazo</div>
+                  <div>Falta</div>
+                  <div>Extra / mês</div>
+                </div>
+                {metasResultado?.goals.map((g, i) => (
+                  <div className="trow" key={i}>
+                    <div>
+                      {g.label} {g.feasible ? "✅" : "⚠️"}
+                    </div>
+                    <div>
+                      {g.requiredPmt == null ? "—" : brl2.format(g.requiredPmt)}
+                    </div>
+                    <div>{brl2.format(g.allocatedPmt)}</div>
+                    <div>{brl0.format(g.projectedReal)}</div>
+                    <div>
+                      {g.shortfallReal > 0.5
+                        ? brl0.format(g.shortfallReal)
+                        : "—"}
+                    </div>
+                    <div>
+                      {g.extraPmt == null
+                        ? "inalcançável"
+                        : g.extraPmt > 0.005
+                          ? brl2.format(g.extraPmt)
+                          : "—"}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {metasResultado && (
+                <>
+                  <div className="kpiRow">
+                    <span>Sobra do orçamento</span>
+                    <b>{brl2.format(metasResultado.unallocated)} / mês</b>
+                  </div>
+                  <div className="kpiRow">
+                    <span>A mais por mês para cumprir todas</span>
+                    <b>
+                      {metasResultado.extraPmtTotal == null
+                        ? "alguma meta é inalcançável no prazo"
+                        : `${brl2.format(metasResultado.extraPmtTotal)} / mês`}
+                    </b>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          <div className="divider" />
+
+          <h3>Comparar presets</h3>
+          <p className="muted">
+            Marque de 2 a {COMPARE_MAX} presets na lista para ver os planos lado
+            a lado, cada um com as próprias hipóteses. Saldos líquidos de IR.
+          </p>
+
+          {presetsSelecionados.length > COMPARE_MAX && (
+            <div className="warnBox">
+              Marque no máximo {COMPARE_MAX} presets para comparar.
+            </div>
+          )}
+
+          {comparacao && (
+            <>
+              <div
+                className={
+                  comparacaoCalc.pending
+                    ? "table compareTable pending"
+                    : "table compareTable"
+                }
+              >
+                <div className="thead">
+                  <div>Preset</div>
+                  <div>Aporte necessário</div>
+                  <div>Tempo até o alvo</div>
+                  <div>Saldo final (R$ de hoje)</div>
+                  <div>Saldo final (nominal)</div>
+                </div>
+
+                {comparacao.map((c) => (
+                  <div className="trow" key={c.name}>
+                    <div className="compareName">
+                      <i style={{ background: c.color }} />
+                      {c.name}
+                    </div>
+                    <div>
+                      {c.result.requiredPmt == null
+                        ? "—"
+                        : brl2.format(c.result.requiredPmt)}
+                    </div>
+                    <div>
+                      {c.result.months == null || c.result.targetAge == null
+                        ? "—"
+                        : `${c.result.months} meses (${c.result.targetAge.toFixed(1)} anos${
+                            c.result.partnerTargetAge == null
+                              ? ""
+                              : ` / ${c.result.partnerTargetAge.toFixed(1)}`
+                          })`}
+                    </div>
+                    <div>
+                      {c.finalPoint
+                        ? brl0.format(c.finalPoint.netBalanceReal)
+                        : "—"}
+                    </div>
+                    <div>
+                      {c.finalPoint
+                        ? brl0.format(c.finalPoint.netBalanceNominal)
+                        : "—"}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {comparacaoChart && (
+                <LineChart
+                  pending={comparacaoCalc.pending}
+                  data={comparacaoChart.data}
+                  displayMode={displayMode}
+                  series={comparacaoChart.series}
+                />
+              )}
+
+              {camposDiferentes.length === 0 ? (
+                <small className="muted">
+                  Os presets têm exatamente as mesmas entradas.
+                </small>
+              ) : (
+                <div className="table" style={{ marginTop: 10 }}>
+                  <div
+                    className="thead"
+                    style={{ gridTemplateColumns: colunasDiff }}
+                  >
+                    <div>Entrada</div>
+                    {comparacao.map((c) => (
+                      <div key={c.name}>{c.name}</div>
+                    ))}
+                  </div>
+                  {camposDiferentes.map((key) => (
+                    <div
+                      className="trow"
+                      key={key}
+                      style={{ gridTemplateColumns: colunasDiff }}
+                    >
+                      <div>{PRESET_FIELDS[key]}</div>
+                      {presetsComparados.map((p) => (
+                        <div key={p.name}>
+                          {formatPresetField(key, p.data[key])}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="divider" />
+
+          <h3>Sensibilidade</h3>
+          <p className="muted">
+            Recalcula o plano variando duas entradas de cada vez (mapa) e uma de
+            cada vez (tornado), com o resto como está agora.
+            {usarCarteira &&
+              " Aqui o plano é um ativo único, sem a carteira de classes."}
+          </p>
+
+          <div className="twoCols">
+            <label>
+              Resultado
+              <select
+                value={sensMetrica}
+                onChange={(e) =>
+                  setSensMetrica(e.target.value as SensitivityMetric)
+                }
+              >
+                {Object.entries(SENSITIVITY_METRICS).map(([k, label]) => (
+                  <option key={k} value={k}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div />
+            {(["x", "y"] as const).map((eixo) => {
+              const variable = eixo === "x" ? sensEixoX : sensEixoY;
+              const info = SENSITIVITY_VARIABLES[variable];
+              return (
+                <Fragment key={eixo}>
+                  <label>
+                    {eixo === "x" ? "Colunas" : "Linhas"}
+                    <select
+                      value={variable}
+                      onChange={(e) =>
+                        trocarEixoSensibilidade(
+                          eixo,
+                          e.target.value as SensitivityVariable
+                        )
+                      }
+                    >
+                      {Object.entries(SENSITIVITY_VARIABLES).map(([k, v]) => (
+                        <option key={k} value={k}>
+                          {v.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Variação (± {info.unit || "todos os regimes"})
+                    <input
+                      value={sensVariacao[variable]}
+                      disabled={variable === "taxRegime"}
+                      onChange={(e) =>
+                        setSensVariacao((prev) => ({
+                          ...prev,
+                          [variable]: e.target.value,
+                        }))
+                      }
+                      inputMode="decimal"
+                    />
+                  </label>
+                </Fragment>
+              );
+            })}
+          </div>
+
+          <div className="presetActions" style={{ marginTop: 8 }}>
+            <button
+              className="btn"
+              onClick={() => void calcularSensibilidade()}
+            >
+              {sensCalculando
+                ? "Calculando…"
+                : sensibilidade
+                  ? "Recalcular"
+                  : "Calcular sensibilidade"}
+            </button>
+          </div>
+
+          {sensDesatualizada && (
+            <small className="muted">
+              As entradas mudaram desde o último cálculo.
+            </small>
+          )}
+
+          {sensibilidade && (
+            <>
+              <div
+                className="heatmap"
+                style={{
+                  gridTemplateColumns: `auto repeat(${sensibilidade.x.values.length}, 1fr)`,
+                }}
+              >
+                <div className="heatLabel">
+                  {SENSITIVITY_VARIABLES[sensibilidade.y.variable].label} ↓ /{" "}
+                  {SENSITIVITY_VARIABLES[sensibilidade.x.variable].label} →
+                </div>
+                {sensibilidade.x.values.map((v) => (
+                  <div className="heatLabel" key={String(v)}>
+                    {formatSensitivityValue(sensibilidade.x.variable, v)}
+                  </div>
+                ))}
+                {sensibilidade.grid.map((row, i) => {
+                  const yValue = sensibilidade.y.values[i];
+                  const yAtual =
+                    yValue ===
+                    variableValue(sensibilidade.plan, sensibilidade.y.variable);
+                  return (
+                    <Fragment key={String(yValue)}>
+                      <div className="heatLabel">
+                        {formatSensitivityValue(
+                          sensibilidade.y.variable,
+                          yValue
+                        )}
+                      </div>
+                      {row.map((result, j) => {
+                        const atual =
+                          yAtual &&
+                          sensibilidade.x.values[j] ===
+                            variableValue(
+                              sensibilidade.plan,
+                              sensibilidade.x.variable
+                            );
+                        return (
+                          <div
+                            key={j}
+                            className={atual ? "heatCell current" : "heatCell"}
+                            style={{
+                              background:
+                                result == null
+                                  ? undefined
+                                  : `hsla(${Math.round(120 * (1 - sensPosicao(result)))}, 70%, 42%, 0.6)`,
+                            }}
+                          >
+                            {formatSensitivityResult(
+                              sensibilidade.metric,
+                              result
+                            )}
+                          </div>
+                        );
+                      })}
+                    </Fragment>
+                  );
+                })}
+              </div>
+              <small className="muted">
+                Contorno: o plano atual (
+                {formatSensitivityResult(
+                  sensibilidade.metric,
+                  sensibilidade.base
+                )}
+                ).
+              </small>
+
+              <h3>O que mais mexe no resultado</h3>
+              <div className="tornado">
+                {sensibilidade.tornado.map((bar) => {
+                  const left = sensPosicao(bar.low) * 100;
+                  const right = sensPosicao(bar.high) * 100;
+                  return (
+                    <div className="tornadoRow" key={bar.variable}>
+                      <span>{SENSITIVITY_VARIABLES[bar.variable].label}</span>
+                      <div className="tornadoTrack">
+                        <div
+                          className="tornadoBar"
+                          style={{
+                            left: `${left}%`,
+                            width: `${Math.max(0.5, right - left)}%`,
+                          }}
+                        />
+                        <div
+                          className="tornadoBase"
+                          style={{
+                            left: `${sensPosicao(sensibilidade.base) * 100}%`,
+                          }}
+                        />
+                      </div>
+                      <small className="muted">
+                        {formatSensitivityResult(sensibilidade.metric, bar.low)}{" "}
+                        ({formatSensitivityValue(bar.variable, bar.lowValue)}) a{" "}
+                        {formatSensitivityResult(
+                          sensibilidade.metric,
+                          bar.high
+                        )}{" "}
+                        ({formatSensitivityValue(bar.variable, bar.highValue)})
+                      </small>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
           <div className="divider" />
 
           <h3>Projeção</h3>
@@ -1199,12 +5455,178 @@ export default function App() {
             </button>
           </div>
 
+          <div className="toggleRow" style={{ marginTop: 10 }}>
+            <span className="muted">Modo</span>
+            <div className="chipGroup">
+              {Object.entries(PROJECTION_MODES).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  className={`chipBtn ${projectionMode === mode ? "active" : ""}`}
+                  onClick={() => setProjectionMode(mode as ProjectionMode)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {projectionMode === "monteCarlo" && (
+            <>
+              <div className="twoCols" style={{ marginTop: 10 }}>
+                <label>
+                  Volatilidade do retorno (% a.m.)
+                  <input
+                    value={volRetornoMensalPct}
+                    onChange={(e) => setVolRetornoMensalPct(e.target.value)}
+                    inputMode="decimal"
+                  />
+                  <small>
+                    Média = rendimento bruto do cenário (
+                    {pct(grossMonthlyPctUsed, 2)} a.m.).
+                  </small>
+                </label>
+                <label>
+                  Volatilidade da inflação (% a.m.)
+                  <input
+                    value={volInflacaoMensalPct}
+                    onChange={(e) => setVolInflacaoMensalPct(e.target.value)}
+                    inputMode="decimal"
+                  />
+                  <small>Média = inflação do slider.</small>
+                </label>
+                <label>
+                  Trajetórias simuladas
+                  <input
+                    value={simulacoesMC}
+                    onChange={(e) => setSimulacoesMC(e.target.value)}
+                    inputMode="numeric"
+                  />
+                  <small>Entre 100 e 5.000.</small>
+                </label>
+                <label>
+                  Semente (seed)
+                  <input
+                    value={seedMC}
+                    onChange={(e) => setSeedMC(e.target.value)}
+                    inputMode="numeric"
+                  />
+                  <small>Mesma semente = mesmo resultado.</small>
+                </label>
+              </div>
+
+              {monteCarlo && (
+                <div
+                  className={
+                    monteCarloCalc.pending
+                      ? "kpiRow highlight pending"
+                      : "kpiRow highlight"
+                  }
+                  style={{ marginTop: 10 }}
+                >
+                  <span>
+                    Chance de atingir a meta
+                    {idadeAlvo == null
+                      ? ""
+                      : ` aos ${idadeAlvo.toFixed(1)} anos`}{" "}
+                    com o aporte sugerido
+                  </span>
+                  <b>{pct(monteCarlo.successProbability * 100, 1)}</b>
+                </div>
+              )}
+            </>
+          )}
+
+          {projectionMode === "backtest" && (
+            <>
+              <div className="twoCols" style={{ marginTop: 10 }}>
+                <label>
+                  % em Ibovespa (resto em CDI)
+                  <input
+                    value={pctIbovBacktest}
+                    onChange={(e) => setPctIbovBacktest(e.target.value)}
+                    inputMode="decimal"
+                  />
+                  <small>
+                    Rebalanceado todo mês; inflação = IPCA do período.
+                  </small>
+                </label>
+                {historicalSeries ? (
+                  <div className="muted">
+                    {historicalSeries.months.length} meses (
+                    {historicalSeries.months[0]} a{" "}
+                    {
+                      historicalSeries.months[
+                        historicalSeries.months.length - 1
+                      ]
+                    }
+                    ).{" "}
+                    {horizonteBacktest != null &&
+                      mesesAteAlvo != null &&
+                      horizonteBacktest < mesesAteAlvo &&
+                      metaBacktest != null &&
+                      `Horizonte limitado a ${horizonteBacktest} meses (o plano tem ${mesesAteAlvo}): a meta vira o saldo que o plano prevê para esse mês, ${brl0.format(metaBacktest)}.`}
+                    <InfoTooltip text={historicalSeries.source} label="i" />
+                  </div>
+                ) : (
+                  <div className="muted">
+                    As séries mensais oficiais de CDI, IPCA e Ibovespa ainda não
+                    acompanham o app, então não há histórico para repetir o
+                    plano.
+                  </div>
+                )}
+              </div>
+
+              {backtest ? (
+                <div
+                  className={backtestCalc.pending ? "kpis pending" : "kpis"}
+                  style={{ marginTop: 10 }}
+                >
+                  <div className="kpiRow highlight">
+                    <span>
+                      Inícios que atingiriam a meta em {horizonteBacktest} meses
+                      ({backtest.cohorts.length} janelas)
+                    </span>
+                    <b>{pct(backtest.successRate * 100, 1)}</b>
+                  </div>
+                  {[
+                    { label: "Melhor início", cohort: backtest.best },
+                    { label: "Início mediano", cohort: backtest.median },
+                    { label: "Pior início", cohort: backtest.worst },
+                  ].map(({ label, cohort }) => (
+                    <div className="kpiRow" key={label}>
+                      <span>
+                        {label}: {cohort.start}
+                      </span>
+                      <b>{brl0.format(cohort.finalNetReal)}</b>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="muted">—</div>
+              )}
+            </>
+          )}
+
           {projection && chartValues.length > 1 ? (
             <LineChart
-              data={projection}
+              pending={graficoPendente}
+              data={chartData ?? projection}
               displayMode={displayMode}
               targetValue={displayTargetValue}
               highlightIndex={metaHitIndex ?? undefined}
+              bands={chartBands}
+              overlays={chartOverlays}
+              stacks={chartStacks}
+              markers={chartMarkers}
+              reference={chartReference}
+              buckets={chartBuckets}
+              shade={
+                glidePath && {
+                  from: glidePath.startMonth,
+                  to: glidePath.startMonth + glidePath.months,
+                  label: "Transição para preservação",
+                }
+              }
               height={190}
               formatY={(v) =>
                 displayMode === "real" ? brl0.format(v) : brl0.format(v)
@@ -1215,8 +5637,9 @@ export default function App() {
           )}
 
           <p className="muted" style={{ marginTop: 12 }}>
-            Modelagem simplificada (taxas constantes). Na vida real:
-            volatilidade, impostos por tipo/prazo, custos e aportes variáveis.
+            Modelagem simplificada (taxas constantes; use os modos Monte Carlo e
+            Histórico para ver o efeito da volatilidade). Na vida real: aportes
+            variáveis.
           </p>
         </section>
 
@@ -1230,7 +5653,7 @@ export default function App() {
           <div className="assumptionBlock">
             <div className="assumptionTitle">
               Como calculamos
-              <InfoTooltip text="Pipeline básico: pegamos a taxa bruta, descontamos um imposto efetivo constante, chegamos ao retorno nominal e, por fim, abatemos inflação para obter o retorno real." />
+              <InfoTooltip text="Pipeline básico: pegamos a taxa bruta, abatemos a inflação para obter o retorno real antes do IR e, mês a mês, calculamos o IR de cada aporte conforme o produto e o prazo." />
             </div>
 
             <div className="calcFlow">
@@ -1240,19 +5663,19 @@ export default function App() {
                   tooltip: "Taxa nominal informada ou do cenário escolhido.",
                 },
                 {
-                  label: "Imposto efetivo",
+                  label: "Retorno real",
                   tooltip:
-                    "Alíquota simples aplicada sobre os ganhos mensais (aproximação).",
+                    "Retorno bruto descontado da inflação para manter o poder de compra.",
                 },
                 {
-                  label: "Retorno nominal",
+                  label: "IR por aporte",
                   tooltip:
-                    "Resultado após imposto, ainda sujeito à inflação do período.",
+                    "Cada aporte é um lote com seu prazo: tabela regressiva (CDB/Tesouro), come-cotas em maio/novembro (fundos) ou isenção (LCI/LCA/CRI/CRA).",
                 },
                 {
-                  label: "Retorno real",
+                  label: "Saldo líquido",
                   tooltip:
-                    "Retorno nominal descontado da inflação para manter o poder de compra.",
+                    "Saldo bruto menos o IR que seria devido se tudo fosse resgatado naquele mês.",
                 },
               ].map((step, idx) => (
                 <div className="calcStepWrapper" key={step.label}>
@@ -1291,12 +5714,22 @@ export default function App() {
           <div className="assumptionBlock">
             <div className="assumptionTitle">
               O que o modelo não cobre
-              <InfoTooltip text="Usamos taxas constantes e uma alíquota efetiva única. Não há simulação de risco, variação de preços ou custos específicos." />
+              <InfoTooltip text="Usamos taxas constantes. Não há simulação de risco nem de variação de preços." />
             </div>
             <ul className="assumptionsList">
-              <li>Volatilidade e oscilações de rentabilidade.</li>
-              <li>IR real por produto, prazo ou come-cotas.</li>
-              <li>Taxas de administração/corretagem e outros custos.</li>
+              <li>
+                Volatilidade fora do modo Monte Carlo (que sorteia retornos
+                independentes mês a mês, sem caudas gordas).
+              </li>
+              <li>
+                Compensação de prejuízos no IR e IOF (resgates antes de 30
+                dias).
+              </li>
+              <li>
+                Taxas na fase de retiradas, marca d'água da taxa de performance
+                e custos além de administração, custódia, performance e
+                corretagem.
+              </li>
               <li>Aportes variáveis, resgates ou mudanças de estratégia.</li>
             </ul>
           </div>
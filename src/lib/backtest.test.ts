@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { backtestWindowCount, runBacktest } from "./backtest";
+import { simulateProjection } from "./finance";
+import type { HistoricalSeries } from "./history";
+
+function flatSeries(count: number, cdi: number, ipca: number) {
+  const months = Array.from(
+    { length: count },
+    (_, i) =>
+      `${2000 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, "0")}`
+  );
+  return {
+    source: "teste",
+    months,
+    cdi: Array(count).fill(cdi),
+    ipca: Array(count).fill(ipca),
+    ibov: Array(count).fill(0),
+  } satisfies HistoricalSeries;
+}
+
+const plan = {
+  pvToday: 1000,
+  pmt0: 100,
+  months: 24,
+  ageNow: 30,
+  indexation: "inflationAdjusted" as const,
+  timing: "end" as const,
+  targetToday: 3000,
+  equityShare: 0,
+};
+
+describe("historical backtest", () => {
+  it("counts complete start windows", () => {
+    const series = flatSeries(36, 0.01, 0.003);
+    expect(backtestWindowCount(series, 24)).toBe(13);
+    expect(runBacktest({ ...plan, series, months: 40 })).toBeNull();
+  });
+
+  it("matches the constant-rate projection on a flat history", () => {
+    const series = flatSeries(36, 0.01, 0.002);
+    const result = runBacktest({ ...plan, series });
+    const expected = simulateProjection({
+      ...plan,
+      realMonthlyRate: 1.01 / 1.002 - 1,
+      inflationMonthlyRate: 0.002,
+    });
+
+    expect(result?.cohorts).toHaveLength(13);
+    for (const cohort of result!.cohorts) {
+      expect(cohort.finalNetReal).toBeCloseTo(expected[24].netBalanceReal, 6);
+    }
+  });
+
+  it("ranks best, worst and median start months", () => {
+    const series = flatSeries(24, 0.01, 0.003);
+    series.ibov = series.ibov.map((_, i) => (i < 12 ? -0.02 : 0.03));
+    const result = runBacktest({ ...plan, series, months: 12, equityShare: 1 });
+
+    expect(result?.worst.start).toBe("2000-01");
+    expect(result?.best.start).toBe("2001-01");
+    expect(result!.median.finalNetReal).toBeGreaterThan(
+      result!.worst.finalNetReal
+    );
+    expect(result!.successRate).toBeGreaterThanOrEqual(0);
+    expect(result!.successRate).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { simulateProjection } from "./finance";
+import type { ProjectionParams, SimulationPoint } from "./finance";
+import type { HistoricalSeries } from "./history";
+
+export type BacktestParams = Omit<
+  ProjectionParams,
+  "realMonthlyRate" | "inflationMonthlyRate" | "ratePath" | "startCalendarMonth"
+> & {
+  targetToday: number;
+  series: HistoricalSeries;
+  // Fração em Ibovespa; o restante rende CDI (rebalanceado todo mês)
+  equityShare: number;
+};
+
+export type BacktestCohort = {
+  startIndex: number;
+  start: string; // "AAAA-MM"
+  points: SimulationPoint[];
+  finalNetReal: number;
+  reached: boolean;
+};
+
+export type BacktestResult = {
+  cohorts: BacktestCohort[];
+  best: BacktestCohort;
+  worst: BacktestCohort;
+  median: BacktestCohort;
+  successRate: number;
+};
+
+/** Quantas janelas completas de `months` meses cabem na série. */
+export function backtestWindowCount(series: HistoricalSeries, months: number) {
+  return Math.max(0, series.months.length - months + 1);
+}
+
+/**
+ * Repete o plano começando em cada mês da série histórica, com a mesma lógica
+ * de aporte de `simulateProjection`. Devolve `null` se o horizonte for maior
+ * que o histórico disponível.
+ */
+export function runBacktest(params: BacktestParams): BacktestResult | null {
+  const { series, months, targetToday } = params;
+  const windows = backtestWindowCount(series, months);
+  if (months <= 0 || windows === 0) return null;
+
+  const w = Math.min(1, Math.max(0, params.equityShare));
+  const realMonthly = series.cdi.map((cdi, i) => {
+    const gross = (1 - w) * cdi + w * series.ibov[i];
+    return (1 + gross) / (1 + series.ipca[i]) - 1;
+  });
+
+  const cohorts: BacktestCohort[] = [];
+  for (let s = 0; s < windows; s++) {
+    const points = simulateProjection({
+      ...params,
+      realMonthlyRate: 0,
+      inflationMonthlyRate: 0,
+      startCalendarMonth: Number(series.months[s].slice(5)) - 1,
+      ratePath: {
+        realMonthly: realMonthly.slice(s, s + months),
+        inflationMonthly: series.ipca.slice(s, s + months),
+      },
+    });
+    const finalNetReal = points[points.length - 1].netBalanceReal;
+    cohorts.push({
+      startIndex: s,
+      start: series.months[s],
+      points,
+      finalNetReal,
+      reached: finalNetReal >= targetToday,
+    });
+  }
+
+  const ranked = [...cohorts].sort((a, b) => a.finalNetReal - b.finalNetReal);
+  return {
+    cohorts,
+    best: ranked[ranked.length - 1],
+    worst: ranked[0],
+    median: ranked[Math.floor((ranked.length - 1) / 2)],
+    successRate: cohorts.filter((c) => c.reached).length / cohorts.length,
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { runEngineTask } from "./engine";
+import type { EngineTask } from "./engine";
+import { monthsToTarget, solveRequiredPmt } from "./finance";
+
+const params = {
+  pvToday: 10000,
+  targetToday: 200000,
+  months: 120,
+  ageNow: 30,
+  realMonthlyRate: 0.004,
+  inflationMonthlyRate: 0.003,
+  indexation: "inflationAdjusted" as const,
+  timing: "end" as const,
+};
+
+describe("engine tasks", () => {
+  it("runs the engine function with the given arguments", () => {
+    const response = runEngineTask({
+      id: 7,
+      task: "solveRequiredPmtEach",
+      args: [[params, { ...params, months: 240 }]],
+    });
+    expect(response).toEqual({
+      id: 7,
+      ok: true,
+      result: [
+        solveRequiredPmt(params),
+        solveRequiredPmt({ ...params, months: 240 }),
+      ],
+    });
+  });
+
+  it("searches the month to the target off the main thread", () => {
+    const search = { ...params, pmt0: 1500 };
+    expect(
+      runEngineTask({ id: 3, task: "monthsToTarget", args: [search] })
+    ).toEqual({ id: 3, ok: true, result: monthsToTarget(search) });
+  });
+
+  it("reports unknown tasks and thrown errors", () => {
+    expect(
+      runEngineTask({ id: 1, task: "nope" as EngineTask, args: [] })
+    ).toMatchObject({ id: 1, ok: false });
+
+    const broken = runEngineTask({
+      id: 2,
+      task: "solveRequiredPmtEach",
+      args: [null],
+    });
+    expect(broken.ok).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { runBacktest } from "./backtest";
+import {
+  monthsToTarget,
+  solveRequiredPmt,
+  solveRequiredPv,
+  solveRequiredRate,
+} from "./finance";
+import { planGoals } from "./goals";
+import {
+  simulateMonteCarlo,
+  solveRequiredPmtForProbability,
+} from "./montecarlo";
+import { evaluatePlan } from "./plan";
+import type { PresetPayload } from "./presets";
+import { analyzeSensitivity } from "./sensitivity";
+
+// Cálculos pesados (resolvedores, simulações e grades) que o App roda fora da
+// thread principal. Cada tarefa é uma função do motor; os argumentos e o
+// resultado passam pelo `postMessage`, então só dados (sem funções).
+export const ENGINE_TASKS = {
+  monthsToTarget,
+  solveRequiredPmt,
+  solveRequiredPmtForProbability,
+  solveRequiredRate,
+  solveRequiredPv,
+  // Vários aportes de uma vez (ex.: uma linha por cenário)
+  solveRequiredPmtEach: (list: Parameters<typeof solveRequiredPmt>[0][]) =>
+    list.map((params) => solveRequiredPmt(params)),
+  simulateMonteCarlo,
+  runBacktest,
+  evaluatePlans: (payloads: PresetPayload[], startCalendarMonth: number) =>
+    payloads.map((payload) => evaluatePlan(payload, startCalendarMonth)),
+  analyzeSensitivity,
+  planGoals,
+};
+
+export type EngineTasks = typeof ENGINE_TASKS;
+export type EngineTask = keyof EngineTasks;
+export type EngineArgs<K extends EngineTask> = Parameters<EngineTasks[K]>;
+export type EngineResult<K extends EngineTask> = ReturnType<EngineTasks[K]>;
+
+export type EngineRequest = { id: number; task: EngineTask; args: unknown[] };
+
+export type EngineResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string };
+
+export function runEngineTask(request: EngineRequest): EngineResponse {
+  const fn = ENGINE_TASKS[request.task] as
+    | ((...args: unknown[]) => unknown)
+    | undefined;
+  if (!fn) {
+    return {
+      id: request.id,
+      ok: false,
+      error: `Tarefa desconhecida: ${request.task}`,
+    };
+  }
+  try {
+    return { id: request.id, ok: true, result: fn(...request.args) };
+  } catch (e) {
+    return {
+      id: request.id,
+      ok: false,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
@@ -0,0 +1,7 @@
+import { runEngineTask } from "./engine";
+import type { EngineRequest } from "./engine";
+
+// Uma tarefa por mensagem, na ordem em que chegam (ver `./engineClient`)
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  self.postMessage(runEngineTask(event.data));
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { runEngineTask } from "./engine";
+import type { EngineRequest } from "./engine";
+import { createEngineClient, isAbortError } from "./engineClient";
+import type { EngineWorker } from "./engineClient";
+
+const params = {
+  pvToday: 10000,
+  targetToday: 200000,
+  months: 120,
+  ageNow: 30,
+  realMonthlyRate: 0.004,
+  inflationMonthlyRate: 0.003,
+  indexation: "inflationAdjusted" as const,
+  timing: "end" as const,
+};
+
+// Responde no próximo ciclo, como um worker de verdade; guarda o que recebeu
+function fakeWorkers() {
+  const created: { posted: EngineRequest[]; terminated: boolean }[] = [];
+  const createWorker = (): EngineWorker => {
+    const state = { posted: [] as EngineRequest[], terminated: false };
+    created.push(state);
+    const worker: EngineWorker = {
+      onmessage: null,
+      onerror: null,
+      postMessage(request) {
+        state.posted.push(request);
+        setTimeout(() => {
+          if (state.terminated) return;
+          worker.onmessage?.({
+            data: runEngineTask(request),
+          } as MessageEvent);
+        }, 0);
+      },
+      terminate() {
+        state.terminated = true;
+      },
+    };
+    return worker;
+  };
+  return { created, createWorker };
+}
+
+describe("engine client", () => {
+  it("runs tasks one at a time in order", async () => {
+    const { created, createWorker } = fakeWorkers();
+    const client = createEngineClient(createWorker);
+
+    const [a, b] = await Promise.all([
+      client.run("solveRequiredPmt", [params]),
+      client.run("solveRequiredPmt", [{ ...params, months: 60 }]),
+    ]);
+    expect(b!).toBeGreaterThan(a!);
+    expect(created).toHaveLength(1);
+    expect(created[0].posted.map((r) => r.id)).toEqual([1, 2]);
+  });
+
+  it("drops queued tasks when cancelled", async () => {
+    const { created, createWorker } = fakeWorkers();
+    const client = createEngineClient(createWorker);
+    const controller = new AbortController();
+
+    const first = client.run("solveRequiredPmt", [params]);
+    const stale = client.run("solveRequiredPmt", [params], controller.signal);
+    controller.abort();
+
+    await expect(stale).rejects.toSatisfy(isAbortError);
+    await expect(first).resolves.toBeGreaterThan(0);
+    expect(created[0].posted).toHaveLength(1);
+  });
+
+  it("replaces the worker when the running task is cancelled", async () => {
+    const { created, createWorker } = fakeWorkers();
+    const client = createEngineClient(createWorker);
+    const controller = new AbortController();
+
+    const stale = client.run("solveRequiredPmt", [params], controller.signal);
+    const next = client.run("solveRequiredPmt", [params]);
+    controller.abort();
+
+    await expect(stale).rejects.toSatisfy(isAbortError);
+    await expect(next).resolves.toBeGreaterThan(0);
+    expect(created).toHaveLength(2);
+    expect(created[0].terminated).toBe(true);
+  });
+
+  it("rejects right away with an aborted signal", async () => {
+    const { created, createWorker } = fakeWorkers();
+    const client = createEngineClient(createWorker);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.run("solveRequiredPmt", [params], controller.signal)
+    ).rejects.toSatisfy(isAbortError);
+    expect(created).toHaveLength(0);
+  });
+
+  it("passes engine errors on to the caller", async () => {
+    const { createWorker } = fakeWorkers();
+    const client = createEngineClient(createWorker);
+
+    await expect(
+      client.run("solveRequiredPmtEach", [null as never])
+    ).rejects.toThrow();
+    // A fila segue depois do erro
+    await expect(
+      client.run("solveRequiredPmt", [params])
+    ).resolves.toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,126 @@
+import type {
+  EngineArgs,
+  EngineRequest,
+  EngineResponse,
+  EngineResult,
+  EngineTask,
+} from "./engine";
+
+// O que o cliente usa do `Worker` (nos testes, um falso que roda na hora)
+export type EngineWorker = {
+  postMessage(request: EngineRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<EngineResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+};
+
+export type EngineClient = {
+  run<K extends EngineTask>(
+    task: K,
+    args: EngineArgs<K>,
+    signal?: AbortSignal
+  ): Promise<EngineResult<K>>;
+};
+
+type Job = {
+  request: EngineRequest;
+  resolve: (value: never) => void;
+  reject: (reason: unknown) => void;
+};
+
+function abortError() {
+  return new DOMException("Cálculo cancelado", "AbortError");
+}
+
+export function isAbortError(e: unknown) {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+/**
+ * Fila de tarefas para um worker, uma de cada vez. Cancelar (via `signal`)
+ * tira a tarefa da fila; se ela já está rodando, o worker é descartado e
+ * outro é criado para a próxima, já que não dá para interromper o cálculo.
+ */
+export function createEngineClient(
+  createWorker: () => EngineWorker
+): EngineClient {
+  let worker: EngineWorker | null = null;
+  let running: Job | null = null;
+  const queue: Job[] = [];
+  let nextId = 1;
+
+  const finish = (job: Job) => {
+    if (running === job) running = null;
+    pump();
+  };
+
+  const discardWorker = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const ensureWorker = () => {
+    if (worker) return worker;
+    const created = createWorker();
+    created.onmessage = (event) => {
+      const job = running;
+      if (worker !== created || !job || event.data.id !== job.request.id) {
+        return;
+      }
+      const response = event.data;
+      if (response.ok) job.resolve(response.result as never);
+      else job.reject(new Error(response.error));
+      finish(job);
+    };
+    created.onerror = (event) => {
+      if (worker !== created) return;
+      const job = running;
+      discardWorker();
+      if (!job) return;
+      job.reject(new Error(event.message || "Falha no worker do motor"));
+      finish(job);
+    };
+    worker = created;
+    return created;
+  };
+
+  const pump = () => {
+    if (running) return;
+    const job = queue.shift();
+    if (!job) return;
+    running = job;
+    ensureWorker().postMessage(job.request);
+  };
+
+  const cancel = (job: Job) => {
+    const idx = queue.indexOf(job);
+    if (idx >= 0) {
+      queue.splice(idx, 1);
+    } else if (running === job) {
+      discardWorker();
+    } else {
+      return; // já terminou
+    }
+    job.reject(abortError());
+    finish(job);
+  };
+
+  return {
+    run(task, args, signal) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+        const job: Job = {
+          request: { id: nextId++, task, args },
+          resolve,
+          reject,
+        };
+        signal?.addEventListener("abort", () => cancel(job), { once: true });
+        queue.push(job);
+        pump();
+      });
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { contributionAfterBrokerage, feeRetention, hasFees } from "./fees";
+
+const fees = {
+  adminAnnualRate: 0.012,
+  custodyAnnualRate: 0,
+  performanceRate: 0.2,
+  performanceBenchmarkMonthlyRate: 0.008,
+  brokeragePerContribution: 5,
+};
+
+describe("fees", () => {
+  it("keeps the balance minus a twelfth of the annual fees", () => {
+    expect(feeRetention({ ...fees, performanceRate: 0 }, 1.01)).toBeCloseTo(
+      0.999,
+      12
+    );
+  });
+
+  it("adds the performance share of the return above the benchmark", () => {
+    const kept = feeRetention(fees, 1.018);
+    expect(kept * 1.018).toBeCloseTo(1.018 * 0.999 - 0.2 * 0.01, 12);
+    expect(feeRetention(fees, 1.005)).toBeCloseTo(0.999, 12);
+  });
+
+  it("takes the brokerage from positive contributions only", () => {
+    expect(contributionAfterBrokerage(fees, 100)).toBe(95);
+    expect(contributionAfterBrokerage(fees, 3)).toBe(0);
+    expect(contributionAfterBrokerage(fees, 0)).toBe(0);
+  });
+
+  it("tells when there is anything to charge", () => {
+    expect(hasFees(undefined)).toBe(false);
+    expect(hasFees({ ...fees, adminAnnualRate: 0, performanceRate: 0 })).toBe(
+      true
+    );
+    expect(
+      hasFees({
+        ...fees,
+        adminAnnualRate: 0,
+        performanceRate: 0,
+        brokeragePerContribution: 0,
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+// Custos do investimento, descontados no passo mensal da projeção:
+// - administração e custódia (B3): % a.a. sobre o saldo, 1/12 por mês
+// - performance: % do rendimento do mês acima do benchmark. Os fundos cobram
+//   por semestre e com marca d'água; aqui cada mês conta sozinho.
+// - corretagem: valor fixo por aporte, em R$ de hoje (sai do próprio aporte)
+export type InvestmentFees = {
+  adminAnnualRate: number;
+  custodyAnnualRate: number;
+  performanceRate: number;
+  performanceBenchmarkMonthlyRate: number; // nominal ao mês (ex.: CDI)
+  brokeragePerContribution: number;
+};
+
+export function hasFees(fees: InvestmentFees | undefined): boolean {
+  return (
+    fees != null &&
+    (fees.adminAnnualRate > 0 ||
+      fees.custodyAnnualRate > 0 ||
+      fees.performanceRate > 0 ||
+      fees.brokeragePerContribution > 0)
+  );
+}
+
+/**
+ * Fração do saldo que sobra depois das taxas do mês, dado o fator de
+ * crescimento nominal bruto (`1 + rendimento do mês`).
+ */
+export function feeRetention(
+  fees: InvestmentFees,
+  grossFactor: number
+): number {
+  if (!(grossFactor > 0)) return 1;
+  const balanceFee =
+    (Math.max(0, fees.adminAnnualRate) + Math.max(0, fees.custodyAnnualRate)) /
+    12;
+  const excess = Math.max(
+    0,
+    grossFactor - 1 - fees.performanceBenchmarkMonthlyRate
+  );
+  const net =
+    grossFactor * (1 - balanceFee) -
+    Math.min(1, Math.max(0, fees.performanceRate)) * excess;
+  return Math.max(0, net / grossFactor);
+}
+
+/** Parte do aporte que vira investimento depois da corretagem. */
+export function contributionAfterBrokerage(
+  fees: InvestmentFees,
+  contributionReal: number
+): number {
+  if (!(contributionReal > 0)) return contributionReal;
+  return Math.max(
+    0,
+    contributionReal - Math.max(0, fees.brokeragePerContribution)
+  );
+}
@@ -1,12 +1,24 @@
 import { describe, expect, it } from "vitest";
 import {
   annualToMonthlyRate,
+  applyRateHaircut,
+  finalBalanceReal,
+  glideWeight,
+  inflationFactorAt,
   monthsToTarget,
   parseNumberBR,
+  ratePathFromPhases,
   realMonthlyRateFromGross,
+  simulateDecumulation,
   simulateProjection,
   solveRequiredPmt,
+  solveRequiredPv,
+  solveRequiredRate,
+  sustainableWithdrawal,
 } from "./finance";
+import type { ProjectionParams } from "./finance";
+import { createRng } from "./montecarlo";
+import type { ContributionSchedule } from "./schedule";
 
 describe("number parsing", () => {
   it("parses Brazilian formatted numbers", () => {
@@ -35,7 +47,7 @@ describe("return modeling", () => {
       inflationMonthlyRate: 0.003,
     });
 
-    expect(real).toBeCloseTo(0.00653, 6);
+    expect(real).toBeCloseTo(0.0054835, 6);
   });
 
   it("projects balances across months", () => {
@@ -53,6 +65,144 @@ describe("return modeling", () => {
     expect(points).toHaveLength(3);
     expect(points[2].balanceReal).toBeCloseTo(2025.1, 2);
     expect(points[1].contributionNominal).toBeCloseTo(501); // corrigido pela inflação
+    expect(points[2].taxDeferredReal).toBe(0);
+    expect(points[2].netBalanceReal).toBe(points[2].balanceReal);
+  });
+
+  it("taxes each lot by holding period on redemption", () => {
+    const base = {
+      pvToday: 1000,
+      pmt0: 0,
+      months: 12,
+      ageNow: 30,
+      realMonthlyRate: 0.01,
+      inflationMonthlyRate: 0,
+      indexation: "inflationAdjusted" as const,
+      timing: "end" as const,
+    };
+
+    const regressive = simulateProjection({ ...base, taxRegime: "regressive" });
+    const last = regressive[12];
+    expect(last.balanceReal).toBeCloseTo(1126.83, 2);
+    expect(last.taxDeferredReal).toBeCloseTo(126.83 * 0.2, 1); // 360 dias
+    expect(last.netBalanceReal).toBeCloseTo(1101.46, 2);
+    expect(last.taxPaidReal).toBe(0);
+
+    const exempt = simulateProjection({ ...base, taxRegime: "exempt" });
+    expect(exempt[12].netBalanceReal).toBeCloseTo(1126.83, 2);
+  });
+
+  it("books end-of-month lots at that month's nominal value", () => {
+    const plan = {
+      pvToday: 10_000,
+      pmt0: 1000,
+      months: 120,
+      ageNow: 30,
+      realMonthlyRate: 0.004,
+      inflationMonthlyRate: 0.004,
+      timing: "end" as const,
+    };
+    for (const indexation of ["inflationAdjusted", "fixedNominal"] as const) {
+      const plain = simulateProjection({ ...plan, indexation });
+      const exempt = simulateProjection({
+        ...plan,
+        indexation,
+        taxRegime: "exempt",
+      });
+      expect(
+        Math.abs(exempt[120].netBalanceReal - plain[120].netBalanceReal)
+      ).toBeLessThan(0.005);
+    }
+  });
+
+  it("withholds come-cotas in May and November for funds", () => {
+    const points = simulateProjection({
+      pvToday: 1000,
+      pmt0: 0,
+      months: 12,
+      ageNow: 30,
+      realMonthlyRate: 0.01,
+      inflationMonthlyRate: 0,
+      indexation: "inflationAdjusted",
+      timing: "end",
+      taxRegime: "comeCotas",
+      startCalendarMonth: 0,
+    });
+
+    expect(points[4].taxPaidNominal).toBe(0);
+    expect(points[5].taxPaidNominal).toBeCloseTo(7.65, 2); // fim de maio
+    expect(points[12].taxPaidNominal).toBeCloseTo(17.28, 2);
+    expect(points[12].netBalanceReal).toBeCloseTo(1100.94, 2);
+  });
+});
+
+describe("multi-asset portfolio", () => {
+  const base = {
+    pvToday: 10_000,
+    pmt0: 1000,
+    months: 12,
+    ageNow: 30,
+    realMonthlyRate: 0,
+    inflationMonthlyRate: 0,
+    indexation: "inflationAdjusted" as const,
+    timing: "end" as const,
+  };
+
+  it("matches the single-asset projection when classes share a rate", () => {
+    const single = simulateProjection({ ...base, realMonthlyRate: 0.01 });
+    const multi = simulateProjection({
+      ...base,
+      portfolio: {
+        rebalance: "none",
+        classes: [
+          { key: "posFixado", targetWeight: 70, realMonthlyRate: 0.01 },
+          { key: "acoesBr", targetWeight: 30, realMonthlyRate: 0.01 },
+        ],
+      },
+    });
+
+    expect(multi[12].balanceReal).toBeCloseTo(single[12].balanceReal, 6);
+    expect(multi[12].classBalancesReal?.[0]).toBeCloseTo(
+      single[12].balanceReal * 0.7,
+      6
+    );
+    expect(single[12].classBalancesReal).toBeUndefined();
+  });
+
+  it("rebalances annually and pays tax on the sold gains", () => {
+    const portfolio = {
+      classes: [
+        {
+          key: "acoesBr" as const,
+          targetWeight: 50,
+          realMonthlyRate: 0.03,
+          taxRegime: "stocks" as const,
+        },
+        { key: "posFixado" as const, targetWeight: 50, realMonthlyRate: 0 },
+      ],
+    };
+
+    const drifted = simulateProjection({
+      ...base,
+      pmt0: 0,
+      portfolio: { ...portfolio, rebalance: "none" },
+    });
+    const [stocks, fixed] = drifted[12].classBalancesReal!;
+    expect(stocks).toBeGreaterThan(fixed);
+    expect(drifted[12].taxPaidReal).toBe(0);
+
+    const rebalanced = simulateProjection({
+      ...base,
+      pmt0: 0,
+      portfolio: { ...portfolio, rebalance: "annual" },
+    });
+    const [stocksAfter, fixedAfter] = rebalanced[12].classBalancesReal!;
+    const grown = 5000 * Math.pow(1.03, 12);
+    const sold = (grown - 5000) / 2;
+    const tax = (grown - 5000) * (sold / grown) * 0.15;
+    expect(stocksAfter).toBeCloseTo((grown + 5000) / 2, 6);
+    expect(fixedAfter).toBeCloseTo(5000 + sold - tax, 6);
+    expect(rebalanced[12].taxPaidReal).toBeCloseTo(tax, 6);
   });
 });
 
@@ -102,6 +252,679 @@ describe("targets and aporte solving", () => {
 
     expect(payment).not.toBeNull();
     expect(payment).toBeGreaterThan(0);
-    expect(payment ?? 0).toBeCloseTo(297.1, 1);
+    expect(payment ?? 0).toBeCloseTo(249.59, 1);
+  });
+});
+
+describe("required contribution", () => {
+  const plan = {
+    pvToday: 5000,
+    targetToday: 50_000,
+    months: 120,
+    ageNow: 30,
+    realMonthlyRate: 0.005,
+    inflationMonthlyRate: 0.002,
+    indexation: "inflationAdjusted" as const,
+    timing: "end" as const,
+  };
+
+  it("reaches exactly the target in the projection", () => {
+    for (const variant of [
+      plan,
+      { ...plan, timing: "begin" as const },
+      { ...plan, indexation: "fixedNominal" as const },
+      { ...plan, taxRegime: "regressive" as const, startCalendarMonth: 0 },
+    ]) {
+      const pmt0 = solveRequiredPmt(variant)!;
+      expect(finalBalanceReal({ ...variant, pmt0 })).toBeCloseTo(50_000, 2);
+      expect(finalBalanceReal({ ...variant, pmt0: pmt0 - 1 })).toBeLessThan(
+        50_000
+      );
+    }
+  });
+
+  it("reaches the target with a rate cut by the safety margin", () => {
+    const pmt0 = solveRequiredPmt({ ...plan, safetyMarginBp: 100 })!;
+    expect(pmt0).toBeGreaterThan(solveRequiredPmt(plan)!);
+
+    const cutRate = (1 + plan.realMonthlyRate) / Math.pow(1.01, 1 / 12) - 1;
+    expect(
+      finalBalanceReal({ ...plan, realMonthlyRate: cutRate, pmt0 })
+    ).toBeCloseTo(50_000, 2);
+  });
+
+  it("cuts every rate of the plan by the haircut", () => {
+    const cut = applyRateHaircut(
+      {
+        ...plan,
+        pmt0: 0,
+        ratePath: { realMonthly: [0.01, 0.02], inflationMonthly: [0, 0] },
+        portfolio: {
+          rebalance: "none" as const,
+          classes: [
+            { key: "posFixado" as const, targetWeight: 1, realMonthlyRate: 0 },
+          ],
+        },
+      },
+      1200
+    );
+    const factor = Math.pow(1.12, 1 / 12);
+    expect(cut.realMonthlyRate).toBeCloseTo(1.005 / factor - 1, 12);
+    expect(cut.ratePath!.realMonthly[1]).toBeCloseTo(1.02 / factor - 1, 12);
+    expect(cut.portfolio!.classes[0].realMonthlyRate).toBeCloseTo(
+      1 / factor - 1,
+      12
+    );
+    const untouched = { ...plan, pmt0: 0 };
+    expect(applyRateHaircut(untouched, 0)).toBe(untouched);
+  });
+});
+
+describe("contribution schedule", () => {
+  const plan = {
+    pvToday: 0,
+    pmt0: 1000,
+    months: 36,
+    ageNow: 30,
+    realMonthlyRate: 0.004,
+    inflationMonthlyRate: 0.003,
+    indexation: "inflationAdjusted" as const,
+    timing: "end" as const,
+    startCalendarMonth: 0,
+    schedule: {
+      realRaiseAnnualRate: 0.05,
+      thirteenth: true,
+      bonusMultiple: 1,
+      bonusCalendarMonth: 2,
+      events: [{ kind: "pause" as const, month: 18, months: 6 }],
+    },
+  };
+
+  it("reports the scheduled contribution month by month", () => {
+    const points = simulateProjection(plan);
+    expect(points[0].contributionReal).toBe(1000);
+    expect(points[2].contributionReal).toBe(2000); // PLR em março
+    expect(points[11].contributionReal).toBe(2000); // 13º em dezembro
+    expect(points[12].contributionReal).toBeCloseTo(1050, 8);
+    expect(points[20].contributionReal).toBe(0);
+    expect(points[20].contributionNominal).toBe(0);
+    expect(points[12].contributionNominal).toBeCloseTo(
+      1050 * points[12].inflFactor,
+      8
+    );
+  });
+
+  it("solves a base contribution that reaches the target with the schedule", () => {
+    const target = { ...plan, targetToday: 60_000 };
+    const pmt0 = solveRequiredPmt(target)!;
+    expect(pmt0).toBeLessThan(
+      solveRequiredPmt({ ...target, schedule: undefined })!
+    );
+    expect(finalBalanceReal({ ...target, pmt0 })).toBeCloseTo(60_000, 2);
+    expect(monthsToTarget({ ...target, pmt0 })).toBe(36);
+  });
+});
+
+describe("contributors", () => {
+  const plan = {
+    pvToday: 0,
+    pmt0: 1000,
+    months: 48,
+    ageNow: 30,
+    realMonthlyRate: 0.004,
+    inflationMonthlyRate: 0.003,
+    indexation: "inflationAdjusted" as const,
+    timing: "end" as const,
+    contributors: [
+      { share: 0.7, startMonth: 0, endMonth: 36 },
+      { share: 0.3, startMonth: 6, endMonth: null },
+    ],
+  };
+
+  it("sums the contribution streams month by month", () => {
+    const points = simulateProjection(plan);
+    expect(points[0].contributionReal).toBeCloseTo(700, 8);
+    expect(points[6].contributionReal).toBeCloseTo(1000, 8);
+    expect(points[36].contributionReal).toBeCloseTo(300, 8);
+  });
+
+  it("applies the schedule over the household contribution", () => {
+    const points = simulateProjection({
+      ...plan,
+      startCalendarMonth: 0,
+      schedule: {
+        realRaiseAnnualRate: 0,
+        thirteenth: true,
+        bonusMultiple: 0,
+        bonusCalendarMonth: 0,
+        events: [{ kind: "extra" as const, month: 40, amount: 500 }],
+      },
+    });
+    expect(points[11].contributionReal).toBeCloseTo(2000, 8);
+    expect(points[40].contributionReal).toBeCloseTo(800, 8);
+  });
+
+  it("solves the household contribution that reaches the target", () => {
+    const target = { ...plan, targetToday: 40_000 };
+    const pmt0 = solveRequiredPmt(target)!;
+    expect(pmt0).toBeGreaterThan(
+      solveRequiredPmt({ ...target, contributors: undefined })!
+    );
+    expect(finalBalanceReal({ ...target, pmt0 })).toBeCloseTo(40_000, 2);
+  });
+});
+
+describe("emergency reserve", () => {
+  const plan = {
+    pvToday: 10_000,
+    pmt0: 1000,
+    months: 60,
+    ageNow: 30,
+    realMonthlyRate: 0.005,
+    inflationMonthlyRate: 0.003,
+    indexation: "inflationAdjusted" as const,
+    timing: "end" as const,
+    reserve: { targetReal: 5500, startReal: 1000, realMonthlyRate: 0 },
+  };
+
+  it("fills the reserve before contributing to the goal", () => {
+    const points = simulateProjection(plan);
+    expect(points[0].reserveReal).toBe(1000);
+    expect(points[4].reserveReal).toBeCloseTo(5000, 8);
+    expect(points[5].reserveReal).toBeCloseTo(5500, 8);
+    expect(points[60].reserveReal).toBeCloseTo(5500, 8);
+    // Até o mês 4 o saldo da meta só rende
+    expect(points[4].balanceReal).toBeCloseTo(10_000 * 1.005 ** 4, 6);
+    expect(points[5].balanceReal).toBeCloseTo(10_000 * 1.005 ** 5 + 500, 6);
+    expect(points[5].reserveNominal).toBeCloseTo(
+      5500 * points[5].inflFactor,
+      8
+    );
+    expect(
+      simulateProjection({ ...plan, reserve: undefined })[0].reserveReal
+    ).toBeUndefined();
+  });
+
+  it("delays the goal and asks for more", () => {
+    const target = { ...plan, targetToday: 80_000 };
+    const without = { ...target, reserve: undefined };
+    expect(monthsToTarget(target)!).toBeGreaterThan(monthsToTarget(without)!);
+    const pmt0 = solveRequiredPmt(target)!;
+    expect(pmt0).toBeGreaterThan(solveRequiredPmt(without)!);
+    expect(finalBalanceReal({ ...target, pmt0 })).toBeCloseTo(80_000, 2);
+  });
+});
+
+describe("one-off events", () => {
+  const plan = {
+    pvToday: 10_000,
+    pmt0: 500,
+    months: 60,
+    ageNow: 30,
+    realMonthlyRate: 0.005,
+    inflationMonthlyRate: 0.004,
+    indexation: "inflationAdjusted" as const,
+    timing: "end" as const,
+  };
+
+  it("adds a windfall and removes a withdrawal at their months", () => {
+    const base = simulateProjection(plan);
+    const points = simulateProjection({
+      ...plan,
+      events: [
+        { month: 12, amountReal: 20_000, label: "Herança" },
+        { month: 36, amountReal: -15_000, label: "Carro" },
+      ],
+    });
+    expect(points[11].balanceReal).toBeCloseTo(base[11].balanceReal, 6);
+    expect(points[12].eventReal).toBe(20_000);
+    expect(points[12].balanceReal - base[12].balanceReal).toBeCloseTo(
+      20_000,
+      6
+    );
+    expect(points[36].eventReal).toBeCloseTo(-15_000, 6);
+    expect(points[35].balanceReal - points[36].balanceReal).toBeGreaterThan(
+      14_000
+    );
+    expect(points[13].eventReal).toBeUndefined();
+  });
+
+  it("grosses up withdrawals so the net amount leaves after tax", () => {
+    const taxed = { ...plan, taxRegime: "regressive" as const };
+    const before = simulateProjection(taxed)[36];
+    const after = simulateProjection({
+      ...taxed,
+      events: [{ month: 36, amountReal: -15_000 }],
+    })[36];
+    expect(after.eventReal).toBeCloseTo(-15_000, 6);
+    expect(after.netBalanceReal).toBeCloseTo(before.netBalanceReal - 15_000, 4);
+    expect(after.taxPaidReal).toBeGreaterThan(0);
+  });
+
+  it("empties the balance when the withdrawal is larger than it", () => {
+    const points = simulateProjection({
+      ...plan,
+      events: [{ month: 6, amountReal: -1_000_000 }],
+    });
+    expect(points[6].balanceReal).toBeCloseTo(0, 6);
+    expect(points[6].eventReal!).toBeGreaterThan(-1_000_000);
+  });
+
+  it("is taken into account by the solvers", () => {
+    const target = { ...plan, targetToday: 60_000 };
+    const events = [{ month: 24, amountReal: -20_000 }];
+    const pmt0 = solveRequiredPmt({ ...target, events })!;
+    expect(pmt0).toBeGreaterThan(solveRequiredPmt(target)!);
+    expect(finalBalanceReal({ ...target, events, pmt0 })).toBeCloseTo(
+      60_000,
+      2
+    );
+    expect(
+      monthsToTarget({
+        ...target,
+        events: [{ month: 10, amountReal: 60_000 }],
+      })
+    ).toBe(10);
+  });
+});
+
+describe("reverse solvers", () => {
+  const plan = {
+    pvToday: 5000,
+    pmt0: 300,
+    months: 120,
+    ageNow: 30,
+    inflationMonthlyRate: 0.004,
+    indexation: "inflationAdjusted" as const,
+    timing: "end" as const,
+    targetToday: 60_000,
+  };
+
+  it("solves the return rate that reaches the target", () => {
+    const rate = solveRequiredRate(plan);
+    expect(rate).not.toBeNull();
+    expect(
+      finalBalanceReal({ ...plan, realMonthlyRate: rate!.realMonthlyRate })
+    ).toBeCloseTo(60_000, 2);
+    expect(rate!.grossMonthlyRate).toBeCloseTo(
+      (1 + rate!.realMonthlyRate) * 1.004 - 1,
+      10
+    );
+    expect(rate!.realAnnualRate).toBeCloseTo(
+      Math.pow(1 + rate!.realMonthlyRate, 12) - 1,
+      10
+    );
+  });
+
+  it("tests the 100% a month ceiling before giving up", () => {
+    const steep = { ...plan, pvToday: 1000, pmt0: 0, months: 1 };
+    const rate = solveRequiredRate({ ...steep, targetToday: 1800 });
+    expect(rate!.realMonthlyRate).toBeCloseTo(0.8, 8);
+    expect(
+      solveRequiredRate({ ...steep, targetToday: 2000 })!.realMonthlyRate
+    ).toBeCloseTo(1, 8);
+    expect(solveRequiredRate({ ...steep, targetToday: 2001 })).toBeNull();
+  });
+
+  it("returns null when no plausible rate reaches the target", () => {
+    expect(solveRequiredRate({ ...plan, pvToday: 0, pmt0: 0 })).toBeNull();
+  });
+
+  it("solves the starting balance that reaches the target", () => {
+    const pv = solveRequiredPv({ ...plan, realMonthlyRate: 0.005 });
+    expect(pv).not.toBeNull();
+    expect(
+      finalBalanceReal({ ...plan, realMonthlyRate: 0.005, pvToday: pv! })
+    ).toBeCloseTo(60_000, 2);
+    expect(
+      solveRequiredPv({ ...plan, realMonthlyRate: 0.005, pmt0: 10_000 })
+    ).toBe(0);
+  });
+});
+
+// Não muda nenhum aporte, mas obriga os resolvedores a simular mês a mês
+const NEUTRAL_SCHEDULE: ContributionSchedule = {
+  realRaiseAnnualRate: 0,
+  thirteenth: false,
+  bonusMultiple: 0,
+  bonusCalendarMonth: 0,
+  events: [],
+};
+
+// Planos aleatórios (semente fixa) no caso em que há fórmula fechada
+function randomPlans(seed: number, count: number) {
+  const rng = createRng(seed);
+  const pick = <T>(options: T[]) => options[Math.floor(rng() * options.length)];
+  return Array.from({ length: count }, () => ({
+    pvToday: Math.round(rng() * 200_000),
+    pmt0: Math.round(rng() * 5_000),
+    months: 1 + Math.floor(rng() * 480),
+    ageNow: 30,
+    realMonthlyRate: -0.002 + rng() * 0.012,
+    inflationMonthlyRate: rng() * 0.008,
+    indexation: pick(["inflationAdjusted", "fixedNominal"] as const),
+    timing: pick(["end", "begin"] as const),
+    taxRegime: pick([undefined, "exempt"] as const),
+    targetToday: 100_000 + Math.round(rng() * 2_000_000),
+  }));
+}
+
+function iterative<T extends ProjectionParams>(params: T): T {
+  return { ...params, schedule: NEUTRAL_SCHEDULE };
+}
+
+describe("closed-form annuities", () => {
+  it("matches the month-by-month balance within a cent", () => {
+    for (const plan of randomPlans(1, 200)) {
+      const points = simulateProjection(plan);
+      const simulated = points[points.length - 1].netBalanceReal;
+      expect(Math.abs(finalBalanceReal(plan) - simulated)).toBeLessThan(0.01);
+    }
+  });
+
+  it("gives an exempt plan the same balance as a plan without regime", () => {
+    for (const plan of randomPlans(6, 100)) {
+      const plain = simulateProjection({ ...plan, taxRegime: undefined });
+      const exempt = simulateProjection({ ...plan, taxRegime: "exempt" });
+      expect(
+        Math.abs(
+          exempt[exempt.length - 1].netBalanceReal -
+            plain[plain.length - 1].netBalanceReal
+        )
+      ).toBeLessThan(0.01);
+      expect(
+        Math.abs(
+          finalBalanceReal({ ...plan, taxRegime: "exempt" }) -
+            finalBalanceReal({ ...plan, taxRegime: undefined })
+        )
+      ).toBeLessThan(0.01);
+    }
+  });
+
+  it("solves the required contribution like the bisection", () => {
+    for (const plan of randomPlans(2, 60)) {
+      const closed = solveRequiredPmt(plan);
+      const bisected = solveRequiredPmt(iterative(plan));
+      if (bisected == null) {
+        expect(closed).toBeNull();
+      } else {
+        expect(Math.abs(closed! - bisected)).toBeLessThan(0.01);
+      }
+    }
+  });
+
+  it("applies the safety margin to the closed form too", () => {
+    for (const plan of randomPlans(3, 20)) {
+      const params = { ...plan, safetyMarginBp: 150 };
+      const closed = solveRequiredPmt(params);
+      const bisected = solveRequiredPmt(iterative(params));
+      expect(Math.abs((closed ?? 0) - (bisected ?? 0))).toBeLessThan(0.01);
+    }
+  });
+
+  it("finds the same month as the simulation", () => {
+    for (const plan of randomPlans(4, 120)) {
+      expect(monthsToTarget(plan)).toBe(monthsToTarget(iterative(plan)));
+    }
+  });
+
+  it("solves the required starting balance like the bisection", () => {
+    for (const plan of randomPlans(5, 60)) {
+      const closed = solveRequiredPv(plan);
+      const bisected = solveRequiredPv(iterative(plan));
+      expect(Math.abs(closed! - bisected!)).toBeLessThan(0.01);
+    }
+  });
+});
+
+describe("term structure of rates", () => {
+  const fallback = { grossMonthlyRate: 0.008, inflationMonthlyRate: 0.003 };
+  const path = ratePathFromPhases(
+    [
+      { years: 1, grossAnnualRate: 0.15, inflationAnnualRate: 0.06 },
+      { years: 0.5, grossAnnualRate: null, inflationAnnualRate: 0.05 },
+    ],
+    fallback
+  );
+  const params: ProjectionParams = {
+    pvToday: 10000,
+    pmt0: 500,
+    months: 36,
+    ageNow: 30,
+    realMonthlyRate: realMonthlyRateFromGross({
+      ...fallback,
+      taxOnGainsRate: 0,
+    }),
+    inflationMonthlyRate: 0.003,
+    indexation: "inflationAdjusted",
+    timing: "end",
+    ratePath: path,
+  };
+
+  it("expands each phase month by month", () => {
+    expect(path.realMonthly).toHaveLength(18);
+    expect(path.inflationMonthly[0]).toBe(annualToMonthlyRate(0.06));
+    expect(path.inflationMonthly[12]).toBe(annualToMonthlyRate(0.05));
+    expect(path.realMonthly[12]).toBeCloseTo(
+      1.008 / (1 + annualToMonthlyRate(0.05)) - 1,
+      12
+    );
+  });
+
+  it("accumulates inflation along the path and then the long-run rate", () => {
+    const points = simulateProjection(params);
+    expect(points[12].inflFactor).toBeCloseTo(
+      Math.pow(1 + annualToMonthlyRate(0.06), 12),
+      12
+    );
+    expect(points[36].inflFactor).toBeCloseTo(
+      inflationFactorAt(36, 0.003, path),
+      12
+    );
+    expect(points[36].inflFactor / points[18].inflFactor).toBeCloseTo(
+      Math.pow(1.003, 18),
+      12
+    );
+  });
+
+  it("is used by the solvers", () => {
+    const target = { ...params, targetToday: 60000 };
+    const flat = { ...target, ratePath: undefined };
+    const pmt = solveRequiredPmt(target)!;
+    expect(pmt).toBeLessThan(solveRequiredPmt(flat)!);
+    expect(finalBalanceReal({ ...target, pmt0: pmt })).toBeCloseTo(60000, 0);
+  });
+});
+
+describe("glide path", () => {
+  const params: ProjectionParams = {
+    pvToday: 10000,
+    pmt0: 0,
+    months: 24,
+    ageNow: 40,
+    realMonthlyRate: 0.01,
+    inflationMonthlyRate: 0,
+    indexation: "inflationAdjusted",
+    timing: "end",
+    glidePath: { startMonth: 12, months: 12, realMonthlyRate: 0.002 },
+  };
+
+  it("moves the rate in a straight line to the preservation profile", () => {
+    const glide = params.glidePath!;
+    expect(glideWeight(glide, 10)).toBe(0);
+    expect(glideWeight(glide, 12)).toBeCloseTo(1 / 12, 12);
+    expect(glideWeight(glide, 23)).toBe(1);
+    expect(glideWeight(glide, 40)).toBe(1);
+
+    const points = simulateProjection(params);
+    expect(points[12].balanceReal).toBeCloseTo(10000 * Math.pow(1.01, 12), 6);
+    const lastMonth = points[24].balanceReal / points[23].balanceReal - 1;
+    expect(lastMonth).toBeCloseTo(0.002, 12);
+  });
+
+  it("is used by the solvers", () => {
+    const target = { ...params, pmt0: 300, targetToday: 25000 };
+    const flat = { ...target, glidePath: undefined };
+    expect(solveRequiredPmt(target)!).toBeGreaterThan(solveRequiredPmt(flat)!);
+    expect(monthsToTarget(target)!).toBeGreaterThan(monthsToTarget(flat)!);
+  });
+});
+
+describe("investment fees", () => {
+  const base: ProjectionParams = {
+    pvToday: 10000,
+    pmt0: 100,
+    months: 12,
+    ageNow: 30,
+    realMonthlyRate: 0,
+    inflationMonthlyRate: 0,
+    indexation: "inflationAdjusted",
+    timing: "end",
+  };
+  const noFees = {
+    adminAnnualRate: 0,
+    custodyAnnualRate: 0,
+    performanceRate: 0,
+    performanceBenchmarkMonthlyRate: 0,
+    brokeragePerContribution: 0,
+  };
+
+  it("charges administration and custody on the balance every month", () => {
+    const points = simulateProjection({
+      ...base,
+      pmt0: 0,
+      fees: { ...noFees, adminAnnualRate: 0.01, custodyAnnualRate: 0.002 },
+    });
+    const last = points[points.length - 1];
+    expect(last.balanceReal).toBeCloseTo(10000 * Math.pow(1 - 0.001, 12), 8);
+    expect(last.feesPaidReal).toBeCloseTo(10000 - last.balanceReal, 8);
+    expect(points[0].feesPaidReal).toBe(0);
+  });
+
+  it("takes the brokerage out of each contribution", () => {
+    const points = simulateProjection({
+      ...base,
+      fees: { ...noFees, brokeragePerContribution: 10 },
+    });
+    const last = points[points.length - 1];
+    expect(last.balanceReal).toBeCloseTo(10000 + 12 * 90, 8);
+    expect(last.feesPaidReal).toBeCloseTo(120, 8);
+    // O aporte do ponto continua sendo o que saiu do bolso
+    expect(last.contributionReal).toBe(100);
+  });
+
+  it("charges performance only above the benchmark", () => {
+    const fees = {
+      ...noFees,
+      performanceRate: 0.2,
+      performanceBenchmarkMonthlyRate: 0.005,
+    };
+    const above = simulateProjection({
+      ...base,
+      pmt0: 0,
+      months: 1,
+      realMonthlyRate: 0.01,
+      fees,
+    });
+    expect(above[1].balanceReal).toBeCloseTo(10000 * (1.01 - 0.2 * 0.005), 8);
+
+    const below = simulateProjection({
+      ...base,
+      pmt0: 0,
+      months: 1,
+      realMonthlyRate: 0.004,
+      fees,
+    });
+    expect(below[1].feesPaidReal).toBe(0);
+  });
+
+  it("charges fees inside the tax lots and the solvers", () => {
+    const params = {
+      ...base,
+      months: 120,
+      realMonthlyRate: 0.004,
+      inflationMonthlyRate: 0.004,
+      taxRegime: "regressive" as const,
+      targetToday: 50000,
+    };
+    const fees = { ...noFees, adminAnnualRate: 0.01 };
+    expect(finalBalanceReal({ ...params, fees })).toBeLessThan(
+      finalBalanceReal(params)
+    );
+    expect(solveRequiredPmt({ ...params, fees })!).toBeGreaterThan(
+      solveRequiredPmt(params)!
+    );
+    // Sem taxas de fato, o resultado é o mesmo de não informar
+    expect(finalBalanceReal({ ...params, fees: noFees })).toBe(
+      finalBalanceReal(params)
+    );
+  });
+});
+
+describe("decumulation phase", () => {
+  const base = {
+    startBalanceReal: 1_000_000,
+    startMonth: 360,
+    startInflFactor: 2,
+    ageStart: 60,
+    ageEnd: 90,
+    realMonthlyRate: 0.003,
+    inflationMonthlyRate: 0.004,
+    rule: "fixedReal" as const,
+    monthlyWithdrawalReal: 0,
+    annualWithdrawalRate: 0.04,
+  };
+
+  it("lasts exactly to life expectancy with the sustainable withdrawal", () => {
+    const w = sustainableWithdrawal({
+      startBalanceReal: 1_000_000,
+      months: 360,
+      realMonthlyRate: 0.003,
+    });
+    const result = simulateDecumulation({ ...base, monthlyWithdrawalReal: w });
+    const last = result.points[result.points.length - 1];
+
+    expect(result.points[0].month).toBe(360);
+    expect(result.points[0].balanceNominal).toBe(2_000_000);
+    expect(last.age).toBeCloseTo(90);
+    expect(last.balanceReal).toBeCloseTo(0, 2);
+    expect(result.depletionAge).toBeNull();
+    expect(result.totalWithdrawnReal).toBeCloseTo(w * 360, 2);
+  });
+
+  it("reports the depletion age when withdrawals are too high", () => {
+    const w = sustainableWithdrawal({
+      startBalanceReal: 1_000_000,
+      months: 360,
+      realMonthlyRate: 0.003,
+    });
+    const result = simulateDecumulation({
+      ...base,
+      monthlyWithdrawalReal: w * 1.3,
+    });
+    expect(result.depletionAge).not.toBeNull();
+    expect(result.depletionAge!).toBeGreaterThan(70);
+    expect(result.depletionAge!).toBeLessThan(90);
+  });
+
+  it("never depletes when withdrawing a percentage of the balance", () => {
+    const result = simulateDecumulation({ ...base, rule: "percentOfBalance" });
+    expect(result.depletionAge).toBeNull();
+    expect(result.points[0].contributionReal).toBeCloseTo(
+      (-1_000_000 * 0.04) / 12
+    );
+  });
+
+  it("cuts withdrawals when the guardrail is breached", () => {
+    const result = simulateDecumulation({
+      ...base,
+      rule: "guardrails",
+      realMonthlyRate: 0,
+      monthlyWithdrawalReal: 8000,
+    });
+    const firstYear = -result.points[0].contributionReal;
+    const later = -result.points[48].contributionReal;
+    expect(firstYear).toBe(8000);
+    expect(later).toBeLessThan(8000);
   });
 });
@@ -1,5 +1,32 @@
+import { contributionAfterBrokerage, feeRetention, hasFees } from "./fees";
+import type { InvestmentFees } from "./fees";
+import {
+  normalizedWeights,
+  rebalanceTrades,
+  routeContribution,
+} from "./portfolio";
+import type { Portfolio } from "./portfolio";
+import { contributorsShare, scheduledContribution } from "./schedule";
+import type { Contributor, ContributionSchedule } from "./schedule";
+import {
+  addLot,
+  advanceLedger,
+  createTaxLedger,
+  isComeCotasMonth,
+  ledgerValue,
+  redeemFromLedger,
+  taxDueOnRedemption,
+  withholdComeCotas,
+} from "./tax";
+import type { TaxLedger, TaxRegime } from "./tax";
+
 export type BenchmarkKey = "investidor" | "populacao";
-export type ScenarioKey = "pessimista" | "base" | "otimista" | "personalizado";
+export type ScenarioKey =
+  | "pessimista"
+  | "base"
+  | "otimista"
+  | "personalizado"
+  | "produto";
 export type ContributionIndexation = "inflationAdjusted" | "fixedNominal";
 export type ContributionTiming = "end" | "begin";
 
@@ -11,8 +38,122 @@ export type SimulationPoint = {
   balanceNominal: number;
   contributionNominal: number;
   contributionReal: number;
+  // IR que seria cobrado se tudo fosse resgatado neste mês
+  taxDeferredReal: number;
+  taxDeferredNominal: number;
+  // IR já recolhido (come-cotas e vendas no rebalanceamento), acumulado
+  // desde o mês 0
+  taxPaidReal: number;
+  taxPaidNominal: number;
+  // Taxas de administração, custódia, performance e corretagem já
+  // descontadas, acumuladas desde o mês 0
+  feesPaidReal: number;
+  feesPaidNominal: number;
+  // Saldo líquido do IR devido no resgate
+  netBalanceReal: number;
+  netBalanceNominal: number;
+  // Saldo real (bruto) por classe, na ordem de `portfolio.classes`
+  classBalancesReal?: number[];
+  // Reserva de emergência (fora dos saldos acima e da meta)
+  reserveReal?: number;
+  reserveNominal?: number;
+  // Eventos pontuais aplicados neste mês (R$ de hoje): positivo entrou,
+  // negativo saiu (líquido do IR)
+  eventReal?: number;
+};
+
+// Entrada ou saída pontual de dinheiro, em R$ de hoje. Retiradas (valor
+// negativo) resgatam o necessário para sobrar o valor líquido do IR.
+export type PlanEvent = {
+  month: number;
+  amountReal: number;
+  label?: string;
+};
+
+// Taxas mês a mês (índice = mês da projeção). Meses sem valor usam as taxas
+// constantes de `ProjectionParams`.
+export type RatePath = {
+  realMonthly: number[];
+  inflationMonthly: number[];
+};
+
+// Fase da curva de taxas (ex.: expectativas do Focus para os próximos anos).
+// `null` usa a taxa constante do plano naquela fase.
+export type RatePhase = {
+  years: number;
+  grossAnnualRate: number | null; // bruto nominal
+  inflationAnnualRate: number | null;
+};
+
+// Transição para um perfil de preservação perto da meta: a partir de
+// `startMonth`, a taxa real de cada mês anda em linha reta até
+// `realMonthlyRate` em `months` meses e fica nela depois disso.
+export type GlidePath = {
+  startMonth: number;
+  months: number;
+  realMonthlyRate: number; // antes do IR
+  // Volatilidade bruta mensal do perfil de preservação (Monte Carlo)
+  grossMonthlyVolatility?: number;
+};
+
+// Reserva de emergência preenchida antes do objetivo: os aportes vão para ela
+// até `targetReal` (R$ de hoje) e só depois para a carteira da meta. Ela rende
+// `realMonthlyRate` (líquida, sem IR nem taxas) e não conta para a meta.
+export type EmergencyReserve = {
+  targetReal: number;
+  startReal: number; // o que já está guardado hoje (fora de `pvToday`)
+  realMonthlyRate: number;
+};
+
+export type ProjectionParams = {
+  pvToday: number;
+  pmt0: number;
+  months: number;
+  ageNow: number;
+  realMonthlyRate: number;
+  inflationMonthlyRate: number;
+  indexation: ContributionIndexation;
+  timing: ContributionTiming;
+  // Com regime de IR, `realMonthlyRate` é a taxa real *antes* do imposto e o
+  // IR é calculado por aporte (lote) dentro da projeção.
+  taxRegime?: TaxRegime;
+  // Mês do calendário (0 = janeiro) do mês 0 da projeção; define quando cai
+  // o come-cotas.
+  startCalendarMonth?: number;
+  // Trajetória de taxas (ex.: Monte Carlo); com ela o fator de inflação é
+  // acumulado mês a mês.
+  ratePath?: RatePath;
+  // Carteira com várias classes: cada uma usa a própria taxa e regime de IR
+  // (ignorando `realMonthlyRate`, `taxRegime` e `ratePath.realMonthly`).
+  portfolio?: Portfolio;
+  // Aumentos, 13º, PLR, pausas e aportes extras sobre `pmt0`
+  schedule?: ContributionSchedule;
+  // Várias pessoas aportando (ex.: casal): o aporte regular do mês é
+  // `pmt0` vezes a soma das frações de quem está aportando
+  contributors?: Contributor[];
+  // Compras, heranças etc. Aplicados no início do mês indicado
+  events?: PlanEvent[];
+  // Custos descontados todo mês (valem para todas as classes)
+  fees?: InvestmentFees;
+  // Vale para todas as classes e para a trajetória de taxas
+  glidePath?: GlidePath;
+  reserve?: EmergencyReserve;
+};
+
+// Uma "fatia" da carteira: a projeção de ativo único tem uma só.
+type Sleeve = {
+  ledger: TaxLedger | null;
+  balanceReal: number; // usado só sem ledger; com ledger vem dos lotes
+  realMonthlyRate: number | null; // null = taxa do cenário/trajetória
+  weight: number;
 };
 
+function sleeveReal(sleeve: Sleeve, inflFactor: number) {
+  return sleeve.ledger
+    ? ledgerValue(sleeve.ledger) / inflFactor
+    : sleeve.balanceReal;
+}
+
 export function parseNumberBR(value: string): number {
   const v = value
     .trim()
@@ -44,9 +185,9 @@ export function realMonthlyRateFromGross(params: {
   inflationMonthlyRate: number;
 }) {
   const g = params.grossMonthlyRate;
-  // Imposto “efetivo”: aproximamos como 30% da alíquota informada,
-  // para refletir a diluição ao longo de vários meses.
-  const tax = clamp(params.taxOnGainsRate * 0.3, 0, 1);
+  // Alíquota aplicada integralmente sobre o ganho bruto do mês. O IR por
+  // prazo/produto fica em `./tax` (via `taxRegime` na projeção).
+  const tax = clamp(params.taxOnGainsRate, 0, 1);
   const infl = params.inflationMonthlyRate;
 
   const netNominal = 1 + g * (1 - tax);
@@ -55,16 +196,64 @@ export function realMonthlyRateFromGross(params: {
   return clamp(real, -0.99, 10);
 }
 
-export function simulateProjection(params: {
-  pvToday: number;
-  pmt0: number;
-  months: number;
-  ageNow: number;
-  realMonthlyRate: number;
-  inflationMonthlyRate: number;
-  indexation: ContributionIndexation;
-  timing: ContributionTiming;
-}) {
+/**
+ * Trajetória mês a mês das fases da curva. Depois da última fase a projeção
+ * volta às taxas constantes do plano (`RatePath` sem valor para o mês).
+ */
+export function ratePathFromPhases(
+  phases: RatePhase[],
+  fallback: { grossMonthlyRate: number; inflationMonthlyRate: number }
+): RatePath {
+  const realMonthly: number[] = [];
+  const inflationMonthly: number[] = [];
+  for (const phase of phases) {
+    const gross =
+      phase.grossAnnualRate == null
+        ? fallback.grossMonthlyRate
+        : annualToMonthlyRate(phase.grossAnnualRate);
+    const infl =
+      phase.inflationAnnualRate == null
+        ? fallback.inflationMonthlyRate
+        : annualToMonthlyRate(phase.inflationAnnualRate);
+    const real = realMonthlyRateFromGross({
+      grossMonthlyRate: gross,
+      taxOnGainsRate: 0,
+      inflationMonthlyRate: infl,
+    });
+    const months = Math.max(0, Math.round(phase.years * 12));
+    for (let k = 0; k < months; k++) {
+      realMonthly.push(real);
+      inflationMonthly.push(infl);
+    }
+  }
+  return { realMonthly, inflationMonthly };
+}
+
+/** Peso do perfil de preservação no rendimento do mês `month` (0 a 1). */
+export function glideWeight(glide: GlidePath, month: number): number {
+  if (glide.months <= 0) return month >= glide.startMonth ? 1 : 0;
+  return clamp((month + 1 - glide.startMonth) / glide.months, 0, 1);
+}
+
+/** Inflação acumulada até o mês `months`, seguindo a trajetória se houver. */
+export function inflationFactorAt(
+  months: number,
+  inflationMonthlyRate: number,
+  ratePath?: RatePath
+): number {
+  let factor = 1;
+  for (let m = 0; m < months; m++) {
+    factor *= 1 + (ratePath?.inflationMonthly[m] ?? inflationMonthlyRate);
+  }
+  return factor;
+}
+
+// Passo a passo comum a todas as funções do motor. `visit` recebe cada mês
+// (inclusive o 0) e pode devolver `true` para encerrar a projeção.
+function runProjection(
+  params: ProjectionParams,
+  visit: (point: SimulationPoint) => boolean | void
+) {
   const {
     pvToday,
     pmt0,
@@ -74,23 +263,112 @@ export function simulateProjection(params: {
     inflationMonthlyRate: inflM,
     indexation,
     timing,
+    taxRegime,
+    startCalendarMonth = 0,
+    ratePath,
+    portfolio,
+    schedule,
+    contributors,
+    events = [],
+    fees,
+    glidePath,
+    reserve,
   } = params;
 
-  const points: SimulationPoint[] = [];
-  let balanceReal = Math.max(0, pvToday);
+  const pv = Math.max(0, pvToday);
+  const sleeves: Sleeve[] = portfolio
+    ? normalizedWeights(portfolio.classes).map((weight, i) => ({
+        ledger: createTaxLedger(portfolio.classes[i].taxRegime ?? "exempt"),
+        balanceReal: 0,
+        realMonthlyRate: portfolio.classes[i].realMonthlyRate,
+        weight,
+      }))
+    : [
+        {
+          ledger: taxRegime ? createTaxLedger(taxRegime) : null,
+          balanceReal: 0,
+          realMonthlyRate: null,
+          weight: 1,
+        },
+      ];
+  const weights = sleeves.map((s) => s.weight);
+
+  const deposit = (
+    sleeve: Sleeve,
+    lotMonth: number,
+    real: number,
+    nominal: number
+  ) => {
+    if (sleeve.ledger) addLot(sleeve.ledger, lotMonth, nominal);
+    else sleeve.balanceReal += real;
+  };
+  for (const sleeve of sleeves)
+    deposit(sleeve, 0, pv * sleeve.weight, pv * sleeve.weight);
+
+  let taxPaidReal = 0;
+  let feesPaidReal = 0;
+  let feesPaidNominal = 0;
+  let inflFactor = 1;
+  let reserveReal = reserve ? Math.max(0, reserve.startReal) : 0;
 
   for (let m = 0; m <= months; m++) {
-    const inflFactor = Math.pow(1 + inflM, m);
+    let eventReal: number | undefined;
+    for (const event of events) {
+      if (event.month !== m || event.amountReal === 0) continue;
+      if (event.amountReal > 0) {
+        const shares =
+          sleeves.length === 1
+            ? [1]
+            : routeContribution(
+                sleeves.map((s) => sleeveReal(s, inflFactor)),
+                weights,
+                event.amountReal
+              );
+        sleeves.forEach((sleeve, i) =>
+          deposit(
+            sleeve,
+            m,
+            event.amountReal * shares[i],
+            event.amountReal * shares[i] * inflFactor
+          )
+        );
+        eventReal = (eventReal ?? 0) + event.amountReal;
+      } else {
+        const out = withdrawFromSleeves(
+          sleeves,
+          m,
+          -event.amountReal,
+          inflFactor
+        );
+        taxPaidReal += out.taxReal;
+        eventReal = (eventReal ?? 0) - out.netReal;
+      }
+    }
+
+    const base = contributors
+      ? pmt0 * contributorsShare(contributors, m)
+      : pmt0;
+    const pmt = schedule
+      ? scheduledContribution(schedule, base, m, startCalendarMonth + m)
+      : base;
 
     const contributionNominal =
-      indexation === "inflationAdjusted" ? pmt0 * inflFactor : pmt0;
+      indexation === "inflationAdjusted" ? pmt * inflFactor : pmt;
 
     const contributionReal =
-      indexation === "inflationAdjusted" ? pmt0 : pmt0 / inflFactor;
+      indexation === "inflationAdjusted" ? pmt : pmt / inflFactor;
 
+    const classBalancesReal = sleeves.map((s) => sleeveReal(s, inflFactor));
+    const balanceReal = classBalancesReal.reduce((sum, b) => sum + b, 0);
     const balanceNominal = balanceReal * inflFactor;
+    let taxDeferredNominal = 0;
+    for (const sleeve of sleeves) {
+      if (sleeve.ledger)
+        taxDeferredNominal += taxDueOnRedemption(sleeve.ledger, m);
+    }
+    const taxDeferredReal = taxDeferredNominal / inflFactor;
 
-    points.push({
+    const stop = visit({
       month: m,
       age: ageNow + m / 12,
       inflFactor,
@@ -98,102 +376,363 @@ export function simulateProjection(params: {
       balanceNominal,
       contributionNominal,
       contributionReal,
+      taxDeferredReal,
+      taxDeferredNominal,
+      taxPaidReal,
+      taxPaidNominal: sleeves.reduce(
+        (sum, s) => sum + (s.ledger?.paidNominal ?? 0),
+        0
+      ),
+      feesPaidReal,
+      feesPaidNominal,
+      netBalanceReal: balanceReal - taxDeferredReal,
+      netBalanceNominal: balanceNominal - taxDeferredNominal,
+      classBalancesReal: portfolio ? classBalancesReal : undefined,
+      eventReal,
+      reserveReal: reserve ? reserveReal : undefined,
+      reserveNominal: reserve ? reserveReal * inflFactor : undefined,
     });
 
-    if (m === months) break;
+    if (stop || m === months) break;
+
+    const pathRate = ratePath?.realMonthly[m] ?? r;
+    const inflNext =
+      inflFactor * (1 + (ratePath?.inflationMonthly[m] ?? inflM));
+
+    const glide = glidePath ? glideWeight(glidePath, m) : 0;
+    const grow = (sleeve: Sleeve) => {
+      const baseRate = sleeve.realMonthlyRate ?? pathRate;
+      const rM =
+        glide > 0
+          ? baseRate + (glidePath!.realMonthlyRate - baseRate) * glide
+          : baseRate;
+      const grossFactor = ((1 + rM) * inflNext) / inflFactor;
+      // Taxas sobre o saldo saem do rendimento do mês
+      const kept = fees ? feeRetention(fees, grossFactor) : 1;
+      if (kept < 1) {
+        const feeReal = sleeveReal(sleeve, inflFactor) * (1 + rM) * (1 - kept);
+        feesPaidReal += feeReal;
+        feesPaidNominal += feeReal * inflNext;
+      }
+      if (sleeve.ledger) {
+        advanceLedger(sleeve.ledger, m + 1, grossFactor * kept);
+      } else {
+        sleeve.balanceReal *= (1 + rM) * kept;
+      }
+    };
+    // Com uma classe só, o aporte vai inteiro para ela
+    const contribute = (lotMonth: number, infl: number) => {
+      // A reserva de emergência enche primeiro; o resto vai para a meta
+      const toReserve = reserve
+        ? clamp(
+            reserve.targetReal - reserveReal,
+            0,
+            Math.max(0, contributionReal)
+          )
+        : 0;
+      reserveReal += toReserve;
+      const goalReal = contributionReal - toReserve;
+      // A corretagem sai do aporte (em R$ de hoje)
+      const investedReal = fees
+        ? contributionAfterBrokerage(fees, goalReal)
+        : goalReal;
+      if (investedReal < goalReal) {
+        feesPaidReal += goalReal - investedReal;
+        feesPaidNominal += (goalReal - investedReal) * infl;
+      }
+      const shares =
+        sleeves.length === 1
+          ? [1]
+          : routeContribution(
+              sleeves.map((s) => sleeveReal(s, infl)),
+              weights,
+              investedReal
+            );
+      // O lote entra pelo valor nominal do mês do depósito (no fim do mês,
+      // já com a inflação dele)
+      sleeves.forEach((sleeve, i) =>
+        deposit(
+          sleeve,
+          lotMonth,
+          investedReal * shares[i],
+          investedReal * shares[i] * infl
+        )
+      );
+    };
+    const growReserve = () => {
+      if (reserve) reserveReal *= 1 + reserve.realMonthlyRate;
+    };
 
     if (timing === "begin") {
-      balanceReal += contributionReal;
-      balanceReal *= 1 + r;
+      contribute(m, inflFactor);
+      sleeves.forEach(grow);
+      growReserve();
+    } else {
+      sleeves.forEach(grow);
+      growReserve();
+      contribute(m + 1, inflNext);
+    }
+
+    if (isComeCotasMonth(startCalendarMonth + m)) {
+      for (const sleeve of sleeves) {
+        if (sleeve.ledger)
+          taxPaidReal += withholdComeCotas(sleeve.ledger) / inflNext;
+      }
+    }
+
+    if (portfolio?.rebalance === "annual" && (m + 1) % 12 === 0) {
+      taxPaidReal += rebalanceSleeves(sleeves, weights, m + 1, inflNext);
+    }
+
+    inflFactor = inflNext;
+
+    const total = sleeves.reduce(
+      (sum, s) => sum + sleeveReal(s, inflFactor),
+      0
+    );
+    if (!Number.isFinite(total)) break;
+  }
+}
+
+// Resgata de todas as classes na mesma proporção até obter `netReal` (R$ de
+// hoje) livre de IR, ou tudo o que houver. Devolve o líquido e o IR pagos.
+function withdrawFromSleeves(
+  sleeves: Sleeve[],
+  month: number,
+  netReal: number,
+  inflFactor: number
+) {
+  const balances = sleeves.map((s) => sleeveReal(s, inflFactor));
+  const total = balances.reduce((sum, b) => sum + b, 0);
+  if (!(total > 0)) return { netReal: 0, taxReal: 0 };
+
+  // O IR do resgate proporcional é a mesma fração do IR devido no total
+  let taxDueReal = 0;
+  for (const sleeve of sleeves) {
+    if (sleeve.ledger)
+      taxDueReal += taxDueOnRedemption(sleeve.ledger, month) / inflFactor;
+  }
+  const netTotal = total - taxDueReal;
+  const fraction = netTotal > 0 ? Math.min(1, netReal / netTotal) : 1;
+
+  let taxReal = 0;
+  sleeves.forEach((sleeve, i) => {
+    const sell = balances[i] * fraction;
+    if (sleeve.ledger) {
+      taxReal +=
+        redeemFromLedger(sleeve.ledger, month, sell * inflFactor) / inflFactor;
     } else {
-      balanceReal *= 1 + r;
-      balanceReal += contributionReal;
+      sleeve.balanceReal -= sell;
     }
+  });
+  return { netReal: total * fraction - taxReal, taxReal };
+}
 
-    if (!Number.isFinite(balanceReal)) break;
+// Vende o excesso das classes acima do alvo (pagando IR sobre o ganho) e
+// compra as que estão abaixo com o líquido. Devolve o IR pago em R$ de hoje.
+function rebalanceSleeves(
+  sleeves: Sleeve[],
+  weights: number[],
+  month: number,
+  inflFactor: number
+) {
+  const balances = sleeves.map((s) => sleeveReal(s, inflFactor));
+  const trades = rebalanceTrades(balances, weights);
+
+  let cashReal = 0;
+  let taxReal = 0;
+  sleeves.forEach((sleeve, i) => {
+    if (trades[i] >= 0) return;
+    const sell = -trades[i];
+    if (sleeve.ledger) {
+      const tax =
+        redeemFromLedger(sleeve.ledger, month, sell * inflFactor) / inflFactor;
+      taxReal += tax;
+      cashReal += sell - tax;
+    } else {
+      sleeve.balanceReal -= sell;
+      cashReal += sell;
+    }
+  });
+
+  const buys = trades.map((t) => Math.max(0, t));
+  const totalBuy = buys.reduce((sum, b) => sum + b, 0);
+  if (totalBuy > 0) {
+    sleeves.forEach((sleeve, i) => {
+      const real = (cashReal * buys[i]) / totalBuy;
+      if (sleeve.ledger) addLot(sleeve.ledger, month, real * inflFactor);
+      else sleeve.balanceReal += real;
+    });
   }
+  return taxReal;
+}
 
+export function simulateProjection(params: ProjectionParams) {
+  const points: SimulationPoint[] = [];
+  runProjection(params, (point) => {
+    points.push(point);
+  });
   return points;
 }
 
-export function finalBalanceReal(params: {
-  pvToday: number;
-  pmt0: number;
-  months: number;
-  ageNow: number;
-  realMonthlyRate: number;
-  inflationMonthlyRate: number;
-  indexation: ContributionIndexation;
-  timing: ContributionTiming;
-}) {
+// Com taxas constantes e sem IR, o saldo real do mês n tem fórmula fechada:
+//   saldo(n) = pv·(1+r)^n + pmt0·fator(n)
+// onde o aporte real do mês k é pmt0·escala·razão^k (razão < 1 quando o
+// aporte é nominal fixo e a inflação corrói o valor) e
+//   fator(n) = escala·Σ razão^k·(1+r)^(n-1-k) = escala·((1+r)^n - razão^n)/(1+r - razão)
+// No começo do mês o aporte rende um mês a mais (escala·(1+r)). O regime
+// "exempt" dá o mesmo saldo que nenhum regime.
+type AnnuityModel = {
+  growth: number; // 1 + taxa real mensal
+  factor: (months: number) => number;
+  balance: (pvToday: number, pmt0: number, months: number) => number;
+};
+
+function annuityModel(
+  params: Omit<ProjectionParams, "pvToday" | "pmt0" | "months">
+): AnnuityModel | null {
+  // Fora do caso simples os resolvedores simulam mês a mês
+  if (params.portfolio || params.ratePath || params.schedule) return null;
+  if (params.contributors || params.reserve) return null;
+  if (hasFees(params.fees) || params.glidePath) return null;
+  if ((params.events ?? []).some((e) => e.amountReal !== 0)) return null;
+  if (params.taxRegime && params.taxRegime !== "exempt") return null;
+
+  const growth = 1 + params.realMonthlyRate;
+  const infl = 1 + params.inflationMonthlyRate;
+  if (!(growth > 0) || !(infl > 0)) return null;
+
+  const ratio = params.indexation === "fixedNominal" ? 1 / infl : 1;
+  const scale = params.timing === "begin" ? growth : 1;
+
+  // Perto de razão = 1+r a fórmula perde precisão (só o caso exato é seguro)
+  const gap = growth - ratio;
+  if (gap !== 0 && Math.abs(gap) < 1e-9) return null;
+
+  const factor = (months: number) =>
+    gap === 0
+      ? scale * months * Math.pow(growth, months - 1)
+      : (scale * (Math.pow(growth, months) - Math.pow(ratio, months))) / gap;
+
+  return {
+    growth,
+    factor,
+    balance: (pvToday, pmt0, months) =>
+      Math.max(0, pvToday) * Math.pow(growth, months) +
+      (pmt0 !== 0 ? pmt0 * factor(months) : 0),
+  };
+}
+
+/** Saldo real final, líquido do IR devido no resgate (se houver regime). */
+export function finalBalanceReal(params: ProjectionParams) {
+  const model = params.months >= 0 ? annuityModel(params) : null;
+  if (model) return model.balance(params.pvToday, params.pmt0, params.months);
+
   const pts = simulateProjection(params);
-  return pts.length ? pts[pts.length - 1].balanceReal : NaN;
+  return pts.length ? pts[pts.length - 1].netBalanceReal : NaN;
 }
 
-export function monthsToTarget(params: {
-  pvToday: number;
-  pmt0: number;
-  targetToday: number;
-  ageNow: number;
-  realMonthlyRate: number;
-  inflationMonthlyRate: number;
-  indexation: ContributionIndexation;
-  timing: ContributionTiming;
-  maxMonths?: number;
-}) {
+export function monthsToTarget(
+  params: Omit<ProjectionParams, "months"> & {
+    targetToday: number;
+    maxMonths?: number;
+  }
+) {
   const maxMonths = params.maxMonths ?? 2400;
-  if (params.targetToday <= params.pvToday) return 0;
 
-  let balanceReal = Math.max(0, params.pvToday);
-  for (let m = 1; m <= maxMonths; m++) {
-    const inflFactorPrev = Math.pow(1 + params.inflationMonthlyRate, m - 1);
-
-    const contributionReal =
-      params.indexation === "inflationAdjusted"
-        ? params.pmt0
-        : params.pmt0 / inflFactorPrev;
+  // Saldo que só cresce (taxa real >= 0, aporte >= 0): busca binária no mês
+  // com a fórmula fechada
+  const model = annuityModel(params);
+  if (model && model.growth >= 1 && params.pmt0 >= 0 && maxMonths >= 0) {
+    const reaches = (m: number) =>
+      model.balance(params.pvToday, params.pmt0, m) >= params.targetToday;
+    if (!reaches(maxMonths)) return null;
+    let low = -1; // último mês que não chega (-1 = nenhum)
+    let high = maxMonths;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (reaches(mid)) high = mid;
+      else low = mid;
+    }
+    return high;
+  }
 
-    if (params.timing === "begin") {
-      balanceReal += contributionReal;
-      balanceReal *= 1 + params.realMonthlyRate;
-    } else {
-      balanceReal *= 1 + params.realMonthlyRate;
-      balanceReal += contributionReal;
+  let found: number | null = null;
+  runProjection({ ...params, months: maxMonths }, (point) => {
+    if (point.netBalanceReal >= params.targetToday) {
+      found = point.month;
+      return true;
     }
+  });
+  return found;
+}
 
-    if (!Number.isFinite(balanceReal)) return null;
-    if (balanceReal >= params.targetToday) return m;
-  }
-  return null;
+/**
+ * Reduz todas as taxas reais do plano (ativo único, classes da carteira,
+ * `ratePath` e `glidePath`) em `bp` pontos-base ao ano.
+ */
+export function applyRateHaircut<T extends ProjectionParams>(
+  params: T,
+  bp: number
+): T {
+  if (!(bp > 0)) return params;
+  const factor = Math.pow(1 + bp / 10_000, 1 / 12);
+  const cut = (rate: number) => Math.max(-0.99, (1 + rate) / factor - 1);
+  return {
+    ...params,
+    realMonthlyRate: cut(params.realMonthlyRate),
+    ratePath: params.ratePath && {
+      ...params.ratePath,
+      realMonthly: params.ratePath.realMonthly.map(cut),
+    },
+    glidePath: params.glidePath && {
+      ...params.glidePath,
+      realMonthlyRate: cut(params.glidePath.realMonthlyRate),
+    },
+    portfolio: params.portfolio && {
+      ...params.portfolio,
+      classes: params.portfolio.classes.map((c) => ({
+        ...c,
+        realMonthlyRate: cut(c.realMonthlyRate),
+      })),
+    },
+  };
 }
 
-export function solveRequiredPmt(params: {
-  pvToday: number;
-  targetToday: number;
-  months: number;
-  ageNow: number;
-  realMonthlyRate: number;
-  inflationMonthlyRate: number;
-  indexation: ContributionIndexation;
-  timing: ContributionTiming;
-}) {
+/**
+ * Aporte inicial que leva o saldo líquido real a `targetToday` em `months`,
+ * com as mesmas regras de `simulateProjection`. `safetyMarginBp` é uma margem
+ * de segurança opcional: resolve com a rentabilidade real reduzida nesses
+ * pontos-base ao ano (o aporte sugerido fica acima do estritamente necessário).
+ */
+export function solveRequiredPmt(
+  params: Omit<ProjectionParams, "pmt0"> & {
+    targetToday: number;
+    safetyMarginBp?: number;
+  }
+) {
   const { pvToday, targetToday, months } = params;
   if (months <= 0) return null;
-  if (targetToday <= pvToday) return 0;
 
-  const conservativeRealRate = Math.max(
-    -0.99,
-    params.realMonthlyRate - params.inflationMonthlyRate
+  const solveParams = applyRateHaircut(
+    { ...params, pmt0: 0 },
+    params.safetyMarginBp ?? 0
   );
 
+  const model = annuityModel(solveParams);
+  if (model) {
+    const withoutPmt = model.balance(pvToday, 0, months);
+    if (withoutPmt >= targetToday) return 0;
+    const pmt = (targetToday - withoutPmt) / model.factor(months);
+    // Mesmo limite da busca abaixo
+    return Number.isFinite(pmt) && pmt > 0 && pmt <= 1e9 ? pmt : null;
+  }
+
   const reaches = (pmt0: number) => {
-    const end = finalBalanceReal({
-      ...params,
-      realMonthlyRate: conservativeRealRate,
-      pmt0,
-    });
+    const end = finalBalanceReal({ ...solveParams, pmt0 });
     return Number.isFinite(end) && end >= targetToday;
   };
+  if (reaches(0)) return 0;
 
   let low = 0;
   let high = Math.max(1, (targetToday - pvToday) / months);
@@ -213,3 +752,220 @@ export function solveRequiredPmt(params: {
 
   return Math.max(0, high);
 }
+
+export type RequiredRate = {
+  realMonthlyRate: number;
+  realAnnualRate: number;
+  // Nominal equivalente (com a inflação informada). Com `taxRegime`, é a
+  // rentabilidade bruta antes do IR.
+  grossMonthlyRate: number;
+  grossAnnualRate: number;
+};
+
+/**
+ * Rentabilidade real mensal mínima para atingir `targetToday` em `months`
+ * com o aporte `pmt0`. Sempre usa ativo único (ignora `portfolio`). Devolve
+ * `null` se nem 100% a.m. bastar.
+ */
+export function solveRequiredRate(
+  params: Omit<ProjectionParams, "realMonthlyRate"> & { targetToday: number }
+): RequiredRate | null {
+  const { months, targetToday } = params;
+  if (months <= 0) return null;
+
+  const reaches = (rate: number) => {
+    // Taxa real constante; a inflação da curva (se houver) continua valendo
+    const end = finalBalanceReal({
+      ...params,
+      portfolio: undefined,
+      ratePath: params.ratePath && { ...params.ratePath, realMonthly: [] },
+      realMonthlyRate: rate,
+    });
+    return Number.isFinite(end) && end >= targetToday;
+  };
+
+  let low = -0.5;
+  // Dobra até o teto de 100% a.m., testando o próprio teto
+  let high = 0.05;
+  while (!reaches(high)) {
+    if (high >= 1) return null;
+    high = Math.min(1, high * 2);
+  }
+  if (reaches(low)) high = low;
+
+  for (let i = 0; i < 60 && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (reaches(mid)) high = mid;
+    else low = mid;
+  }
+
+  const grossMonthlyRate = (1 + high) * (1 + params.inflationMonthlyRate) - 1;
+  return {
+    realMonthlyRate: high,
+    realAnnualRate: Math.pow(1 + high, 12) - 1,
+    grossMonthlyRate,
+    grossAnnualRate: Math.pow(1 + grossMonthlyRate, 12) - 1,
+  };
+}
+
+/**
+ * Carteira inicial (R$ de hoje) necessária para atingir `targetToday` em
+ * `months` com o aporte `pmt0`.
+ */
+export function solveRequiredPv(
+  params: Omit<ProjectionParams, "pvToday"> & { targetToday: number }
+) {
+  const { months, targetToday } = params;
+  if (months <= 0) return null;
+
+  const model = annuityModel(params);
+  if (model) {
+    const pv =
+      (targetToday - model.balance(0, params.pmt0, months)) /
+      Math.pow(model.growth, months);
+    return Number.isFinite(pv) && pv <= 1e12 ? Math.max(0, pv) : null;
+  }
+
+  const reaches = (pvToday: number) => {
+    const end = finalBalanceReal({ ...params, pvToday });
+    return Number.isFinite(end) && end >= targetToday;
+  };
+  if (reaches(0)) return 0;
+
+  let low = 0;
+  let high = Math.max(1, targetToday);
+  let guard = 0;
+  while (!reaches(high) && guard < 60) {
+    high *= 2;
+    if (high > 1e12) return null;
+    guard++;
+  }
+
+  for (let i = 0; i < 70; i++) {
+    const mid = (low + high) / 2;
+    if (reaches(mid)) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+export type WithdrawalRule = "fixedReal" | "percentOfBalance" | "guardrails";
+
+export type DecumulationParams = {
+  startBalanceReal: number;
+  startMonth: number; // mês da projeção em que as retiradas começam
+  startInflFactor: number;
+  ageStart: number;
+  ageEnd: number; // expectativa de vida
+  realMonthlyRate: number; // real líquido de IR
+  inflationMonthlyRate: number;
+  rule: WithdrawalRule;
+  monthlyWithdrawalReal: number; // "fixedReal" e retirada inicial dos guardrails
+  annualWithdrawalRate: number; // "percentOfBalance"
+};
+
+export type DecumulationResult = {
+  // Mesmo formato da acumulação, com a retirada como aporte negativo
+  points: SimulationPoint[];
+  depletionAge: number | null;
+  totalWithdrawnReal: number;
+};
+
+// Guyton-Klinger: revisão anual da retirada quando a taxa atual sai da faixa
+// de ±20% da taxa inicial, cortando ou aumentando a retirada em 10%.
+const GUARDRAIL_BAND = 0.2;
+const GUARDRAIL_STEP = 0.1;
+
+/**
+ * Fase de retiradas depois da meta. As retiradas saem no começo de cada mês
+ * e o saldo restante rende `realMonthlyRate`.
+ */
+export function simulateDecumulation(
+  params: DecumulationParams
+): DecumulationResult {
+  const {
+    startMonth,
+    startInflFactor,
+    ageStart,
+    realMonthlyRate: r,
+    inflationMonthlyRate: inflM,
+    rule,
+  } = params;
+  const months = Math.max(0, Math.round((params.ageEnd - ageStart) * 12));
+
+  let balanceReal = Math.max(0, params.startBalanceReal);
+  let withdrawalReal = Math.max(0, params.monthlyWithdrawalReal);
+  const initialRate = balanceReal > 0 ? (withdrawalReal * 12) / balanceReal : 0;
+
+  const points: SimulationPoint[] = [];
+  let depletionAge: number | null = null;
+  let totalWithdrawnReal = 0;
+
+  for (let k = 0; k <= months; k++) {
+    const inflFactor = startInflFactor * Math.pow(1 + inflM, k);
+    const age = ageStart + k / 12;
+
+    if (rule === "percentOfBalance") {
+      withdrawalReal =
+        (balanceReal * Math.max(0, params.annualWithdrawalRate)) / 12;
+    } else if (
+      rule === "guardrails" &&
+      k > 0 &&
+      k % 12 === 0 &&
+      balanceReal > 0
+    ) {
+      const currentRate = (withdrawalReal * 12) / balanceReal;
+      if (currentRate > initialRate * (1 + GUARDRAIL_BAND)) {
+        withdrawalReal *= 1 - GUARDRAIL_STEP;
+      } else if (currentRate < initialRate * (1 - GUARDRAIL_BAND)) {
+        withdrawalReal *= 1 + GUARDRAIL_STEP;
+      }
+    }
+    const paid = k === months ? 0 : Math.min(balanceReal, withdrawalReal);
+
+    points.push({
+      month: startMonth + k,
+      age,
+      inflFactor,
+      balanceReal,
+      balanceNominal: balanceReal * inflFactor,
+      contributionNominal: -paid * inflFactor,
+      contributionReal: -paid,
+      taxDeferredReal: 0,
+      taxDeferredNominal: 0,
+      taxPaidReal: 0,
+      taxPaidNominal: 0,
+      feesPaidReal: 0,
+      feesPaidNominal: 0,
+      netBalanceReal: balanceReal,
+      netBalanceNominal: balanceReal * inflFactor,
+    });
+
+    if (k === months) break;
+    // Tolerância para não acusar esgotamento por arredondamento
+    if (balanceReal <= 0 || paid < withdrawalReal - 1e-6) {
+      depletionAge ??= age;
+    }
+
+    totalWithdrawnReal += paid;
+    balanceReal = (balanceReal - paid) * (1 + r);
+  }
+
+  return { points, depletionAge, totalWithdrawnReal };
+}
+
+/**
+ * Retirada mensal constante (R$ de hoje, no começo do mês) que zera o saldo
+ * exatamente em `months` meses.
+ */
+export function sustainableWithdrawal(params: {
+  startBalanceReal: number;
+  months: number;
+  realMonthlyRate: number;
+}) {
+  const { startBalanceReal: pv, months: n, realMonthlyRate: r } = params;
+  if (n <= 0 || pv <= 0) return 0;
+  if (Math.abs(r) < 1e-12) return pv / n;
+  // Anuidade antecipada: pv = W * (1 - (1 + r)^-n) / r * (1 + r)
+  return (pv * r) / ((1 - Math.pow(1 + r, -n)) * (1 + r));
+}
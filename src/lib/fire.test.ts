@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { annualToMonthlyRate } from "./finance";
+import { fireTarget } from "./fire";
+import type { FireTargetParams } from "./fire";
+
+const params: FireTargetParams = {
+  monthlySpendingReal: 8000,
+  method: "withdrawalRate",
+  withdrawalAnnualRate: 0.04,
+  realAnnualReturn: 0,
+  retirementAge: 60,
+  lifeExpectancy: 90,
+};
+
+describe("fireTarget", () => {
+  it("divides the yearly spending by the withdrawal rate", () => {
+    expect(fireTarget(params)).toBeCloseTo(2_400_000, 6);
+    expect(fireTarget({ ...params, withdrawalAnnualRate: 0 })).toBeNull();
+  });
+
+  it("discounts the spending up to the life expectancy", () => {
+    const annuity = { ...params, method: "annuity" as const };
+    expect(fireTarget(annuity)).toBeCloseTo(8000 * 360, 6);
+
+    const i = annualToMonthlyRate(0.04);
+    const v = 1 / (1 + i);
+    expect(fireTarget({ ...annuity, realAnnualReturn: 0.04 })).toBeCloseTo(
+      (8000 * (1 - v ** 360)) / (1 - v),
+      4
+    );
+  });
+});
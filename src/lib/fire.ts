@@ -0,0 +1,47 @@
+import { annualToMonthlyRate } from "./finance";
+
+// Meta de independência financeira a partir do gasto mensal desejado, em vez
+// de um valor redondo. Dois jeitos de chegar ao patrimônio:
+// - "withdrawalRate": regra da taxa de retirada segura (4% a.a. => 25x o
+//   gasto anual), sem prazo
+// - "annuity": valor presente dos gastos até a expectativa de vida, com o
+//   retorno real esperado na aposentadoria
+export type FireMethod = "withdrawalRate" | "annuity";
+
+export type FireTargetParams = {
+  monthlySpendingReal: number;
+  method: FireMethod;
+  withdrawalAnnualRate: number; // 0,04 = 4% a.a.
+  realAnnualReturn: number; // só no "annuity"
+  retirementAge: number;
+  lifeExpectancy: number; // só no "annuity"
+};
+
+/**
+ * Patrimônio (R$ de hoje) que banca o gasto mensal desejado, antes do INSS e
+ * da previdência (abatidos à parte, ver `./plan`). Devolve `null` sem taxa de
+ * retirada positiva.
+ */
+export function fireTarget(params: FireTargetParams): number | null {
+  const spending = Math.max(0, params.monthlySpendingReal);
+
+  if (params.method === "withdrawalRate") {
+    if (!(params.withdrawalAnnualRate > 0)) return null;
+    return (12 * spending) / params.withdrawalAnnualRate;
+  }
+
+  const months = Math.max(
+    0,
+    Math.round((params.lifeExpectancy - params.retirementAge) * 12)
+  );
+  const growth = 1 + annualToMonthlyRate(params.realAnnualReturn);
+  if (!(growth > 0)) return null;
+  // Retirada no começo de cada mês
+  let total = 0;
+  let discount = 1;
+  for (let k = 0; k < months; k++) {
+    total += spending * discount;
+    discount /= growth;
+  }
+  return total;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { finalBalanceReal, solveRequiredPmt } from "./finance";
+import { allocateBudget, planGoals } from "./goals";
+import type { GoalsPlan } from "./goals";
+
+const plan: GoalsPlan = {
+  ageNow: 30,
+  inflationMonthlyRate: 0.003,
+  indexation: "inflationAdjusted",
+  timing: "end",
+  budget: 3500,
+  allocation: "priority",
+  goals: [
+    {
+      label: "Casa",
+      targetToday: 120_000,
+      months: 24,
+      pvToday: 50_000,
+      realMonthlyRate: 0.003,
+    },
+    {
+      label: "Aposentadoria",
+      targetToday: 1_000_000,
+      months: 360,
+      pvToday: 0,
+      realMonthlyRate: 0.005,
+    },
+  ],
+};
+
+describe("goals", () => {
+  it("allocates the budget by priority or proportionally", () => {
+    expect(allocateBudget([1000, 800, 500], 1500, "priority")).toEqual([
+      1000, 500, 0,
+    ]);
+    expect(allocateBudget([1000, null, 500], 750, "proportional")).toEqual([
+      500, 0, 250,
+    ]);
+    expect(allocateBudget([1000, 500], 2000, "proportional")).toEqual([
+      1000, 500,
+    ]);
+  });
+
+  it("reports the shortfall and the extra monthly amount of each goal", () => {
+    const result = planGoals(plan);
+    const [house, retirement] = result.goals;
+
+    const houseNeed = solveRequiredPmt({
+      ...plan,
+      ...plan.goals[0],
+    })!;
+    expect(house.requiredPmt).toBeCloseTo(houseNeed, 6);
+    expect(house.allocatedPmt).toBeCloseTo(houseNeed, 6);
+    expect(house.feasible).toBe(true);
+    expect(house.shortfallReal).toBeLessThan(0.01);
+
+    expect(retirement.allocatedPmt).toBeCloseTo(3500 - houseNeed, 6);
+    expect(retirement.feasible).toBe(false);
+    expect(retirement.extraPmt).toBeCloseTo(
+      retirement.requiredPmt! - retirement.allocatedPmt,
+      6
+    );
+    expect(retirement.projectedReal).toBeCloseTo(
+      finalBalanceReal({
+        ...plan,
+        ...plan.goals[1],
+        pmt0: retirement.allocatedPmt,
+      }),
+      6
+    );
+    expect(retirement.shortfallReal).toBeGreaterThan(0);
+    expect(result.unallocated).toBeCloseTo(0, 6);
+    expect(result.extraPmtTotal).toBeCloseTo(retirement.extraPmt!, 6);
+  });
+
+  it("treats goals past their deadline by the current balance", () => {
+    const result = planGoals({
+      ...plan,
+      budget: 100_000,
+      goals: [{ ...plan.goals[0], months: 0 }],
+    });
+    expect(result.goals[0].requiredPmt).toBeNull();
+    expect(result.goals[0].shortfallReal).toBe(70_000);
+    expect(result.extraPmtTotal).toBeNull();
+    expect(result.unallocated).toBe(100_000);
+  });
+});
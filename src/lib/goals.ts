@@ -0,0 +1,121 @@
+import { finalBalanceReal, solveRequiredPmt } from "./finance";
+import type { ProjectionParams } from "./finance";
+
+// Várias metas ao mesmo tempo (aposentadoria, casa, faculdade dos filhos),
+// cada uma com prazo, saldo e rentabilidade próprios, dividindo um orçamento
+// mensal. O aporte de cada meta é constante até o prazo dela; o que uma meta
+// deixa de usar depois de vencer não é redistribuído.
+
+export type Goal = {
+  label: string;
+  targetToday: number;
+  months: number; // prazo, a partir de hoje
+  pvToday: number; // já guardado para esta meta
+  realMonthlyRate: number; // antes do IR
+};
+
+// "priority": na ordem da lista, cada meta leva o que precisa enquanto houver
+// orçamento. "proportional": o orçamento é dividido na proporção do aporte
+// necessário de cada uma.
+export type GoalAllocation = "priority" | "proportional";
+
+export type GoalsPlan = Pick<
+  ProjectionParams,
+  | "ageNow"
+  | "inflationMonthlyRate"
+  | "indexation"
+  | "timing"
+  | "taxRegime"
+  | "startCalendarMonth"
+  | "fees"
+> & {
+  goals: Goal[];
+  budget: number;
+  allocation: GoalAllocation;
+};
+
+export type GoalResult = {
+  label: string;
+  requiredPmt: number | null; // null = nenhum aporte chega lá no prazo
+  allocatedPmt: number;
+  feasible: boolean;
+  projectedReal: number; // saldo líquido no prazo com o aporte alocado
+  shortfallReal: number;
+  extraPmt: number | null; // quanto falta por mês para chegar
+};
+
+export type GoalsResult = {
+  goals: GoalResult[];
+  unallocated: number; // orçamento que sobrou
+  extraPmtTotal: number | null; // null se alguma meta é inalcançável
+};
+
+/** Divide `budget` entre os aportes necessários, conforme a regra. */
+export function allocateBudget(
+  required: (number | null)[],
+  budget: number,
+  allocation: GoalAllocation
+): number[] {
+  const available = Math.max(0, budget);
+  if (allocation === "proportional") {
+    const total = required.reduce<number>((sum, r) => sum + (r ?? 0), 0);
+    const scale = total > available ? available / total : 1;
+    return required.map((r) => (r ?? 0) * scale);
+  }
+  let remaining = available;
+  return required.map((r) => {
+    const amount = Math.min(r ?? 0, remaining);
+    remaining -= amount;
+    return amount;
+  });
+}
+
+/**
+ * Aporte necessário de cada meta, quanto o orçamento cobre e o que falta
+ * (no saldo e por mês) para as que não cabem.
+ */
+export function planGoals(plan: GoalsPlan): GoalsResult {
+  const { goals, budget, allocation, ...shared } = plan;
+
+  const paramsFor = (goal: Goal) => ({
+    ...shared,
+    pvToday: Math.max(0, goal.pvToday),
+    months: goal.months,
+    realMonthlyRate: goal.realMonthlyRate,
+  });
+
+  const required = goals.map((goal) => {
+    if (goal.months <= 0) return goal.pvToday >= goal.targetToday ? 0 : null;
+    return solveRequiredPmt({
+      ...paramsFor(goal),
+      targetToday: goal.targetToday,
+    });
+  });
+  const allocated = allocateBudget(required, budget, allocation);
+
+  const results = goals.map((goal, i): GoalResult => {
+    const projectedReal =
+      goal.months > 0
+        ? finalBalanceReal({ ...paramsFor(goal), pmt0: allocated[i] })
+        : Math.max(0, goal.pvToday);
+    const need = required[i];
+    return {
+      label: goal.label,
+      requiredPmt: need,
+      allocatedPmt: allocated[i],
+      feasible: need != null && allocated[i] >= need - 1e-6,
+      projectedReal,
+      shortfallReal: Math.max(0, goal.targetToday - projectedReal),
+      extraPmt: need == null ? null : Math.max(0, need - allocated[i]),
+    };
+  });
+
+  const used = allocated.reduce((sum, a) => sum + a, 0);
+  return {
+    goals: results,
+    unallocated: Math.max(0, budget - used),
+    extraPmtTotal: results.some((r) => r.extraPmt == null)
+      ? null
+      : results.reduce((sum, r) => sum + (r.extraPmt ?? 0), 0),
+  };
+}
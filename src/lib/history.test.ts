@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { loadHistoricalSeries, validateHistoricalSeries } from "./history";
+
+describe("historical series", () => {
+  it("loads the bundled monthly series when it has values", () => {
+    const series = loadHistoricalSeries();
+    // Arquivo ainda sem os valores oficiais: o modo histórico fica desligado
+    if (series == null) return;
+    expect(series.months[0]).toBe("2000-01");
+    expect(series.months).toHaveLength(series.cdi.length);
+    expect(series.ipca).toHaveLength(series.cdi.length);
+    expect(series.ibov).toHaveLength(series.cdi.length);
+    expect(series.months[12]).toBe("2001-01");
+  });
+
+  it("converts percentages to decimal monthly rates", () => {
+    const result = validateHistoricalSeries({
+      start: "2010-11",
+      cdi: [1, 0.5],
+      ipca: [0.4, 0.3],
+      ibov: [-5, 2],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.series.cdi).toEqual([0.01, 0.005]);
+    expect(result.series.months).toEqual(["2010-11", "2010-12"]);
+  });
+
+  it("rejects annual totals passed off as a monthly series", () => {
+    const flat = Array.from({ length: 14 }, (_, i) => (i < 12 ? 1 : 2));
+    const wavy = Array.from({ length: 14 }, (_, i) => 0.5 + i / 100);
+    const file = { start: "2000-01", cdi: wavy, ipca: wavy, ibov: flat };
+    const result = validateHistoricalSeries(file);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors[0]).toMatch(/ibov.*2000/);
+
+    // Só anos-calendário completos contam
+    expect(validateHistoricalSeries({ ...file, start: "2000-02" }).ok).toBe(
+      true
+    );
+    expect(
+      validateHistoricalSeries({
+        ...file,
+        start: "2000-02",
+        resolution: "annual",
+      }).ok
+    ).toBe(false);
+  });
+
+  it("rejects malformed files", () => {
+    const result = validateHistoricalSeries({
+      start: "2010-13",
+      cdi: [1, 1],
+      ipca: [0.4, 0.3],
+      ibov: [1, "x"],
+    });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toHaveLength(2); // start e ibov
+    expect(validateHistoricalSeries(null).ok).toBe(false);
+    expect(
+      validateHistoricalSeries({
+        start: "2010-01",
+        cdi: [1, 1],
+        ipca: [1],
+        ibov: [1, 1],
+      })
+    ).toEqual({ ok: false, errors: ["As séries têm tamanhos diferentes."] });
+  });
+});
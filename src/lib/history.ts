@@ -0,0 +1,125 @@
+import bundledSeries from "../data/br-monthly-series.json";
+
+export type HistoricalAsset = "cdi" | "ibov";
+
+// Taxas mensais em decimal (0,01 = 1% no mês), alinhadas por índice
+export type HistoricalSeries = {
+  source: string;
+  months: string[]; // "AAAA-MM"
+  cdi: number[];
+  ipca: number[];
+  ibov: number[];
+};
+
+export type SeriesValidation =
+  | { ok: true; series: HistoricalSeries }
+  | { ok: false; errors: string[] };
+
+const SERIES_KEYS = ["cdi", "ipca", "ibov"] as const;
+
+function monthLabels(start: string, count: number): string[] {
+  const [year, month] = start.split("-").map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const idx = month - 1 + i;
+    const y = year + Math.floor(idx / 12);
+    const m = (idx % 12) + 1;
+    return `${y}-${String(m).padStart(2, "0")}`;
+  });
+}
+
+// Primeiro ano-calendário completo com os 12 valores iguais, ou `null`
+function firstFlatYear(start: string, values: number[]): number | null {
+  const [year, month] = start.split("-").map(Number);
+  const offset = (12 - (month - 1)) % 12; // índice do primeiro janeiro
+  for (let i = offset; i + 12 <= values.length; i += 12) {
+    const year12 = values.slice(i, i + 12);
+    if (year12.every((v) => v === year12[0]))
+      return year + (i + month - 1) / 12;
+  }
+  return null;
+}
+
+/**
+ * Valida o arquivo de séries (`start` + arrays em % ao mês) e converte para
+ * taxas decimais. Rejeita arrays de tamanhos diferentes, valores não
+ * numéricos, variações mensais fora de (-100%, +100%) e anos com os 12 meses
+ * iguais (um total anual espalhado, não a série mês a mês).
+ */
+export function validateHistoricalSeries(raw: unknown): SeriesValidation {
+  const errors: string[] = [];
+  if (typeof raw !== "object" || raw === null) {
+    return { ok: false, errors: ["Arquivo de séries vazio ou inválido."] };
+  }
+  const data = raw as Record<string, unknown>;
+
+  const start = data.start;
+  if (typeof start !== "string" || !/^\d{4}-(0[1-9]|1[0-2])$/.test(start)) {
+    errors.push("`start` deve estar no formato AAAA-MM.");
+  }
+
+  if ((data.resolution ?? "monthly") !== "monthly") {
+    errors.push('`resolution` deve ser "monthly": só a série mês a mês serve.');
+  }
+
+  const columns: Partial<Record<(typeof SERIES_KEYS)[number], number[]>> = {};
+  for (const key of SERIES_KEYS) {
+    const values = data[key];
+    if (!Array.isArray(values) || values.length === 0) {
+      errors.push(`Série \`${key}\` ausente ou vazia.`);
+      continue;
+    }
+    const badIdx = values.findIndex(
+      (v) =>
+        typeof v !== "number" || !Number.isFinite(v) || v <= -100 || v >= 100
+    );
+    if (badIdx >= 0) {
+      errors.push(`Série \`${key}\` tem valor inválido na posição ${badIdx}.`);
+      continue;
+    }
+    if (typeof start === "string") {
+      const flatYear = firstFlatYear(start, values);
+      if (flatYear != null) {
+        errors.push(
+          `Série \`${key}\` repete o mesmo valor nos 12 meses de ${flatYear}: parece um total anual espalhado, não a série mensal.`
+        );
+        continue;
+      }
+    }
+    columns[key] = values.map((v: number) => v / 100);
+  }
+
+  const lengths = new Set(Object.values(columns).map((c) => c.length));
+  if (lengths.size > 1) errors.push("As séries têm tamanhos diferentes.");
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const count = columns.cdi!.length;
+  return {
+    ok: true,
+    series: {
+      source: typeof data.source === "string" ? data.source : "",
+      months: monthLabels(start as string, count),
+      cdi: columns.cdi!,
+      ipca: columns.ipca!,
+      ibov: columns.ibov!,
+    },
+  };
+}
+
+let cached: HistoricalSeries | null = null;
+
+/**
+ * Séries mensais oficiais de CDI, IPCA e Ibovespa que acompanham o app, ou
+ * `null` enquanto o arquivo não traz os valores (o modo histórico fica
+ * indisponível).
+ */
+export function loadHistoricalSeries(): HistoricalSeries | null {
+  if (cached) return cached;
+  if (SERIES_KEYS.every((key) => bundledSeries[key].length === 0)) return null;
+  const result = validateHistoricalSeries(bundledSeries);
+  if (!result.ok) {
+    throw new Error(`Séries históricas inválidas: ${result.errors.join(" ")}`);
+  }
+  cached = result.series;
+  return cached;
+}
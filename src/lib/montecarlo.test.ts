@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { realMonthlyRateFromGross, simulateProjection } from "./finance";
+import {
+  createRng,
+  percentile,
+  sampleNormal,
+  simulateMonteCarlo,
+  solveRequiredPmtForProbability,
+} from "./montecarlo";
+import type { MonteCarloParams } from "./montecarlo";
+
+const base: MonteCarloParams = {
+  pvToday: 10_000,
+  pmt0: 500,
+  months: 120,
+  ageNow: 30,
+  indexation: "inflationAdjusted",
+  timing: "end",
+  targetToday: 90_000,
+  meanGrossMonthlyRate: 0.008,
+  grossMonthlyVolatility: 0.02,
+  meanInflationMonthlyRate: 0.003,
+  inflationMonthlyVolatility: 0.002,
+  paths: 300,
+  seed: 42,
+};
+
+describe("random sampling", () => {
+  it("is reproducible for the same seed", () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    const c = createRng(8);
+    const seqA = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(seqA);
+    expect([c(), c(), c()]).not.toEqual(seqA);
+  });
+
+  it("samples a standard normal", () => {
+    const rng = createRng(1);
+    const xs = Array.from({ length: 20_000 }, () => sampleNormal(rng));
+    const mean = xs.reduce((s, x) => s + x, 0) / xs.length;
+    const variance = xs.reduce((s, x) => s + (x - mean) ** 2, 0) / xs.length;
+    expect(mean).toBeCloseTo(0, 1);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+
+  it("interpolates percentiles", () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.1)).toBeCloseTo(1);
+  });
+});
+
+describe("monte carlo projection", () => {
+  it("returns the same bands for the same seed", () => {
+    const first = simulateMonteCarlo(base);
+    const second = simulateMonteCarlo(base);
+    expect(second).toEqual(first);
+    expect(simulateMonteCarlo({ ...base, seed: 43 })).not.toEqual(first);
+  });
+
+  it("keeps percentiles ordered and probability in range", () => {
+    const result = simulateMonteCarlo(base);
+    expect(result.bands).toHaveLength(121);
+    for (const band of result.bands) {
+      expect(band.p10Real).toBeLessThanOrEqual(band.p50Real);
+      expect(band.p50Real).toBeLessThanOrEqual(band.p90Real);
+    }
+    expect(result.successProbability).toBeGreaterThan(0);
+    expect(result.successProbability).toBeLessThan(1);
+  });
+
+  it("collapses to the deterministic projection without volatility", () => {
+    const result = simulateMonteCarlo({
+      ...base,
+      grossMonthlyVolatility: 0,
+      inflationMonthlyVolatility: 0,
+      paths: 5,
+    });
+    const deterministic = simulateProjection({
+      ...base,
+      realMonthlyRate: realMonthlyRateFromGross({
+        grossMonthlyRate: 0.008,
+        taxOnGainsRate: 0,
+        inflationMonthlyRate: 0.003,
+      }),
+      inflationMonthlyRate: 0.003,
+    });
+
+    const last = result.bands[120];
+    expect(last.p10Real).toBeCloseTo(last.p90Real, 6);
+    expect(last.p50Real).toBeCloseTo(deterministic[120].netBalanceReal, 2);
+    expect(last.p50Nominal).toBeCloseTo(deterministic[120].balanceNominal, 2);
+  });
+
+  it("moves the sampled returns to the preservation profile", () => {
+    const glidePath = {
+      startMonth: 60,
+      months: 60,
+      realMonthlyRate: 0.002,
+      grossMonthlyVolatility: 0.002,
+    };
+    const calm = simulateMonteCarlo({
+      ...base,
+      inflationMonthlyVolatility: 0,
+      glidePath,
+    });
+    const deterministic = simulateProjection({
+      ...base,
+      realMonthlyRate: realMonthlyRateFromGross({
+        grossMonthlyRate: 0.008,
+        taxOnGainsRate: 0,
+        inflationMonthlyRate: 0.003,
+      }),
+      inflationMonthlyRate: 0.003,
+      glidePath,
+    });
+    const spread = (band: { p10Real: number; p90Real: number }) =>
+      band.p90Real / band.p10Real;
+    const free = simulateMonteCarlo({ ...base, inflationMonthlyVolatility: 0 });
+
+    // Menos dispersão no fim, em torno da projeção com a mesma transição
+    expect(spread(calm.bands[120])).toBeLessThan(spread(free.bands[120]));
+    expect(calm.bands[120].p50Real).toBeCloseTo(
+      deterministic[120].netBalanceReal,
+      -4
+    );
+    // Antes da transição, as trajetórias são as mesmas
+    expect(calm.bands[60]).toEqual(free.bands[60]);
+  });
+});
+
+describe("required contribution for a probability", () => {
+  it("finds the smallest contribution that hits the required probability", () => {
+    const pmt0 = solveRequiredPmtForProbability({
+      ...base,
+      requiredProbability: 0.9,
+    })!;
+    expect(pmt0).toBeGreaterThan(0);
+    expect(
+      simulateMonteCarlo({ ...base, pmt0 }).successProbability
+    ).toBeGreaterThanOrEqual(0.9);
+    expect(
+      simulateMonteCarlo({ ...base, pmt0: pmt0 - 1 }).successProbability
+    ).toBeLessThan(0.9);
+  });
+
+  it("asks for more when the required probability goes up", () => {
+    const p50 = solveRequiredPmtForProbability({
+      ...base,
+      requiredProbability: 0.5,
+    })!;
+    const p90 = solveRequiredPmtForProbability({
+      ...base,
+      requiredProbability: 0.9,
+    })!;
+    expect(p90).toBeGreaterThan(p50);
+  });
+});
@@ -0,0 +1,211 @@
+import { finalBalanceReal, glideWeight, simulateProjection } from "./finance";
+import type { ProjectionParams, RatePath } from "./finance";
+
+// Com `glidePath`, a média e a volatilidade do retorno sorteado é que andam
+// até o perfil de preservação (a projeção de cada trajetória roda sem ele).
+export type MonteCarloParams = Omit<
+  ProjectionParams,
+  "realMonthlyRate" | "inflationMonthlyRate" | "ratePath"
+> & {
+  targetToday: number;
+  // Retorno bruto nominal e inflação mensais: média e desvio-padrão
+  meanGrossMonthlyRate: number;
+  grossMonthlyVolatility: number;
+  meanInflationMonthlyRate: number;
+  inflationMonthlyVolatility: number;
+  paths: number;
+  seed: number;
+};
+
+export type MonteCarloBand = {
+  month: number;
+  age: number;
+  p10Real: number;
+  p50Real: number;
+  p90Real: number;
+  p10Nominal: number;
+  p50Nominal: number;
+  p90Nominal: number;
+};
+
+export type MonteCarloResult = {
+  bands: MonteCarloBand[];
+  // Fração das trajetórias com saldo líquido real >= meta no último mês
+  successProbability: number;
+  paths: number;
+};
+
+/** Gerador pseudoaleatório determinístico (mulberry32) em [0, 1). */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Normal padrão via Box-Muller. */
+export function sampleNormal(rng: () => number): number {
+  const u1 = Math.max(rng(), Number.EPSILON);
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/** Percentil com interpolação linear; `sorted` precisa estar em ordem. */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return NaN;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+/** Sorteia as trajetórias de juros reais e inflação mensais (uma por caminho). */
+function sampleRatePaths(params: MonteCarloParams): RatePath[] {
+  const rng = createRng(params.seed);
+  const count = Math.max(1, Math.floor(params.paths));
+
+  // Perfil de preservação em termos brutos, com a inflação média
+  const glide = params.glidePath;
+  const mean = params.meanGrossMonthlyRate;
+  const vol = params.grossMonthlyVolatility;
+  const preservationMean = glide
+    ? (1 + glide.realMonthlyRate) * (1 + params.meanInflationMonthlyRate) - 1
+    : mean;
+  const preservationVol = glide?.grossMonthlyVolatility ?? vol;
+
+  const paths: RatePath[] = [];
+  for (let k = 0; k < count; k++) {
+    const realMonthly: number[] = [];
+    const inflationMonthly: number[] = [];
+    for (let m = 0; m < params.months; m++) {
+      const w = glide ? glideWeight(glide, m) : 0;
+      const gross = Math.max(
+        -0.99,
+        mean +
+          (preservationMean - mean) * w +
+          (vol + (preservationVol - vol) * w) * sampleNormal(rng)
+      );
+      const infl = Math.max(
+        -0.99,
+        params.meanInflationMonthlyRate +
+          params.inflationMonthlyVolatility * sampleNormal(rng)
+      );
+      realMonthly.push((1 + gross) / (1 + infl) - 1);
+      inflationMonthly.push(infl);
+    }
+    paths.push({ realMonthly, inflationMonthly });
+  }
+  return paths;
+}
+
+export function simulateMonteCarlo(params: MonteCarloParams): MonteCarloResult {
+  const { months, targetToday } = params;
+  const ratePaths = sampleRatePaths(params);
+  const count = ratePaths.length;
+
+  // Uma coluna por mês com o saldo de cada trajetória
+  const real = Array.from(
+    { length: months + 1 },
+    () => new Float64Array(count)
+  );
+  const nominal = Array.from(
+    { length: months + 1 },
+    () => new Float64Array(count)
+  );
+  let successes = 0;
+
+  ratePaths.forEach((ratePath, k) => {
+    const points = simulateProjection({
+      ...params,
+      realMonthlyRate: 0,
+      inflationMonthlyRate: 0,
+      ratePath,
+      glidePath: undefined,
+    });
+
+    for (let m = 0; m <= months; m++) {
+      // Trajetórias que estouram (NaN/Infinity) param antes: repete o último
+      const p = points[Math.min(m, points.length - 1)];
+      real[m][k] = p.netBalanceReal;
+      nominal[m][k] = p.netBalanceNominal;
+    }
+    if (points[points.length - 1].netBalanceReal >= targetToday) successes++;
+  });
+
+  const bands = real.map((column, m) => {
+    column.sort();
+    nominal[m].sort();
+    return {
+      month: m,
+      age: params.ageNow + m / 12,
+      p10Real: percentile(column, 0.1),
+      p50Real: percentile(column, 0.5),
+      p90Real: percentile(column, 0.9),
+      p10Nominal: percentile(nominal[m], 0.1),
+      p50Nominal: percentile(nominal[m], 0.5),
+      p90Nominal: percentile(nominal[m], 0.9),
+    };
+  });
+
+  return { bands, successProbability: successes / count, paths: count };
+}
+
+/**
+ * Menor aporte inicial com o qual pelo menos `requiredProbability` das
+ * trajetórias atinge a meta. Usa as mesmas trajetórias (mesma semente) em
+ * todas as tentativas, então o resultado é estável. `null` se nenhum aporte
+ * plausível chegar lá.
+ */
+export function solveRequiredPmtForProbability(
+  params: Omit<MonteCarloParams, "pmt0"> & { requiredProbability: number }
+): number | null {
+  const { months, pvToday, targetToday } = params;
+  if (months <= 0) return null;
+
+  const ratePaths = sampleRatePaths({ ...params, pmt0: 0 });
+  const needed = Math.ceil(
+    Math.min(1, Math.max(0, params.requiredProbability)) * ratePaths.length
+  );
+
+  const reaches = (pmt0: number) => {
+    let successes = 0;
+    for (let k = 0; k < ratePaths.length; k++) {
+      const end = finalBalanceReal({
+        ...params,
+        pmt0,
+        realMonthlyRate: 0,
+        inflationMonthlyRate: 0,
+        ratePath: ratePaths[k],
+        glidePath: undefined,
+      });
+      if (Number.isFinite(end) && end >= targetToday) successes++;
+      // Já bateu ou já não tem como bater: não precisa rodar o resto
+      if (successes >= needed) return true;
+      if (successes + (ratePaths.length - k - 1) < needed) return false;
+    }
+    return successes >= needed;
+  };
+
+  if (reaches(0)) return 0;
+
+  let low = 0;
+  let high = Math.max(1, (targetToday - pvToday) / months);
+  let guard = 0;
+  while (!reaches(high) && guard < 60) {
+    high *= 2;
+    if (high > 1e9) return null;
+    guard++;
+  }
+
+  // Centavos bastam: cada tentativa roda todas as trajetórias
+  while (high - low > 0.01) {
+    const mid = (low + high) / 2;
+    if (reaches(mid)) high = mid;
+    else low = mid;
+  }
+  return high;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { annualToMonthlyRate } from "./finance";
+import {
+  incomeTaxMonthly,
+  pensionRegressiveRate,
+  pgblTaxRefund,
+  projectPension,
+  publicPensionValue,
+} from "./pension";
+import type { PrivatePension } from "./pension";
+
+const pension: PrivatePension = {
+  plan: "pgbl",
+  table: "regressive",
+  monthlyContributionReal: 1000,
+  pvToday: 0,
+  realMonthlyRate: 0,
+};
+
+const options = {
+  months: 12,
+  inflationMonthlyRate: 0,
+  payoutMonths: 240,
+  otherTaxableIncome: 0,
+};
+
+describe("pension", () => {
+  it("lowers the regressive rate every two years", () => {
+    expect(pensionRegressiveRate(0)).toBe(0.35);
+    expect(pensionRegressiveRate(24)).toBe(0.35);
+    expect(pensionRegressiveRate(25)).toBe(0.3);
+    expect(pensionRegressiveRate(100)).toBe(0.15);
+    expect(pensionRegressiveRate(121)).toBe(0.1);
+  });
+
+  it("applies the monthly income tax table with the 2026 relief", () => {
+    expect(incomeTaxMonthly(4000)).toBe(0);
+    expect(incomeTaxMonthly(5000)).toBe(0);
+    expect(incomeTaxMonthly(6000)).toBeCloseTo(
+      (6000 - 607.2) * 0.275 - 908.73 - (978.62 - 0.133145 * 6000),
+      6
+    );
+    expect(incomeTaxMonthly(10000)).toBeCloseTo(
+      (10000 - 607.2) * 0.275 - 908.73,
+      6
+    );
+    expect(incomeTaxMonthly(10000, 1200)).toBeCloseTo(
+      (10000 - 1200) * 0.275 - 908.73,
+      6
+    );
+  });
+
+  it("deducts PGBL contributions up to 12% of the income", () => {
+    const full = pgblTaxRefund(2000, 10000);
+    expect(full.deductible).toBe(1200);
+    expect(full.refund).toBeCloseTo((1200 - 607.2) * 0.275, 6);
+    // Abaixo do desconto simplificado a dedução não muda o imposto
+    expect(pgblTaxRefund(500, 10000).refund).toBe(0);
+    expect(pgblTaxRefund(1000, 4000).refund).toBe(0);
+  });
+
+  it("values the INSS net of income tax from its start age", () => {
+    const valuation = {
+      valuationAge: 60,
+      lifeExpectancy: 90,
+      realAnnualReturn: 0,
+    };
+    expect(
+      publicPensionValue({ monthlyBenefitReal: 3000, startAge: 65 }, valuation)
+    ).toBeCloseTo(3000 * 300, 6);
+    // Já recebendo: conta da idade de avaliação em diante
+    expect(
+      publicPensionValue({ monthlyBenefitReal: 3000, startAge: 55 }, valuation)
+    ).toBeCloseTo(3000 * 360, 6);
+    expect(
+      publicPensionValue({ monthlyBenefitReal: 8000, startAge: 65 }, valuation)
+    ).toBeCloseTo((8000 - incomeTaxMonthly(8000)) * 300, 6);
+    // Recebido no começo do mês e descontado até a idade de avaliação
+    const r = annualToMonthlyRate(0.04);
+    expect(
+      publicPensionValue(
+        { monthlyBenefitReal: 3000, startAge: 65 },
+        { ...valuation, realAnnualReturn: 0.04 }
+      )
+    ).toBeCloseTo(
+      ((3000 * (1 - (1 + r) ** -300) * (1 + r)) / r) * (1 + r) ** -60,
+      4
+    );
+    expect(
+      publicPensionValue({ monthlyBenefitReal: 0, startAge: 65 }, valuation)
+    ).toBe(0);
+  });
+
+  it("taxes the whole PGBL balance and only the VGBL gains", () => {
+    const pgbl = projectPension(pension, options);
+    expect(pgbl).toHaveLength(13);
+    const last = pgbl[12];
+    expect(last.contributedReal).toBe(12000);
+    expect(last.balanceReal).toBeCloseTo(12000, 6);
+    expect(last.netBalanceReal).toBeCloseTo(12000 * 0.65, 6);
+
+    const vgbl = projectPension(
+      { ...pension, plan: "vgbl", realMonthlyRate: 0.01 },
+      options
+    )[12];
+    const gains = vgbl.balanceReal - 12000;
+    expect(gains).toBeGreaterThan(0);
+    expect(vgbl.taxReal).toBeCloseTo(gains * 0.35, 6);
+  });
+
+  it("charges less on contributions held for longer", () => {
+    const old = projectPension(
+      { ...pension, monthlyContributionReal: 0, pvToday: 10000 },
+      { ...options, months: 121 }
+    );
+    expect(old[121].netBalanceReal).toBeCloseTo(9000, 6);
+    expect(old[0].netBalanceReal).toBeCloseTo(6500, 6);
+  });
+
+  it("taxes the progressive income together with the INSS", () => {
+    const progressive = {
+      ...pension,
+      table: "progressive" as const,
+      monthlyContributionReal: 0,
+      pvToday: 1_200_000,
+    };
+    const alone = projectPension(progressive, { ...options, months: 0 })[0];
+    expect(alone.taxReal).toBe(0);
+
+    const withInss = projectPension(progressive, {
+      ...options,
+      months: 0,
+      otherTaxableIncome: 3000,
+    })[0];
+    const rate = (incomeTaxMonthly(8000) - incomeTaxMonthly(3000)) / 5000;
+    expect(withInss.taxReal).toBeCloseTo(1_200_000 * rate, 4);
+  });
+});
@@ -0,0 +1,215 @@
+import { annualToMonthlyRate } from "./finance";
+
+// Previdência privada (PGBL/VGBL), projetada à parte da carteira da meta:
+// - PGBL: o aporte abate até 12% da renda bruta tributável na declaração
+//   completa, e o IR no resgate incide sobre o saldo todo
+// - VGBL: sem dedução; o IR incide só sobre o rendimento
+// Tabela escolhida na contratação:
+// - "regressive": alíquota pelo prazo de cada aporte, de 35% (até 2 anos) a
+//   10% (acima de 10 anos), definitiva
+// - "progressive": a renda recebida entra na tabela mensal do IRPF junto com
+//   o INSS
+// Valores em R$ de hoje: a tabela do IRPF é tratada como corrigida pela
+// inflação, o que a lei não garante.
+export type PensionPlanType = "pgbl" | "vgbl";
+export type PensionTaxTable = "regressive" | "progressive";
+
+export type PrivatePension = {
+  plan: PensionPlanType;
+  table: PensionTaxTable;
+  monthlyContributionReal: number; // reajustado pela inflação, fim do mês
+  pvToday: number; // saldo atual, tratado como aplicado hoje
+  realMonthlyRate: number; // já descontada a taxa de administração
+};
+
+// INSS: renda vitalícia a partir de `startAge`
+export type PublicPension = {
+  monthlyBenefitReal: number; // bruto, R$ de hoje
+  startAge: number;
+};
+
+export type PensionPoint = {
+  month: number;
+  contributedReal: number;
+  balanceReal: number;
+  taxReal: number; // IR se o plano passasse a ser resgatado neste mês
+  netBalanceReal: number;
+};
+
+// Tabela mensal do IRPF (a partir de maio/2025): até, alíquota, dedução
+const INCOME_TAX_TABLE = [
+  { upTo: 2428.8, rate: 0, deduction: 0 },
+  { upTo: 2826.65, rate: 0.075, deduction: 182.16 },
+  { upTo: 3751.05, rate: 0.15, deduction: 394.16 },
+  { upTo: 4664.68, rate: 0.225, deduction: 675.49 },
+  { upTo: Infinity, rate: 0.275, deduction: 908.73 },
+];
+
+// Desconto simplificado mensal, usado quando as deduções são menores
+const SIMPLIFIED_DISCOUNT = 607.2;
+
+// Lei 15.270/2025: redução que zera o imposto até R$ 5 mil por mês e some
+// aos poucos até R$ 7.350
+const RELIEF_FULL_UP_TO = 5000;
+const RELIEF_PARTIAL_UP_TO = 7350;
+
+// Limite da dedução do PGBL, sobre a renda bruta tributável
+export const PGBL_DEDUCTION_LIMIT = 0.12;
+
+/** Alíquota da tabela regressiva da previdência pelo tempo de cada aporte. */
+export function pensionRegressiveRate(monthsHeld: number): number {
+  if (monthsHeld <= 24) return 0.35;
+  if (monthsHeld <= 48) return 0.3;
+  if (monthsHeld <= 72) return 0.25;
+  if (monthsHeld <= 96) return 0.2;
+  if (monthsHeld <= 120) return 0.15;
+  return 0.1;
+}
+
+/**
+ * IRPF do mês sobre a renda tributável, com o desconto simplificado ou as
+ * deduções informadas (o que for maior) e a redução de 2026.
+ */
+export function incomeTaxMonthly(income: number, deductions = 0): number {
+  if (!(income > 0)) return 0;
+  const base = Math.max(
+    0,
+    income - Math.max(SIMPLIFIED_DISCOUNT, Math.max(0, deductions))
+  );
+  const bracket = INCOME_TAX_TABLE.find((b) => base <= b.upTo)!;
+  const tax = Math.max(0, base * bracket.rate - bracket.deduction);
+  const relief =
+    income <= RELIEF_FULL_UP_TO
+      ? tax
+      : income <= RELIEF_PARTIAL_UP_TO
+        ? Math.max(0, 978.62 - 0.133145 * income)
+        : 0;
+  return Math.max(0, tax - relief);
+}
+
+/**
+ * Parte do aporte no PGBL que abate a renda (até 12% dela) e o IR que isso
+ * devolve por mês. A restituição sai uma vez por ano; aqui vem em 1/12.
+ */
+export function pgblTaxRefund(
+  monthlyContribution: number,
+  monthlyGrossIncome: number
+): { deductible: number; refund: number } {
+  const deductible = Math.min(
+    Math.max(0, monthlyContribution),
+    PGBL_DEDUCTION_LIMIT * Math.max(0, monthlyGrossIncome)
+  );
+  const refund =
+    incomeTaxMonthly(monthlyGrossIncome) -
+    incomeTaxMonthly(monthlyGrossIncome, deductible);
+  return { deductible, refund: Math.max(0, refund) };
+}
+
+/**
+ * Valor do INSS em `valuationAge` (R$ de hoje): benefícios líquidos do IR de
+ * `startAge` até `lifeExpectancy`, no começo de cada mês, descontados pelo
+ * retorno real da aposentadoria.
+ */
+export function publicPensionValue(
+  pension: PublicPension,
+  options: {
+    valuationAge: number;
+    lifeExpectancy: number;
+    realAnnualReturn: number;
+  }
+): number {
+  const benefit = Math.max(0, pension.monthlyBenefitReal);
+  const net = benefit - incomeTaxMonthly(benefit);
+  const growth = 1 + annualToMonthlyRate(options.realAnnualReturn);
+  if (!(net > 0) || !(growth > 0)) return 0;
+  const months = Math.round(
+    (options.lifeExpectancy - options.valuationAge) * 12
+  );
+  const first = Math.max(
+    0,
+    Math.round((pension.startAge - options.valuationAge) * 12)
+  );
+  let total = 0;
+  let discount = growth ** -first;
+  for (let k = first; k < months; k++) {
+    total += net * discount;
+    discount /= growth;
+  }
+  return total;
+}
+
+// Renda mensal constante que esgota `balance` em `months` meses
+function level(balance: number, rate: number, months: number): number {
+  if (months <= 0) return balance;
+  if (Math.abs(rate) < 1e-12) return balance / months;
+  return (balance * rate) / (1 - (1 + rate) ** -months);
+}
+
+/**
+ * Saldo da previdência mês a mês (0..`months`), bruto e líquido do IR. Na
+ * tabela progressiva o saldo vira renda por `payoutMonths` meses, somada a
+ * `otherTaxableIncome` (ex.: INSS) na tabela do IRPF.
+ */
+export function projectPension(
+  pension: PrivatePension,
+  options: {
+    months: number;
+    inflationMonthlyRate: number;
+    payoutMonths: number;
+    otherTaxableIncome: number;
+  }
+): PensionPoint[] {
+  const r = pension.realMonthlyRate;
+  const i = options.inflationMonthlyRate;
+  const other = Math.max(0, options.otherTaxableIncome);
+  const lots: { month: number; amount: number }[] = [];
+  const points: PensionPoint[] = [];
+  let contributedReal = 0;
+
+  for (let t = 0; t <= options.months; t++) {
+    const amount =
+      t === 0
+        ? Math.max(0, pension.pvToday)
+        : Math.max(0, pension.monthlyContributionReal);
+    if (amount > 0) lots.push({ month: t, amount });
+    contributedReal += amount;
+
+    let balanceReal = 0;
+    let taxableReal = 0;
+    let regressiveTax = 0;
+    for (const lot of lots) {
+      const held = t - lot.month;
+      const value = lot.amount * (1 + r) ** held;
+      // Custo do aporte corrigido para R$ de hoje: o ganho é nominal
+      const basis = lot.amount / (1 + i) ** held;
+      const taxable =
+        pension.plan === "pgbl" ? value : Math.max(0, value - basis);
+      balanceReal += value;
+      taxableReal += taxable;
+      regressiveTax += taxable * pensionRegressiveRate(held);
+    }
+
+    let taxReal = regressiveTax;
+    if (pension.table === "progressive") {
+      const income = level(balanceReal, r, options.payoutMonths);
+      const taxableIncome =
+        balanceReal > 0 ? (income * taxableReal) / balanceReal : 0;
+      const rate =
+        taxableIncome > 0
+          ? (incomeTaxMonthly(other + taxableIncome) -
+              incomeTaxMonthly(other)) /
+            taxableIncome
+          : 0;
+      taxReal = taxableReal * rate;
+    }
+
+    points.push({
+      month: t,
+      contributedReal,
+      balanceReal,
+      taxReal,
+      netBalanceReal: balanceReal - taxReal,
+    });
+  }
+  return points;
+}
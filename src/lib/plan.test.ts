@@ -0,0 +1,500 @@
+import { describe, expect, it } from "vitest";
+import {
+  annualToMonthlyRate,
+  realMonthlyRateFromGross,
+  solveRequiredPmt,
+} from "./finance";
+import {
+  evaluatePlan,
+  feesFromInputs,
+  glidePathFromInputs,
+  goalsFromInputs,
+  grossMonthlyPctFromInputs,
+  householdFromInputs,
+  inssValueFromInputs,
+  pensionProjectionFromInputs,
+  planEventsFromInputs,
+  privatePensionFromInputs,
+  ratePathFromInputs,
+  reserveFromInputs,
+  scenarioGrossMonthlyPct,
+  scheduleFromInputs,
+  targetTodayFromInputs,
+  taxRegimeFromInputs,
+} from "./plan";
+import { pgblTaxRefund, publicPensionValue } from "./pension";
+import { DEFAULT_PRESET } from "./presets";
+import { cdiPercentMonthlyRate } from "./products";
+
+const manual = {
+  ...DEFAULT_PRESET,
+  usarTempoDoModelo: false,
+  idadeAtual: "30",
+  idadeAlvoManual: "50",
+};
+
+describe("plan inputs", () => {
+  it("uses the scenario rate or the custom one", () => {
+    expect(scenarioGrossMonthlyPct("otimista", "9")).toBe(0.8);
+    expect(scenarioGrossMonthlyPct("personalizado", "1,2")).toBe(1.2);
+  });
+
+  it("takes the rate and the tax from the chosen product", () => {
+    const lci = {
+      ...DEFAULT_PRESET,
+      scenarioKey: "produto" as const,
+      produtoKey: "lciLca" as const,
+      produtoTaxaPct: "95",
+      cdiAnualPct: "12",
+    };
+    expect(grossMonthlyPctFromInputs(lci)).toBeCloseTo(
+      cdiPercentMonthlyRate(0.12, 0.95) * 100,
+      10
+    );
+    expect(taxRegimeFromInputs(lci)).toBe("exempt");
+    expect(taxRegimeFromInputs({ ...lci, scenarioKey: "base" })).toBe(
+      "regressive"
+    );
+  });
+
+  it("builds the rate curve with blanks taken from the plan", () => {
+    const fallback = { grossMonthlyRate: 0.006, inflationMonthlyRate: 0.004 };
+    expect(ratePathFromInputs([], fallback)).toBeUndefined();
+    const path = ratePathFromInputs(
+      [
+        { anos: "2", rendimentoAnualPct: "", ipcaAnualPct: "5,5" },
+        { anos: "0", rendimentoAnualPct: "20", ipcaAnualPct: "" },
+      ],
+      fallback
+    )!;
+    expect(path.inflationMonthly).toHaveLength(24);
+    expect(path.inflationMonthly[0]).toBe(annualToMonthlyRate(0.055));
+    expect(path.realMonthly[0]).toBeCloseTo(
+      1.006 / (1 + annualToMonthlyRate(0.055)) - 1,
+      12
+    );
+  });
+
+  it("starts the glide path the chosen years before the target", () => {
+    const inputs = { ...DEFAULT_PRESET, usarTransicao: true };
+    expect(glidePathFromInputs(DEFAULT_PRESET, 240, 0.004)).toBeUndefined();
+    expect(glidePathFromInputs(inputs, null, 0.004)).toBeUndefined();
+
+    const glide = glidePathFromInputs(inputs, 240, 0.004)!;
+    expect(glide.startMonth).toBe(180);
+    expect(glide.months).toBe(60);
+    expect(glide.realMonthlyRate).toBeCloseTo(1.005 / 1.004 - 1, 12);
+    expect(glide.grossMonthlyVolatility).toBeCloseTo(0.003, 12);
+    // Não começa antes de hoje
+    expect(glidePathFromInputs(inputs, 24, 0.004)!.startMonth).toBe(0);
+  });
+
+  it("has no fees unless some is set", () => {
+    expect(feesFromInputs(DEFAULT_PRESET)).toBeUndefined();
+    const fees = feesFromInputs({
+      ...DEFAULT_PRESET,
+      taxaAdmAnualPct: "0,5",
+      taxaPerformancePct: "20",
+      cdiAnualPct: "12",
+    })!;
+    expect(fees.adminAnnualRate).toBeCloseTo(0.005, 12);
+    expect(fees.performanceRate).toBeCloseTo(0.2, 12);
+    expect(fees.performanceBenchmarkMonthlyRate).toBe(
+      annualToMonthlyRate(0.12)
+    );
+  });
+
+  it("has no schedule for a flat contribution", () => {
+    expect(scheduleFromInputs(DEFAULT_PRESET)).toBeUndefined();
+    expect(
+      scheduleFromInputs({
+        ...DEFAULT_PRESET,
+        eventosAporte: [
+          { kind: "pause", mes: "12", valor: "6" },
+          { kind: "extra", mes: "3", valor: "0" },
+        ],
+      })?.events
+    ).toEqual([{ kind: "pause", month: 12, months: 6 }]);
+  });
+
+  it("turns event ages into plan months and drops past events", () => {
+    const events = planEventsFromInputs(
+      [
+        { descricao: "", idade: "35", valor: "100000", tipo: "withdrawal" },
+        {
+          descricao: "Herança",
+          idade: "40,5",
+          valor: "50000",
+          tipo: "deposit",
+        },
+        { descricao: "Antigo", idade: "29", valor: "1000", tipo: "deposit" },
+      ],
+      30
+    );
+    expect(events).toEqual([
+      { month: 60, amountReal: -100000, label: "Retirada" },
+      { month: 126, amountReal: 50000, label: "Herança" },
+    ]);
+  });
+});
+
+describe("emergency reserve", () => {
+  it("targets months of expenses at the reserve's own rate", () => {
+    const inflM = annualToMonthlyRate(0.045);
+    expect(reserveFromInputs(DEFAULT_PRESET, inflM)).toBeUndefined();
+    expect(
+      reserveFromInputs(
+        { ...DEFAULT_PRESET, usarReserva: true, reservaAtual: "2000" },
+        inflM
+      )
+    ).toEqual({
+      targetReal: 18000,
+      startReal: 2000,
+      realMonthlyRate: realMonthlyRateFromGross({
+        grossMonthlyRate: 0.008,
+        taxOnGainsRate: 0,
+        inflationMonthlyRate: inflM,
+      }),
+    });
+    expect(
+      reserveFromInputs(
+        { ...DEFAULT_PRESET, usarReserva: true, despesaMensal: "" },
+        inflM
+      )
+    ).toBeUndefined();
+  });
+
+  it("asks for more when the reserve comes first", () => {
+    const base = evaluatePlan(manual, 0);
+    const result = evaluatePlan({ ...manual, usarReserva: true }, 0);
+    expect(result.requiredPmt!).toBeGreaterThan(base.requiredPmt!);
+    expect(result.monthsWithMyPmt!).toBeGreaterThan(base.monthsWithMyPmt!);
+    const last = result.projection![result.projection!.length - 1];
+    expect(last.reserveReal).toBeGreaterThanOrEqual(18000);
+  });
+});
+
+describe("household", () => {
+  const couple = {
+    ...manual,
+    modoCasal: true,
+    rendaMensal: "6000",
+    aportePctRenda: "10",
+    idadeFimAporte: "45",
+    idadeParceiro: "34",
+    rendaParceiro: "4000",
+    aportePctRendaParceiro: "15",
+    inicioAporteParceiroMes: "12",
+  };
+
+  it("splits the household contribution between the partners", () => {
+    expect(householdFromInputs(manual)).toBeUndefined();
+    expect(householdFromInputs(couple)).toEqual({
+      contributors: [
+        { share: 0.5, startMonth: 0, endMonth: 180 },
+        { share: 0.5, startMonth: 12, endMonth: null },
+      ],
+      monthlyContribution: 1200,
+      income: 10000,
+      partnerAgeOffset: 4,
+    });
+  });
+
+  it("reports the target by each partner's age", () => {
+    const result = evaluatePlan(couple, 0);
+    expect(result.targetAge).toBe(50);
+    expect(result.partnerTargetAge).toBe(54);
+    expect(evaluatePlan(manual, 0).partnerTargetAge).toBeNull();
+    const last = result.projection![result.projection!.length - 1];
+    expect(last.netBalanceReal).toBeGreaterThanOrEqual(1000000 - 1);
+    // Depois dos 45 anos só o(a) parceiro(a) aporta
+    expect(last.contributionReal).toBeCloseTo(result.requiredPmt! / 2, 6);
+  });
+});
+
+describe("goals", () => {
+  it("turns the goals into deadlines and rates, skipping empty ones", () => {
+    const fallback = { grossMonthlyRate: 0.008, inflationMonthlyRate: 0.004 };
+    const goals = goalsFromInputs(
+      [
+        {
+          descricao: "Casa",
+          valor: "200000",
+          idade: "32",
+          rendimentoMensalPct: "",
+          saldoAtual: "30000",
+        },
+        {
+          descricao: "",
+          valor: "150000",
+          idade: "45",
+          rendimentoMensalPct: "0,6",
+          saldoAtual: "",
+        },
+        {
+          descricao: "Vazia",
+          valor: "",
+          idade: "50",
+          rendimentoMensalPct: "",
+          saldoAtual: "0",
+        },
+      ],
+      30,
+      fallback
+    );
+    expect(goals).toEqual([
+      {
+        label: "Casa",
+        targetToday: 200000,
+        months: 24,
+        pvToday: 30000,
+        realMonthlyRate: realMonthlyRateFromGross({
+          grossMonthlyRate: 0.008,
+          taxOnGainsRate: 0,
+          inflationMonthlyRate: 0.004,
+        }),
+      },
+      {
+        label: "Meta 2",
+        targetToday: 150000,
+        months: 180,
+        pvToday: 0,
+        realMonthlyRate: realMonthlyRateFromGross({
+          grossMonthlyRate: 0.006,
+          taxOnGainsRate: 0,
+          inflationMonthlyRate: 0.004,
+        }),
+      },
+    ]);
+  });
+});
+
+describe("FIRE target", () => {
+  const fire = {
+    ...manual,
+    usarMetaFire: true,
+    gastoMensalFire: "8000",
+    taxaRetiradaFirePct: "4",
+  };
+
+  it("derives the target from the monthly spending", () => {
+    expect(targetTodayFromInputs(manual)).toBe(1000000);
+    expect(targetTodayFromInputs(fire)).toBeCloseTo(2_400_000, 6);
+    expect(targetTodayFromInputs({ ...fire, taxaRetiradaFirePct: "0" })).toBe(
+      0
+    );
+  });
+
+  it("plans for the derived target", () => {
+    const result = evaluatePlan(fire, 0);
+    expect(result.requiredPmt!).toBeGreaterThan(
+      evaluatePlan(manual, 0).requiredPmt!
+    );
+    const last = result.projection![result.projection!.length - 1];
+    expect(last.netBalanceReal).toBeGreaterThanOrEqual(2_400_000 - 1);
+  });
+});
+
+describe("INSS", () => {
+  const withInss = { ...manual, beneficioInss: "3000", idadeInss: "65" };
+
+  it("values the benefit at the target age", () => {
+    expect(inssValueFromInputs(withInss, null)).toBe(0);
+    expect(inssValueFromInputs(manual, 50)).toBe(0);
+    // Sem retorno real: 25 anos de benefício, dos 65 aos 90
+    expect(
+      inssValueFromInputs({ ...withInss, rendimentoRealFirePct: "0" }, 50)
+    ).toBeCloseTo(3000 * 300, 6);
+    expect(inssValueFromInputs(withInss, 50)).toBeLessThan(3000 * 300);
+  });
+
+  it("lowers the portfolio target in every goal mode", () => {
+    const fixed = evaluatePlan(withInss, 0);
+    expect(evaluatePlan(manual, 0).inssValueReal).toBe(0);
+    expect(fixed.inssValueReal).toBeCloseTo(
+      inssValueFromInputs(withInss, 50),
+      6
+    );
+    expect(fixed.requiredPmt!).toBeLessThan(
+      evaluatePlan(manual, 0).requiredPmt!
+    );
+    const last = fixed.projection![fixed.projection!.length - 1];
+    expect(last.netBalanceReal).toBeGreaterThanOrEqual(
+      1000000 - fixed.inssValueReal - 1
+    );
+
+    const fire = {
+      ...withInss,
+      usarMetaFire: true,
+      gastoMensalFire: "8000",
+      taxaRetiradaFirePct: "4",
+    };
+    expect(evaluatePlan(fire, 0).requiredPmt!).toBeLessThan(
+      evaluatePlan({ ...fire, beneficioInss: "0" }, 0).requiredPmt!
+    );
+  });
+
+  it("values the benefit when the FIRE withdrawals start", () => {
+    // Alvo aos 50, independência aos 60, INSS dos 55 aos 90
+    const fire = {
+      ...withInss,
+      idadeInss: "55",
+      usarMetaFire: true,
+      idadeIndependencia: "60",
+    };
+    const atIndependence = publicPensionValue(
+      { monthlyBenefitReal: 3000, startAge: 55 },
+      { valuationAge: 60, lifeExpectancy: 90, realAnnualReturn: 0.04 }
+    );
+    expect(inssValueFromInputs(fire, 50)).toBeCloseTo(atIndependence, 6);
+    expect(evaluatePlan(fire, 0).inssValueReal).toBeCloseTo(atIndependence, 6);
+    // Sem a meta pelo gasto, vale a idade-alvo
+    expect(
+      inssValueFromInputs({ ...fire, usarMetaFire: false }, 50)
+    ).toBeCloseTo(
+      publicPensionValue(
+        { monthlyBenefitReal: 3000, startAge: 55 },
+        { valuationAge: 50, lifeExpectancy: 90, realAnnualReturn: 0.04 }
+      ),
+      6
+    );
+    expect(
+      inssValueFromInputs({ ...fire, rendimentoRealFirePct: "0" }, 50)
+    ).toBeCloseTo(3000 * 360, 6);
+  });
+});
+
+describe("private pension", () => {
+  const withPension = {
+    ...manual,
+    usarPrevidencia: true,
+    aportePrevidencia: "500",
+    saldoPrevidencia: "20000",
+    taxaAdmPrevidenciaPct: "1,2",
+  };
+  const rates = { grossMonthlyRate: 0.006, inflationMonthlyRate: 0.003 };
+
+  it("uses the plan's rate minus the administration fee", () => {
+    expect(privatePensionFromInputs(manual, rates)).toBeUndefined();
+    const pension = privatePensionFromInputs(withPension, rates)!;
+    const real = realMonthlyRateFromGross({
+      grossMonthlyRate: 0.006,
+      taxOnGainsRate: 0,
+      inflationMonthlyRate: 0.003,
+    });
+    expect(pension.realMonthlyRate).toBeCloseTo((1 + real) * 0.999 - 1, 12);
+    expect(pension.monthlyContributionReal).toBe(500);
+    expect(pension.pvToday).toBe(20000);
+    expect(
+      privatePensionFromInputs(
+        { ...withPension, rendimentoPrevidenciaPct: "0,3" },
+        rates
+      )!.realMonthlyRate
+    ).toBeLessThan(pension.realMonthlyRate);
+    expect(
+      pensionProjectionFromInputs(
+        withPension,
+        { months: null, targetAge: null },
+        rates
+      )
+    ).toBeNull();
+  });
+
+  it("reinvests the PGBL refund", () => {
+    const rich = {
+      ...withPension,
+      aportePrevidencia: "2000",
+      rendaMensal: "10000",
+    };
+    const refund = pgblTaxRefund(2000, 10000).refund;
+    expect(refund).toBeGreaterThan(0);
+    expect(
+      privatePensionFromInputs(rich, rates)!.monthlyContributionReal
+    ).toBeCloseTo(2000 + refund, 6);
+    expect(
+      privatePensionFromInputs({ ...rich, tipoPrevidencia: "vgbl" }, rates)!
+        .monthlyContributionReal
+    ).toBe(2000);
+  });
+
+  it("lowers the portfolio target by the net pension", () => {
+    const base = evaluatePlan(manual, 0);
+    const result = evaluatePlan(withPension, 0);
+    expect(base.pensionNetReal).toBeNull();
+    expect(result.pensionNetReal!).toBeGreaterThan(0);
+    expect(result.requiredPmt!).toBeLessThan(base.requiredPmt!);
+    const last = result.projection![result.projection!.length - 1];
+    expect(last.netBalanceReal).toBeGreaterThanOrEqual(
+      1000000 - result.pensionNetReal! - 1
+    );
+    expect(last.netBalanceReal).toBeLessThan(1000000 - 1);
+  });
+});
+
+describe("evaluatePlan", () => {
+  it("matches the engine for a manual target age", () => {
+    const result = evaluatePlan(manual, 0);
+    expect(result.months).toBe(240);
+    expect(result.targetAge).toBe(50);
+
+    const inflM = annualToMonthlyRate(0.045);
+    const pmt = solveRequiredPmt({
+      pvToday: 50000,
+      targetToday: 1000000,
+      months: 240,
+      ageNow: 30,
+      realMonthlyRate: realMonthlyRateFromGross({
+        grossMonthlyRate: 0.006,
+        taxOnGainsRate: 0,
+        inflationMonthlyRate: inflM,
+      }),
+      inflationMonthlyRate: inflM,
+      indexation: "inflationAdjusted",
+      timing: "end",
+      taxRegime: "regressive",
+      startCalendarMonth: 0,
+    });
+    expect(result.requiredPmt).toBeCloseTo(pmt!, 6);
+
+    const last = result.projection![result.projection!.length - 1];
+    expect(last.month).toBe(240);
+    expect(last.netBalanceReal).toBeGreaterThanOrEqual(1000000 - 1);
+  });
+
+  it("asks for more with fees", () => {
+    const base = evaluatePlan(manual, 0).requiredPmt!;
+    const withFees = evaluatePlan({ ...manual, taxaAdmAnualPct: "1" }, 0);
+    expect(withFees.requiredPmt!).toBeGreaterThan(base);
+    const last = withFees.projection![withFees.projection!.length - 1];
+    expect(last.feesPaidReal).toBeGreaterThan(0);
+  });
+
+  it("asks for more with a glide path", () => {
+    const base = evaluatePlan(manual, 0).requiredPmt!;
+    const glide = evaluatePlan({ ...manual, usarTransicao: true }, 0);
+    expect(glide.requiredPmt!).toBeGreaterThan(base);
+  });
+
+  it("asks for more with a safety margin", () => {
+    const base = evaluatePlan(manual, 0).requiredPmt!;
+    const safer = evaluatePlan(
+      { ...manual, margemSeguranca: "haircut", margemBp: "100" },
+      0
+    ).requiredPmt!;
+    expect(safer).toBeGreaterThan(base);
+  });
+
+  it("has no target without a future target age", () => {
+    const result = evaluatePlan({ ...manual, idadeAlvoManual: "25" }, 0);
+    expect(result.months).toBeNull();
+    expect(result.requiredPmt).toBeNull();
+    expect(result.projection).toBeNull();
+    expect(result.monthsWithMyPmt).not.toBeNull();
+  });
+
+  it("uses the benchmark time when asked", () => {
+    const result = evaluatePlan(DEFAULT_PRESET, 0);
+    expect(result.months).toBeGreaterThan(0);
+    expect(result.targetAge).toBeCloseTo(23 + result.months! / 12, 1);
+  });
+});
@@ -0,0 +1,772 @@
+import { hasFees } from "./fees";
+import type { InvestmentFees } from "./fees";
+import {
+  annualToMonthlyRate,
+  clamp,
+  monthsToTarget,
+  parseNumberBR,
+  ratePathFromPhases,
+  realMonthlyRateFromGross,
+  simulateProjection,
+  solveRequiredPmt,
+} from "./finance";
+import type {
+  BenchmarkKey,
+  EmergencyReserve,
+  GlidePath,
+  PlanEvent,
+  RatePath,
+  ScenarioKey,
+  SimulationPoint,
+} from "./finance";
+import { fireTarget } from "./fire";
+import type { Goal } from "./goals";
+import { solveRequiredPmtForProbability } from "./montecarlo";
+import { pgblTaxRefund, projectPension, publicPensionValue } from "./pension";
+import type { PensionPoint, PrivatePension } from "./pension";
+import type { Portfolio } from "./portfolio";
+import type {
+  GoalInput,
+  PlanEventInput,
+  PortfolioClassInput,
+  PresetPayload,
+  RatePhaseInput,
+} from "./presets";
+import { FIXED_INCOME_PRODUCTS, productGrossMonthlyRate } from "./products";
+import type { MarketRates } from "./products";
+import type {
+  ContributionEvent,
+  ContributionSchedule,
+  Contributor,
+} from "./schedule";
+import type { TaxRegime } from "./tax";
+
+// Do plano como digitado (`PresetPayload`) até os parâmetros do motor. O App
+// usa as mesmas funções, então um preset avaliado aqui dá os mesmos números
+// que ele mostraria carregado.
+
+export type Benchmark = {
+  label: string;
+  baseAge: number;
+  income: number;
+  startBalance: number;
+};
+
+export type Scenario = {
+  key: Exclude<ScenarioKey, "personalizado">;
+  label: string;
+  grossMonthlyPct: number; // bruto ao mês
+};
+
+export const BENCHMARKS: Record<BenchmarkKey, Benchmark> = {
+  investidor: {
+    label: "Investidor BR (benchmark)",
+    baseAge: 43,
+    income: 6299,
+    startBalance: 2270,
+  },
+  populacao: {
+    label: "População geral (benchmark)",
+    baseAge: 43,
+    income: 4520,
+    startBalance: 0,
+  },
+};
+
+export const SCENARIOS: Scenario[] = [
+  { key: "pessimista", label: "Pessimista", grossMonthlyPct: 0.4 },
+  { key: "base", label: "Base", grossMonthlyPct: 0.6 },
+  { key: "otimista", label: "Otimista", grossMonthlyPct: 0.8 },
+];
+
+/** Rentabilidade bruta ao mês (em %) do cenário escolhido. */
+export function scenarioGrossMonthlyPct(
+  scenarioKey: ScenarioKey,
+  customPct: string
+): number {
+  if (scenarioKey === "personalizado") return parseNumberBR(customPct);
+  const preset = SCENARIOS.find((s) => s.key === scenarioKey);
+  return preset?.grossMonthlyPct ?? 0.6;
+}
+
+type ReturnInputs = Pick<
+  PresetPayload,
+  | "scenarioKey"
+  | "rendimentoMensalPctPersonalizado"
+  | "produtoKey"
+  | "produtoTaxaPct"
+  | "selicAnualPct"
+  | "cdiAnualPct"
+  | "trAnualPct"
+  | "inflacaoAnualPct"
+  | "taxRegime"
+>;
+
+export function marketFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    "selicAnualPct" | "cdiAnualPct" | "trAnualPct" | "inflacaoAnualPct"
+  >
+): MarketRates {
+  return {
+    selicAnnualRate: parseNumberBR(inputs.selicAnualPct) / 100,
+    cdiAnnualRate: parseNumberBR(inputs.cdiAnualPct) / 100,
+    ipcaAnnualRate: inputs.inflacaoAnualPct / 100,
+    trAnnualRate: parseNumberBR(inputs.trAnualPct) / 100,
+  };
+}
+
+/** Rentabilidade bruta ao mês (em %): do cenário ou do produto escolhido. */
+export function grossMonthlyPctFromInputs(inputs: ReturnInputs): number {
+  if (inputs.scenarioKey !== "produto") {
+    return scenarioGrossMonthlyPct(
+      inputs.scenarioKey,
+      inputs.rendimentoMensalPctPersonalizado
+    );
+  }
+  return (
+    productGrossMonthlyRate(
+      inputs.produtoKey,
+      parseNumberBR(inputs.produtoTaxaPct),
+      marketFromInputs(inputs)
+    ) * 100
+  );
+}
+
+/** Com um produto escolhido, o IR é o dele; senão, o escolhido no plano. */
+export function taxRegimeFromInputs(inputs: ReturnInputs): TaxRegime {
+  return inputs.scenarioKey === "produto"
+    ? FIXED_INCOME_PRODUCTS[inputs.produtoKey].taxRegime
+    : inputs.taxRegime;
+}
+
+export function portfolioFromInputs(
+  classes: PortfolioClassInput[],
+  rebalanceAnnual: boolean,
+  inflationMonthlyRate: number
+): Portfolio {
+  return {
+    rebalance: rebalanceAnnual ? "annual" : "none",
+    classes: classes.map((c) => ({
+      key: c.key,
+      targetWeight: Math.max(0, parseNumberBR(c.pesoPct)),
+      realMonthlyRate: realMonthlyRateFromGross({
+        grossMonthlyRate: parseNumberBR(c.rendimentoMensalPct) / 100,
+        taxOnGainsRate: 0,
+        inflationMonthlyRate,
+      }),
+      taxRegime: c.taxRegime,
+    })),
+  };
+}
+
+/**
+ * Trajetória da curva de taxas, ou `undefined` sem fases. Campos vazios usam
+ * a rentabilidade bruta e a inflação constantes do plano.
+ */
+export function ratePathFromInputs(
+  phases: RatePhaseInput[],
+  fallback: { grossMonthlyRate: number; inflationMonthlyRate: number }
+): RatePath | undefined {
+  const rate = (value: string) =>
+    value.trim() === "" ? null : parseNumberBR(value) / 100;
+  const valid = phases.filter((p) => parseNumberBR(p.anos) > 0);
+  if (valid.length === 0) return undefined;
+  return ratePathFromPhases(
+    valid.map((p) => ({
+      years: parseNumberBR(p.anos),
+      grossAnnualRate: rate(p.rendimentoAnualPct),
+      inflationAnnualRate: rate(p.ipcaAnualPct),
+    })),
+    fallback
+  );
+}
+
+/**
+ * Transição para o perfil de preservação nos últimos anos antes da idade-alvo
+ * (`months` meses a partir de hoje), ou `undefined` se desligada.
+ */
+export function glidePathFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "usarTransicao"
+    | "anosTransicao"
+    | "rendimentoPreservacaoPct"
+    | "volPreservacaoPct"
+  >,
+  months: number | null,
+  inflationMonthlyRate: number
+): GlidePath | undefined {
+  if (!inputs.usarTransicao || months == null) return undefined;
+  const glideMonths = Math.min(
+    months,
+    Math.max(0, Math.round(parseNumberBR(inputs.anosTransicao) * 12))
+  );
+  if (glideMonths === 0) return undefined;
+  return {
+    startMonth: months - glideMonths,
+    months: glideMonths,
+    realMonthlyRate: realMonthlyRateFromGross({
+      grossMonthlyRate: parseNumberBR(inputs.rendimentoPreservacaoPct) / 100,
+      taxOnGainsRate: 0,
+      inflationMonthlyRate,
+    }),
+    grossMonthlyVolatility:
+      Math.max(0, parseNumberBR(inputs.volPreservacaoPct)) / 100,
+  };
+}
+
+/** Reserva de emergência a encher antes da meta, ou `undefined` se desligada. */
+export function reserveFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "usarReserva"
+    | "despesaMensal"
+    | "mesesReserva"
+    | "reservaAtual"
+    | "rendimentoReservaPct"
+  >,
+  inflationMonthlyRate: number
+): EmergencyReserve | undefined {
+  if (!inputs.usarReserva) return undefined;
+  const targetReal =
+    Math.max(0, parseNumberBR(inputs.despesaMensal)) *
+    Math.max(0, parseNumberBR(inputs.mesesReserva));
+  if (targetReal === 0) return undefined;
+  return {
+    targetReal,
+    startReal: Math.max(0, parseNumberBR(inputs.reservaAtual)),
+    realMonthlyRate: realMonthlyRateFromGross({
+      grossMonthlyRate: parseNumberBR(inputs.rendimentoReservaPct) / 100,
+      taxOnGainsRate: 0,
+      inflationMonthlyRate,
+    }),
+  };
+}
+
+/** Taxas do plano, ou `undefined` se não há nenhuma. */
+export function feesFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "taxaAdmAnualPct"
+    | "taxaCustodiaAnualPct"
+    | "taxaPerformancePct"
+    | "corretagemPorAporte"
+    | "cdiAnualPct"
+  >
+): InvestmentFees | undefined {
+  const fees: InvestmentFees = {
+    adminAnnualRate: Math.max(0, parseNumberBR(inputs.taxaAdmAnualPct)) / 100,
+    custodyAnnualRate:
+      Math.max(0, parseNumberBR(inputs.taxaCustodiaAnualPct)) / 100,
+    performanceRate:
+      clamp(parseNumberBR(inputs.taxaPerformancePct), 0, 100) / 100,
+    // A performance é cobrada sobre o que passar do CDI do plano
+    performanceBenchmarkMonthlyRate: annualToMonthlyRate(
+      parseNumberBR(inputs.cdiAnualPct) / 100
+    ),
+    brokeragePerContribution: Math.max(
+      0,
+      parseNumberBR(inputs.corretagemPorAporte)
+    ),
+  };
+  return hasFees(fees) ? fees : undefined;
+}
+
+/** Cronograma do aporte, ou `undefined` se for o aporte constante. */
+export function scheduleFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "aumentoRealAnualPct"
+    | "aporte13"
+    | "plrMultiplo"
+    | "plrMes"
+    | "eventosAporte"
+  >
+): ContributionSchedule | undefined {
+  const events = inputs.eventosAporte.flatMap((e): ContributionEvent[] => {
+    const month = Math.floor(parseNumberBR(e.mes));
+    const valor = parseNumberBR(e.valor);
+    if (month < 0 || !(valor > 0)) return [];
+    return e.kind === "pause"
+      ? [{ kind: "pause", month, months: Math.round(valor) }]
+      : [{ kind: "extra", month, amount: valor }];
+  });
+  const realRaiseAnnualRate = parseNumberBR(inputs.aumentoRealAnualPct) / 100;
+  const bonusMultiple = Math.max(0, parseNumberBR(inputs.plrMultiplo));
+  if (
+    realRaiseAnnualRate === 0 &&
+    !inputs.aporte13 &&
+    bonusMultiple === 0 &&
+    events.length === 0
+  )
+    return undefined;
+  return {
+    realRaiseAnnualRate,
+    thirteenth: inputs.aporte13,
+    bonusMultiple,
+    bonusCalendarMonth: inputs.plrMes,
+    events,
+  };
+}
+
+/**
+ * Meta em R$ de hoje: a digitada ou, com a meta de independência ligada, o
+ * patrimônio que banca o gasto mensal desejado. Antes do INSS e da
+ * previdência, abatidos em `evaluatePlan`.
+ */
+export function targetTodayFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "meta"
+    | "usarMetaFire"
+    | "gastoMensalFire"
+    | "metodoFire"
+    | "taxaRetiradaFirePct"
+    | "rendimentoRealFirePct"
+    | "idadeIndependencia"
+    | "expectativaVida"
+  >
+): number {
+  if (!inputs.usarMetaFire) return Math.max(0, parseNumberBR(inputs.meta));
+  const target = fireTarget({
+    monthlySpendingReal: parseNumberBR(inputs.gastoMensalFire),
+    method: inputs.metodoFire,
+    withdrawalAnnualRate: parseNumberBR(inputs.taxaRetiradaFirePct) / 100,
+    realAnnualReturn: parseNumberBR(inputs.rendimentoRealFirePct) / 100,
+    retirementAge: parseNumberBR(inputs.idadeIndependencia),
+    lifeExpectancy: parseNumberBR(inputs.expectativaVida),
+  });
+  return Math.max(0, target ?? 0);
+}
+
+/**
+ * Valor do INSS (R$ de hoje) na idade em que começam as retiradas: a da
+ * independência com a meta pelo gasto, senão a idade-alvo. Descontado pelo
+ * rendimento real na aposentadoria, abate a meta da carteira em qualquer
+ * modo de meta; zero sem benefício ou sem essa idade.
+ */
+export function inssValueFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "beneficioInss"
+    | "idadeInss"
+    | "expectativaVida"
+    | "rendimentoRealFirePct"
+    | "usarMetaFire"
+    | "idadeIndependencia"
+  >,
+  targetAge: number | null
+): number {
+  const valuationAge = inputs.usarMetaFire
+    ? parseNumberBR(inputs.idadeIndependencia)
+    : targetAge;
+  if (valuationAge == null) return 0;
+  return publicPensionValue(
+    {
+      monthlyBenefitReal: parseNumberBR(inputs.beneficioInss),
+      startAge: parseNumberBR(inputs.idadeInss),
+    },
+    {
+      valuationAge,
+      lifeExpectancy: parseNumberBR(inputs.expectativaVida),
+      realAnnualReturn: parseNumberBR(inputs.rendimentoRealFirePct) / 100,
+    }
+  );
+}
+
+/**
+ * Previdência privada do plano, ou `undefined` se desligada. No PGBL a
+ * restituição do IR volta para o plano junto com o aporte.
+ */
+export function privatePensionFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "rendaMensal"
+    | "usarPrevidencia"
+    | "tipoPrevidencia"
+    | "tabelaPrevidencia"
+    | "aportePrevidencia"
+    | "saldoPrevidencia"
+    | "rendimentoPrevidenciaPct"
+    | "taxaAdmPrevidenciaPct"
+  >,
+  fallback: { grossMonthlyRate: number; inflationMonthlyRate: number }
+): PrivatePension | undefined {
+  if (!inputs.usarPrevidencia) return undefined;
+  const gross =
+    inputs.rendimentoPrevidenciaPct.trim() === ""
+      ? fallback.grossMonthlyRate
+      : parseNumberBR(inputs.rendimentoPrevidenciaPct) / 100;
+  const real = realMonthlyRateFromGross({
+    grossMonthlyRate: gross,
+    taxOnGainsRate: 0,
+    inflationMonthlyRate: fallback.inflationMonthlyRate,
+  });
+  const adminMonthly =
+    Math.max(0, parseNumberBR(inputs.taxaAdmPrevidenciaPct)) / 100 / 12;
+  const contribution = Math.max(0, parseNumberBR(inputs.aportePrevidencia));
+  const refund =
+    inputs.tipoPrevidencia === "pgbl"
+      ? pgblTaxRefund(contribution, parseNumberBR(inputs.rendaMensal)).refund
+      : 0;
+  return {
+    plan: inputs.tipoPrevidencia,
+    table: inputs.tabelaPrevidencia,
+    monthlyContributionReal: contribution + refund,
+    pvToday: Math.max(0, parseNumberBR(inputs.saldoPrevidencia)),
+    realMonthlyRate: (1 + real) * (1 - adminMonthly) - 1,
+  };
+}
+
+/**
+ * Previdência mês a mês até a idade-alvo, ou `null` sem previdência ou sem
+ * idade-alvo. Na tabela progressiva o saldo vira renda da idade-alvo até a
+ * expectativa de vida, tributada junto com o INSS.
+ */
+export function pensionProjectionFromInputs(
+  inputs: Parameters<typeof privatePensionFromInputs>[0] &
+    Pick<PresetPayload, "expectativaVida" | "beneficioInss">,
+  horizon: { months: number | null; targetAge: number | null },
+  fallback: { grossMonthlyRate: number; inflationMonthlyRate: number }
+): PensionPoint[] | null {
+  const pension = privatePensionFromInputs(inputs, fallback);
+  if (!pension || horizon.months == null || horizon.targetAge == null)
+    return null;
+  return projectPension(pension, {
+    months: horizon.months,
+    inflationMonthlyRate: fallback.inflationMonthlyRate,
+    payoutMonths: Math.max(
+      1,
+      Math.round(
+        (parseNumberBR(inputs.expectativaVida) - horizon.targetAge) * 12
+      )
+    ),
+    otherTaxableIncome: Math.max(0, parseNumberBR(inputs.beneficioInss)),
+  });
+}
+
+export type Household = {
+  contributors: Contributor[]; // [você, parceiro(a)]
+  monthlyContribution: number; // soma dos dois aportes (R$ de hoje)
+  income: number; // soma das rendas
+  partnerAgeOffset: number; // idade do(a) parceiro(a) menos a sua
+};
+
+/**
+ * Aporte do casal, ou `undefined` fora do modo casal. O aporte base do motor
+ * é a soma dos dois, e cada um entra com a sua fração dele enquanto aporta.
+ */
+export function householdFromInputs(
+  inputs: Pick<
+    PresetPayload,
+    | "modoCasal"
+    | "rendaMensal"
+    | "idadeAtual"
+    | "aportePctRenda"
+    | "inicioAporteMes"
+    | "idadeFimAporte"
+    | "idadeParceiro"
+    | "rendaParceiro"
+    | "aportePctRendaParceiro"
+    | "inicioAporteParceiroMes"
+    | "idadeFimAporteParceiro"
+  >
+): Household | undefined {
+  if (!inputs.modoCasal) return undefined;
+  const ageNow = Math.max(0, parseNumberBR(inputs.idadeAtual));
+  const partnerAge = Math.max(0, parseNumberBR(inputs.idadeParceiro));
+  const people = [
+    {
+      renda: Math.max(0, parseNumberBR(inputs.rendaMensal)),
+      pct: inputs.aportePctRenda,
+      inicio: inputs.inicioAporteMes,
+      idadeFim: inputs.idadeFimAporte,
+      age: ageNow,
+    },
+    {
+      renda: Math.max(0, parseNumberBR(inputs.rendaParceiro)),
+      pct: inputs.aportePctRendaParceiro,
+      inicio: inputs.inicioAporteParceiroMes,
+      idadeFim: inputs.idadeFimAporteParceiro,
+      age: partnerAge,
+    },
+  ].map((p) => ({
+    amount: (p.renda * Math.max(0, parseNumberBR(p.pct))) / 100,
+    renda: p.renda,
+    startMonth: Math.max(0, Math.floor(parseNumberBR(p.inicio))),
+    endMonth:
+      p.idadeFim.trim() === ""
+        ? null
+        : Math.max(0, Math.round((parseNumberBR(p.idadeFim) - p.age) * 12)),
+  }));
+  const total = people.reduce((sum, p) => sum + p.amount, 0);
+  return {
+    // Sem aporte nenhum, metade para cada (o aporte necessário ainda se divide)
+    contributors: people.map((p) => ({
+      share: total > 0 ? p.amount / total : 1 / people.length,
+      startMonth: p.startMonth,
+      endMonth: p.endMonth,
+    })),
+    monthlyContribution: total,
+    income: people.reduce((sum, p) => sum + p.renda, 0),
+    partnerAgeOffset: partnerAge - ageNow,
+  };
+}
+
+/** Eventos por idade viram meses do plano; os que ficam no passado saem. */
+export function planEventsFromInputs(
+  inputs: PlanEventInput[],
+  ageNow: number
+): PlanEvent[] {
+  return inputs.flatMap((e) => {
+    const month = Math.round((parseNumberBR(e.idade) - ageNow) * 12);
+    const valor = Math.abs(parseNumberBR(e.valor));
+    if (month < 0 || valor === 0) return [];
+    return [
+      {
+        month,
+        amountReal: e.tipo === "withdrawal" ? -valor : valor,
+        label:
+          e.descricao.trim() ||
+          (e.tipo === "withdrawal" ? "Retirada" : "Entrada"),
+      },
+    ];
+  });
+}
+
+/**
+ * Metas extras com prazo por idade. Sem valor, saem; rendimento vazio usa a
+ * rentabilidade bruta do plano.
+ */
+export function goalsFromInputs(
+  inputs: GoalInput[],
+  ageNow: number,
+  fallback: { grossMonthlyRate: number; inflationMonthlyRate: number }
+): Goal[] {
+  return inputs.flatMap((g, i) => {
+    const targetToday = parseNumberBR(g.valor);
+    if (!(targetToday > 0)) return [];
+    const gross =
+      g.rendimentoMensalPct.trim() === ""
+        ? fallback.grossMonthlyRate
+        : parseNumberBR(g.rendimentoMensalPct) / 100;
+    return [
+      {
+        label: g.descricao.trim() || `Meta ${i + 1}`,
+        targetToday,
+        months: Math.max(0, Math.round((parseNumberBR(g.idade) - ageNow) * 12)),
+        pvToday: Math.max(0, parseNumberBR(g.saldoAtual)),
+        realMonthlyRate: realMonthlyRateFromGross({
+          grossMonthlyRate: gross,
+          taxOnGainsRate: 0,
+          inflationMonthlyRate: fallback.inflationMonthlyRate,
+        }),
+      },
+    ];
+  });
+}
+
+export type PlanEvaluation = {
+  targetAge: number | null;
+  partnerTargetAge: number | null; // modo casal: idade do(a) parceiro(a)
+  months: number | null; // até a idade-alvo
+  requiredPmt: number | null; // com a margem de segurança do plano
+  projection: SimulationPoint[] | null; // com o aporte necessário
+  monthsWithMyPmt: number | null; // até a meta aportando `meuAporte` (ou o do casal)
+  pensionNetReal: number | null; // previdência líquida na idade-alvo
+  inssValueReal: number; // INSS como patrimônio, ver `inssValueFromInputs`
+};
+
+/**
+ * Resultado principal de um plano salvo: idade-alvo, aporte necessário e
+ * projeção, com as mesmas regras da tela de resultado.
+ */
+export function evaluatePlan(
+  payload: PresetPayload,
+  startCalendarMonth: number
+): PlanEvaluation {
+  const b = BENCHMARKS[payload.benchmarkKey];
+  const pvToday = Math.max(0, parseNumberBR(payload.carteiraAtual));
+  const ageNow = Math.max(0, parseNumberBR(payload.idadeAtual));
+  const targetToday = targetTodayFromInputs(payload);
+  const household = householdFromInputs(payload);
+  const renda = household
+    ? household.income
+    : Math.max(0, parseNumberBR(payload.rendaMensal));
+
+  const inflM = annualToMonthlyRate(payload.inflacaoAnualPct / 100);
+  const grossMonthlyRate = grossMonthlyPctFromInputs(payload) / 100;
+  const taxRegime = taxRegimeFromInputs(payload);
+
+  const schedule = scheduleFromInputs(payload);
+  const events = planEventsFromInputs(payload.eventosPlano, ageNow);
+  const params = {
+    realMonthlyRate: realMonthlyRateFromGross({
+      grossMonthlyRate,
+      taxOnGainsRate: 0,
+      inflationMonthlyRate: inflM,
+    }),
+    inflationMonthlyRate: inflM,
+    indexation: payload.indexation,
+    timing: payload.timing,
+    taxRegime,
+    startCalendarMonth,
+    portfolio: payload.usarCarteira
+      ? portfolioFromInputs(
+          payload.carteiraClasses,
+          payload.rebalanceamentoAnual,
+          inflM
+        )
+      : undefined,
+    ratePath: ratePathFromInputs(payload.curvaTaxas, {
+      grossMonthlyRate,
+      inflationMonthlyRate: inflM,
+    }),
+    schedule,
+    contributors: household?.contributors,
+    events,
+    fees: feesFromInputs(payload),
+    reserve: reserveFromInputs(payload, inflM),
+  };
+
+  // Idade-alvo: mesmo tempo que o benchmark leva ou, sem ele, a digitada
+  let targetAge: number | null = null;
+  if (payload.usarTempoDoModelo) {
+    const modelPmt =
+      ((renda > 0 ? renda : b.income) *
+        Math.max(0, parseNumberBR(payload.taxaAporteModeloPct))) /
+      100;
+    const modelMonths = monthsToTarget({
+      ...params,
+      schedule: undefined,
+      contributors: undefined,
+      events: undefined,
+      reserve: undefined,
+      pvToday: b.startBalance,
+      pmt0: modelPmt,
+      targetToday,
+      ageNow: b.baseAge,
+      maxMonths: 2400,
+    });
+    if (modelMonths != null) targetAge = ageNow + modelMonths / 12;
+  }
+  if (targetAge == null) {
+    const manual = parseNumberBR(payload.idadeAlvoManual);
+    if (manual > 0) targetAge = manual;
+  }
+
+  const years = targetAge == null ? 0 : targetAge - ageNow;
+  const months = years > 0 ? Math.round(years * 12) : null;
+  const glidePath = glidePathFromInputs(payload, months, inflM);
+  const partnerTargetAge =
+    household && targetAge != null
+      ? targetAge + household.partnerAgeOffset
+      : null;
+
+  // A previdência e o INSS chegam à idade-alvo por conta própria: a carteira
+  // só precisa cobrir o resto da meta
+  const pension = pensionProjectionFromInputs(
+    payload,
+    { months, targetAge },
+    { grossMonthlyRate, inflationMonthlyRate: inflM }
+  );
+  const pensionNetReal = pension
+    ? pension[pension.length - 1].netBalanceReal
+    : null;
+  const inssValueReal = inssValueFromInputs(payload, targetAge);
+  const portfolioTarget = Math.max(
+    0,
+    targetToday - (pensionNetReal ?? 0) - inssValueReal
+  );
+
+  const monthsWithMyPmt = monthsToTarget({
+    ...params,
+    glidePath,
+    pvToday,
+    pmt0: household
+      ? household.monthlyContribution
+      : Math.max(0, parseNumberBR(payload.meuAporte)),
+    targetToday: portfolioTarget,
+    ageNow,
+  });
+
+  if (months == null) {
+    return {
+      targetAge,
+      partnerTargetAge,
+      months,
+      requiredPmt: null,
+      projection: null,
+      monthsWithMyPmt,
+      pensionNetReal,
+      inssValueReal,
+    };
+  }
+
+  let requiredPmt: number | null;
+  if (
+    payload.margemSeguranca === "probability" &&
+    payload.projectionMode === "monteCarlo"
+  ) {
+    requiredPmt = solveRequiredPmtForProbability({
+      pvToday,
+      months,
+      ageNow,
+      indexation: payload.indexation,
+      timing: payload.timing,
+      taxRegime,
+      startCalendarMonth,
+      schedule,
+      contributors: household?.contributors,
+      events,
+      fees: params.fees,
+      reserve: params.reserve,
+      glidePath,
+      targetToday: portfolioTarget,
+      meanGrossMonthlyRate: grossMonthlyRate,
+      grossMonthlyVolatility:
+        Math.max(0, parseNumberBR(payload.volRetornoMensalPct)) / 100,
+      meanInflationMonthlyRate: inflM,
+      inflationMonthlyVolatility:
+        Math.max(0, parseNumberBR(payload.volInflacaoMensalPct)) / 100,
+      paths: clamp(parseNumberBR(payload.simulacoesMC), 100, 5000),
+      seed: parseNumberBR(payload.seedMC),
+      requiredProbability:
+        clamp(parseNumberBR(payload.probabilidadeMinimaPct), 1, 99) / 100,
+    });
+  } else {
+    requiredPmt = solveRequiredPmt({
+      ...params,
+      glidePath,
+      pvToday,
+      targetToday: portfolioTarget,
+      months,
+      ageNow,
+      safetyMarginBp:
+        payload.margemSeguranca === "haircut"
+          ? Math.max(0, parseNumberBR(payload.margemBp))
+          : 0,
+    });
+  }
+
+  const projection = simulateProjection({
+    ...params,
+    glidePath,
+    pvToday,
+    pmt0: requiredPmt ?? 0,
+    months,
+    ageNow,
+  });
+
+  return {
+    targetAge,
+    partnerTargetAge,
+    months,
+    requiredPmt,
+    projection,
+    monthsWithMyPmt,
+    pensionNetReal,
+    inssValueReal,
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizedWeights,
+  rebalanceTrades,
+  routeContribution,
+} from "./portfolio";
+
+describe("portfolio weights", () => {
+  it("normalizes target weights", () => {
+    expect(
+      normalizedWeights([
+        { key: "posFixado", targetWeight: 60, realMonthlyRate: 0 },
+        { key: "acoesBr", targetWeight: 40, realMonthlyRate: 0 },
+      ])
+    ).toEqual([0.6, 0.4]);
+    expect(
+      normalizedWeights([
+        { key: "posFixado", targetWeight: 0, realMonthlyRate: 0 },
+        { key: "acoesBr", targetWeight: -1, realMonthlyRate: 0 },
+      ])
+    ).toEqual([0.5, 0.5]);
+  });
+});
+
+describe("contribution routing", () => {
+  it("sends the contribution to underweight classes", () => {
+    // alvo 50/50 com 1.000: a segunda classe está 200 abaixo
+    const shares = routeContribution([600, 200], [0.5, 0.5], 200);
+    expect(shares[0]).toBeCloseTo(0);
+    expect(shares[1]).toBeCloseTo(1);
+  });
+
+  it("splits proportionally to the gaps", () => {
+    const shares = routeContribution([500, 0, 0], [0.5, 0.25, 0.25], 500);
+    expect(shares).toEqual([0, 0.5, 0.5]);
+  });
+
+  it("falls back to target weights on an empty portfolio", () => {
+    expect(routeContribution([0, 0], [0.7, 0.3], 0)).toEqual([0.7, 0.3]);
+  });
+});
+
+describe("rebalancing", () => {
+  it("computes trades back to target", () => {
+    expect(rebalanceTrades([700, 300], [0.5, 0.5])).toEqual([-200, 200]);
+  });
+});
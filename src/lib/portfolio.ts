@@ -0,0 +1,56 @@
+import type { TaxRegime } from "./tax";
+
+export type AssetClassKey =
+  | "posFixado"
+  | "ipcaMais"
+  | "acoesBr"
+  | "exterior"
+  | "fiis";
+
+export type PortfolioClass = {
+  key: AssetClassKey;
+  targetWeight: number; // pesos são normalizados pela soma
+  realMonthlyRate: number; // taxa real antes do IR
+  taxRegime?: TaxRegime;
+};
+
+export type PortfolioRebalance = "none" | "annual";
+
+export type Portfolio = {
+  classes: PortfolioClass[];
+  rebalance: PortfolioRebalance;
+};
+
+/** Pesos-alvo somando 1 (pesos negativos contam como zero). */
+export function normalizedWeights(classes: PortfolioClass[]): number[] {
+  const raw = classes.map((c) => Math.max(0, c.targetWeight));
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return classes.map(() => 1 / Math.max(1, classes.length));
+  return raw.map((w) => w / total);
+}
+
+/**
+ * Divide um aporte entre as classes abaixo do peso-alvo, proporcionalmente ao
+ * quanto falta para cada uma chegar ao alvo depois do aporte. Devolve as
+ * frações do aporte (somam 1).
+ */
+export function routeContribution(
+  balances: number[],
+  weights: number[],
+  amount: number
+): number[] {
+  const total = balances.reduce((sum, b) => sum + b, 0) + Math.max(0, amount);
+  const gaps = weights.map((w, i) => Math.max(0, w * total - balances[i]));
+  const totalGap = gaps.reduce((sum, g) => sum + g, 0);
+  if (totalGap <= 0) return weights;
+  return gaps.map((g) => g / totalGap);
+}
+
+/**
+ * Quanto comprar (positivo) ou vender (negativo) de cada classe para voltar
+ * exatamente aos pesos-alvo.
+ */
+export function rebalanceTrades(balances: number[], weights: number[]) {
+  const total = balances.reduce((sum, b) => sum + b, 0);
+  return weights.map((w, i) => w * total - balances[i]);
+}
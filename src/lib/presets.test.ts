@@ -0,0 +1,277 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PRESET,
+  PRESET_FIELD_ORDER,
+  PRESET_VERSION,
+  diffPresetPayloads,
+  mergePresets,
+  migratePresetData,
+  parsePresetFile,
+  parseStoredPresets,
+  previewPresetImport,
+  serializePresetFile,
+  uniquePresetName,
+  validatePresetPayload,
+} from "./presets";
+
+// Preset salvo antes do IR por produto (sem `version`)
+const v1 = {
+  benchmarkKey: "populacao",
+  taxaAporteModeloPct: "12",
+  rendaMensal: "3000",
+  carteiraAtual: "20000",
+  idadeAtual: "30",
+  meta: "500000",
+  scenarioKey: "otimista",
+  rendimentoMensalPctPersonalizado: "1.0",
+  inflacaoAnualPct: 4,
+  impostoEfetivoPct: 15,
+  indexation: "fixedNominal",
+  timing: "begin",
+  displayMode: "nominal",
+  usarTempoDoModelo: false,
+  idadeAlvoManual: "55",
+  meuAporte: "800",
+};
+
+describe("preset migrations", () => {
+  it("maps the single tax rate to a tax regime", () => {
+    const migrated = migratePresetData(v1, 1);
+    expect(migrated.taxRegime).toBe("regressive");
+    expect(migrated).not.toHaveProperty("impostoEfetivoPct");
+    expect(migratePresetData({ impostoEfetivoPct: 0 }, 1).taxRegime).toBe(
+      "exempt"
+    );
+  });
+
+  it("adds the newer features switched off", () => {
+    expect(migratePresetData({ meta: "1" }, 2)).toMatchObject({
+      meta: "1",
+      usarPrevidencia: false,
+      usarMetaFire: false,
+      beneficioInss: "0",
+      metas: [],
+      usarReserva: false,
+      modoCasal: false,
+      usarTransicao: false,
+      curvaTaxas: [],
+      taxaAdmAnualPct: "0",
+      taxaCustodiaAnualPct: "0",
+      taxaPerformancePct: "0",
+      corretagemPorAporte: "0",
+    });
+    // Valores que o plano já traz prevalecem
+    expect(migratePresetData({ taxaAdmAnualPct: "1" }, 3).taxaAdmAnualPct).toBe(
+      "1"
+    );
+    const { invalid } = validatePresetPayload(migratePresetData(v1, 1));
+    expect(invalid).toEqual([]);
+  });
+
+  it("lists every field once in the link order", () => {
+    expect([...PRESET_FIELD_ORDER].sort()).toEqual(
+      Object.keys(DEFAULT_PRESET).sort()
+    );
+  });
+
+  it("leaves current presets untouched", () => {
+    const data = { meta: "1", taxRegime: "stocks" };
+    expect(migratePresetData(data, PRESET_VERSION)).toBe(data);
+  });
+});
+
+describe("preset validation", () => {
+  it("fills missing fields with defaults without flagging them", () => {
+    const { payload, invalid } = validatePresetPayload({ meta: "2000000" });
+    expect(invalid).toEqual([]);
+    expect(payload).toEqual({ ...DEFAULT_PRESET, meta: "2000000" });
+  });
+
+  it("replaces invalid fields and lists them", () => {
+    const { payload, invalid } = validatePresetPayload({
+      taxRegime: "poupanca",
+      inflacaoAnualPct: "4,5",
+      plrMes: 12,
+      usarCarteira: true,
+      carteiraClasses: [{ key: "cripto", pesoPct: "10" }],
+      eventosPlano: [
+        { descricao: "Carro", idade: "35", valor: "80000", tipo: "withdrawal" },
+      ],
+      unknownField: 1,
+    });
+    expect(invalid.sort()).toEqual([
+      "carteiraClasses",
+      "inflacaoAnualPct",
+      "plrMes",
+      "taxRegime",
+    ]);
+    expect(payload.taxRegime).toBe(DEFAULT_PRESET.taxRegime);
+    expect(payload.carteiraClasses).toBe(DEFAULT_PRESET.carteiraClasses);
+    expect(payload.usarCarteira).toBe(true);
+    expect(payload.eventosPlano).toHaveLength(1);
+    expect(payload).not.toHaveProperty("unknownField");
+  });
+});
+
+describe("stored presets", () => {
+  it("migrates, repairs and rejects with a report", () => {
+    const { presets, report } = parseStoredPresets([
+      { name: "antigo", data: v1 },
+      {
+        name: "quebrado",
+        version: PRESET_VERSION,
+        data: { meta: 10, timing: "end" },
+      },
+      { name: "  ", data: {} },
+      { name: "sem dados" },
+      { name: "futuro", version: PRESET_VERSION + 1, data: {} },
+      null,
+    ]);
+
+    expect(presets.map((p) => p.name)).toEqual(["antigo", "quebrado"]);
+    expect(presets.every((p) => p.version === PRESET_VERSION)).toBe(true);
+    expect(presets[0].data.taxRegime).toBe("regressive");
+    expect(presets[0].data.meta).toBe("500000");
+    expect(presets[1].data.meta).toBe(DEFAULT_PRESET.meta);
+
+    expect(report.migrated).toEqual([{ name: "antigo", fromVersion: 1 }]);
+    expect(report.repaired).toEqual([{ name: "quebrado", fields: ["meta"] }]);
+    expect(report.rejected.map((r) => r.name)).toEqual([
+      null,
+      "sem dados",
+      "futuro",
+      null,
+    ]);
+  });
+
+  it("keeps the entries it cannot open as they came", () => {
+    const future = { name: "futuro", version: PRESET_VERSION + 1, data: {} };
+    const { unreadable } = parseStoredPresets([
+      { name: "atual", version: PRESET_VERSION, data: { meta: "1" } },
+      future,
+      { name: "sem dados" },
+      null,
+    ]);
+    expect(unreadable).toEqual([future, { name: "sem dados" }]);
+    expect(unreadable[0]).toBe(future);
+    expect(parseStoredPresets({ outro: 1 }).unreadable).toEqual([{ outro: 1 }]);
+  });
+
+  it("keeps the last preset when names repeat", () => {
+    const { presets } = parseStoredPresets([
+      { name: "a", version: PRESET_VERSION, data: { meta: "1" } },
+      { name: "a", version: PRESET_VERSION, data: { meta: "2" } },
+    ]);
+    expect(presets).toHaveLength(1);
+    expect(presets[0].data.meta).toBe("2");
+  });
+
+  it("rejects anything that is not a list", () => {
+    expect(parseStoredPresets({}).report.rejected).toHaveLength(1);
+    expect(parseStoredPresets(null)).toEqual({
+      presets: [],
+      report: { repaired: [], migrated: [], rejected: [] },
+      unreadable: [],
+    });
+  });
+});
+
+describe("preset files", () => {
+  const mine = (name: string, meta: string) => ({
+    name,
+    version: PRESET_VERSION,
+    data: { ...DEFAULT_PRESET, meta },
+  });
+
+  it("round-trips an exported file through the same validation", () => {
+    const file = serializePresetFile([mine("a", "1"), mine("b", "2")]);
+    const { presets, report } = parsePresetFile(JSON.parse(file));
+    expect(presets).toEqual([mine("a", "1"), mine("b", "2")]);
+    expect(report.rejected).toEqual([]);
+
+    // A lista crua do localStorage também vale
+    const legacy = parsePresetFile([{ name: "antigo", data: v1 }]);
+    expect(legacy.presets[0].data.taxRegime).toBe("regressive");
+    expect(legacy.report.migrated).toHaveLength(1);
+  });
+
+  it("previews new, identical and conflicting names", () => {
+    const preview = previewPresetImport(
+      [mine("a", "1"), mine("b", "2")],
+      [mine("a", "1"), mine("b", "3"), mine("c", "4")]
+    );
+    expect(preview.map((i) => i.status)).toEqual([
+      "identical",
+      "conflict",
+      "new",
+    ]);
+  });
+
+  it("treats reordered keys as identical", () => {
+    const reordered = {
+      ...mine("a", "1"),
+      data: Object.fromEntries(
+        Object.entries(mine("a", "1").data).reverse()
+      ) as typeof DEFAULT_PRESET,
+    };
+    expect(previewPresetImport([mine("a", "1")], [reordered])[0].status).toBe(
+      "identical"
+    );
+  });
+
+  it("merges with each conflict resolution", () => {
+    const existing = [mine("a", "1"), mine("b", "2"), mine("b (2)", "9")];
+    const preview = previewPresetImport(existing, [
+      mine("a", "1"),
+      mine("b", "3"),
+      mine("c", "4"),
+    ]);
+
+    const overwrite = mergePresets(existing, preview, "overwrite");
+    expect(overwrite.presets.map((p) => [p.name, p.data.meta])).toEqual([
+      ["a", "1"],
+      ["b", "3"],
+      ["b (2)", "9"],
+      ["c", "4"],
+    ]);
+    expect(overwrite.summary).toEqual({
+      added: 1,
+      overwritten: 1,
+      renamed: 0,
+      skipped: 1,
+    });
+
+    const keepBoth = mergePresets(existing, preview, "keepBoth");
+    expect(keepBoth.presets.map((p) => [p.name, p.data.meta])).toEqual([
+      ["a", "1"],
+      ["b", "2"],
+      ["b (2)", "9"],
+      ["b (3)", "3"],
+      ["c", "4"],
+    ]);
+
+    const skip = mergePresets(existing, preview, "skip");
+    expect(skip.presets).toHaveLength(4);
+    expect(skip.summary.skipped).toBe(2);
+    expect(existing).toHaveLength(3);
+  });
+
+  it("finds the next free name", () => {
+    expect(uniquePresetName("x", [])).toBe("x");
+    expect(uniquePresetName("x", ["x", "x (2)"])).toBe("x (3)");
+  });
+});
+
+describe("preset diff", () => {
+  it("lists only the fields that differ between plans", () => {
+    const a = DEFAULT_PRESET;
+    const b = { ...DEFAULT_PRESET, meta: "2000000", aporte13: true };
+    const c = {
+      ...DEFAULT_PRESET,
+      carteiraClasses: DEFAULT_PRESET.carteiraClasses.map((k) => ({ ...k })),
+    };
+
+    expect(diffPresetPayloads([a, c])).toEqual([]);
+    expect(diffPresetPayloads([a, b, c])).toEqual(["meta", "aporte13"]);
+  });
+});
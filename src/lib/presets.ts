@@ -0,0 +1,793 @@
+import type {
+  BenchmarkKey,
+  ContributionIndexation,
+  ContributionTiming,
+  ScenarioKey,
+  WithdrawalRule,
+} from "./finance";
+import type { FireMethod } from "./fire";
+import type { GoalAllocation } from "./goals";
+import type { PensionPlanType, PensionTaxTable } from "./pension";
+import type { AssetClassKey } from "./portfolio";
+import type { FixedIncomeProductKey } from "./products";
+import type { TaxRegime } from "./tax";
+
+// Versões do formato do plano salvo (presets e links):
+// 1: alíquota única de IR (`impostoEfetivoPct`)
+// 2: IR por produto (`taxRegime`), carteira, Monte Carlo, retiradas, margem
+//    de segurança, cronograma do aporte e eventos
+// 3: produtos de renda fixa (Selic, CDI, TR)
+// 4: taxas de administração, custódia, performance e corretagem
+// 5: curva de rendimento e IPCA por fase
+// 6: transição para o perfil de preservação
+// 7: modo casal
+// 8: reserva de emergência
+// 9: várias metas com orçamento comum
+// 10: meta pelo gasto mensal e INSS
+// 11: previdência privada
+// Campo novo no plano = versão nova com a sua migração, e o campo no fim de
+// `PRESET_FIELD_ORDER`.
+export const PRESET_VERSION = 11;
+
+export type DisplayMode = "real" | "nominal";
+export type ProjectionMode = "deterministic" | "monteCarlo" | "backtest";
+export type SafetyMarginMode = "none" | "haircut" | "probability";
+
+export type PortfolioClassInput = {
+  key: AssetClassKey;
+  pesoPct: string;
+  rendimentoMensalPct: string; // bruto ao mês
+  taxRegime: TaxRegime;
+};
+
+export type ContributionEventInput = {
+  kind: "pause" | "extra";
+  mes: string; // mês do plano (0 = este mês)
+  valor: string; // duração em meses (pausa) ou R$ (extra)
+};
+
+// Fase da curva de taxas; campo vazio usa a taxa constante do plano
+export type RatePhaseInput = {
+  anos: string;
+  rendimentoAnualPct: string; // bruto
+  ipcaAnualPct: string;
+};
+
+// Meta extra com prazo e rentabilidade próprios; rendimento vazio usa o do
+// plano
+export type GoalInput = {
+  descricao: string;
+  valor: string; // R$ de hoje
+  idade: string; // prazo
+  rendimentoMensalPct: string; // bruto
+  saldoAtual: string; // já guardado para ela
+};
+
+export type PlanEventInput = {
+  descricao: string;
+  idade: string;
+  valor: string; // R$ de hoje
+  tipo: "withdrawal" | "deposit";
+};
+
+// Estado das entradas do app, como digitado (textos ficam como texto)
+export type PresetPayload = {
+  benchmarkKey: BenchmarkKey;
+  taxaAporteModeloPct: string;
+  rendaMensal: string;
+  carteiraAtual: string;
+  idadeAtual: string;
+  // Modo casal: duas rendas aportando numa carteira só. Cada um aporta um %
+  // da renda, do mês de início até a idade em que para (vazio = até a meta)
+  modoCasal: boolean;
+  aportePctRenda: string;
+  inicioAporteMes: string; // mês do plano (0 = este mês)
+  idadeFimAporte: string;
+  idadeParceiro: string;
+  rendaParceiro: string;
+  aportePctRendaParceiro: string;
+  inicioAporteParceiroMes: string;
+  idadeFimAporteParceiro: string;
+  meta: string;
+  // Meta pelo gasto mensal desejado (independência financeira): substitui
+  // `meta` quando ligada
+  usarMetaFire: boolean;
+  gastoMensalFire: string; // R$ de hoje
+  metodoFire: FireMethod;
+  taxaRetiradaFirePct: string; // % a.a.
+  rendimentoRealFirePct: string; // % a.a., na aposentadoria
+  idadeIndependencia: string;
+  beneficioInss: string; // INSS ou outra renda vitalícia, R$ de hoje/mês
+  idadeInss: string;
+  // Previdência privada, projetada à parte: o saldo líquido na idade-alvo
+  // abate a meta da carteira
+  usarPrevidencia: boolean;
+  tipoPrevidencia: PensionPlanType;
+  tabelaPrevidencia: PensionTaxTable;
+  aportePrevidencia: string; // R$ de hoje/mês
+  saldoPrevidencia: string;
+  rendimentoPrevidenciaPct: string; // bruto ao mês; vazio = o do plano
+  taxaAdmPrevidenciaPct: string; // % a.a.
+  // Reserva de emergência antes do objetivo: `mesesReserva` meses de
+  // `despesaMensal`, numa aplicação líquida à parte da carteira
+  usarReserva: boolean;
+  despesaMensal: string;
+  mesesReserva: string;
+  reservaAtual: string;
+  rendimentoReservaPct: string; // bruto ao mês
+  scenarioKey: ScenarioKey;
+  rendimentoMensalPctPersonalizado: string;
+  produtoKey: FixedIncomeProductKey;
+  produtoTaxaPct: string; // % do CDI, taxa real ou prefixada, conforme o produto
+  selicAnualPct: string;
+  cdiAnualPct: string;
+  trAnualPct: string;
+  inflacaoAnualPct: number; // também é o IPCA dos produtos
+  curvaTaxas: RatePhaseInput[];
+  usarTransicao: boolean;
+  anosTransicao: string; // últimos anos antes da idade-alvo
+  rendimentoPreservacaoPct: string; // bruto ao mês
+  volPreservacaoPct: string;
+  taxRegime: TaxRegime;
+  taxaAdmAnualPct: string;
+  taxaCustodiaAnualPct: string;
+  taxaPerformancePct: string; // sobre o que passar do CDI
+  corretagemPorAporte: string; // R$ de hoje
+  indexation: ContributionIndexation;
+  timing: ContributionTiming;
+  displayMode: DisplayMode;
+  usarTempoDoModelo: boolean;
+  idadeAlvoManual: string;
+  meuAporte: string;
+  projectionMode: ProjectionMode;
+  volRetornoMensalPct: string;
+  volInflacaoMensalPct: string;
+  simulacoesMC: string;
+  seedMC: string;
+  pctIbovBacktest: string;
+  usarCarteira: boolean;
+  carteiraClasses: PortfolioClassInput[];
+  rebalanceamentoAnual: boolean;
+  simularRetiradas: boolean;
+  expectativaVida: string;
+  regraRetirada: WithdrawalRule;
+  retiradaMensal: string;
+  taxaRetiradaPct: string;
+  margemSeguranca: SafetyMarginMode;
+  margemBp: string;
+  probabilidadeMinimaPct: string;
+  aumentoRealAnualPct: string;
+  aporte13: boolean;
+  plrMultiplo: string;
+  plrMes: number;
+  eventosAporte: ContributionEventInput[];
+  eventosPlano: PlanEventInput[];
+  // Várias metas dividindo um orçamento mensal (na ordem de prioridade)
+  metas: GoalInput[];
+  orcamentoMetas: string;
+  alocacaoMetas: GoalAllocation;
+};
+
+export type Preset = {
+  name: string;
+  version: number;
+  data: PresetPayload;
+};
+
+export const DEFAULT_PORTFOLIO: PortfolioClassInput[] = [
+  {
+    key: "posFixado",
+    pesoPct: "40",
+    rendimentoMensalPct: "0.8",
+    taxRegime: "regressive",
+  },
+  {
+    key: "ipcaMais",
+    pesoPct: "20",
+    rendimentoMensalPct: "0.85",
+    taxRegime: "regressive",
+  },
+  {
+    key: "acoesBr",
+    pesoPct: "20",
+    rendimentoMensalPct: "1.0",
+    taxRegime: "stocks",
+  },
+  {
+    key: "exterior",
+    pesoPct: "10",
+    rendimentoMensalPct: "0.95",
+    taxRegime: "stocks",
+  },
+  {
+    key: "fiis",
+    pesoPct: "10",
+    rendimentoMensalPct: "0.9",
+    taxRegime: "exempt",
+  },
+];
+
+export const DEFAULT_PRESET: PresetPayload = {
+  benchmarkKey: "investidor",
+  taxaAporteModeloPct: "10",
+  rendaMensal: "4520", // renda do benchmark "investidor"
+  carteiraAtual: "50000",
+  idadeAtual: "23",
+  modoCasal: false,
+  aportePctRenda: "10",
+  inicioAporteMes: "0",
+  idadeFimAporte: "",
+  idadeParceiro: "23",
+  rendaParceiro: "4520",
+  aportePctRendaParceiro: "10",
+  inicioAporteParceiroMes: "0",
+  idadeFimAporteParceiro: "",
+  meta: "1000000",
+  usarMetaFire: false,
+  gastoMensalFire: "8000",
+  metodoFire: "withdrawalRate",
+  taxaRetiradaFirePct: "4",
+  rendimentoRealFirePct: "4",
+  idadeIndependencia: "60",
+  beneficioInss: "0",
+  idadeInss: "65",
+  usarPrevidencia: false,
+  tipoPrevidencia: "pgbl",
+  tabelaPrevidencia: "regressive",
+  aportePrevidencia: "500",
+  saldoPrevidencia: "0",
+  rendimentoPrevidenciaPct: "",
+  taxaAdmPrevidenciaPct: "1",
+  usarReserva: false,
+  despesaMensal: "3000",
+  mesesReserva: "6",
+  reservaAtual: "0",
+  rendimentoReservaPct: "0,8",
+  scenarioKey: "base",
+  rendimentoMensalPctPersonalizado: "1.0",
+  produtoKey: "cdb",
+  produtoTaxaPct: "100",
+  selicAnualPct: "10,5",
+  cdiAnualPct: "10,4",
+  trAnualPct: "0,8",
+  inflacaoAnualPct: 4.5,
+  curvaTaxas: [],
+  usarTransicao: false,
+  anosTransicao: "5",
+  rendimentoPreservacaoPct: "0,5",
+  volPreservacaoPct: "0,3",
+  taxRegime: "regressive",
+  taxaAdmAnualPct: "0",
+  taxaCustodiaAnualPct: "0",
+  taxaPerformancePct: "0",
+  corretagemPorAporte: "0",
+  indexation: "inflationAdjusted",
+  timing: "end",
+  displayMode: "real",
+  usarTempoDoModelo: true,
+  idadeAlvoManual: "60",
+  meuAporte: "1000",
+  projectionMode: "deterministic",
+  volRetornoMensalPct: "1.5",
+  volInflacaoMensalPct: "0.2",
+  simulacoesMC: "1000",
+  seedMC: "42",
+  pctIbovBacktest: "30",
+  usarCarteira: false,
+  carteiraClasses: DEFAULT_PORTFOLIO,
+  rebalanceamentoAnual: true,
+  simularRetiradas: false,
+  expectativaVida: "90",
+  regraRetirada: "fixedReal",
+  retiradaMensal: "5000",
+  taxaRetiradaPct: "4",
+  margemSeguranca: "none",
+  margemBp: "100",
+  probabilidadeMinimaPct: "90",
+  aumentoRealAnualPct: "0",
+  aporte13: false,
+  plrMultiplo: "0",
+  plrMes: 1,
+  eventosAporte: [],
+  eventosPlano: [],
+  metas: [],
+  orcamentoMetas: "3000",
+  alocacaoMetas: "priority",
+};
+
+// Ordem dos campos nos links (`./share`): só cresce no fim, com os campos de
+// cada versão nova, para os links antigos continuarem abrindo.
+export const PRESET_FIELD_ORDER: readonly (keyof PresetPayload)[] = [
+  // 1 e 2
+  "benchmarkKey",
+  "taxaAporteModeloPct",
+  "rendaMensal",
+  "carteiraAtual",
+  "idadeAtual",
+  "meta",
+  "scenarioKey",
+  "rendimentoMensalPctPersonalizado",
+  "inflacaoAnualPct",
+  "taxRegime",
+  "indexation",
+  "timing",
+  "displayMode",
+  "usarTempoDoModelo",
+  "idadeAlvoManual",
+  "meuAporte",
+  "projectionMode",
+  "volRetornoMensalPct",
+  "volInflacaoMensalPct",
+  "simulacoesMC",
+  "seedMC",
+  "pctIbovBacktest",
+  "usarCarteira",
+  "carteiraClasses",
+  "rebalanceamentoAnual",
+  "simularRetiradas",
+  "expectativaVida",
+  "regraRetirada",
+  "retiradaMensal",
+  "taxaRetiradaPct",
+  "margemSeguranca",
+  "margemBp",
+  "probabilidadeMinimaPct",
+  "aumentoRealAnualPct",
+  "aporte13",
+  "plrMultiplo",
+  "plrMes",
+  "eventosAporte",
+  "eventosPlano",
+  // 3
+  "produtoKey",
+  "produtoTaxaPct",
+  "selicAnualPct",
+  "cdiAnualPct",
+  "trAnualPct",
+  // 4
+  "taxaAdmAnualPct",
+  "taxaCustodiaAnualPct",
+  "taxaPerformancePct",
+  "corretagemPorAporte",
+  // 5
+  "curvaTaxas",
+  // 6
+  "usarTransicao",
+  "anosTransicao",
+  "rendimentoPreservacaoPct",
+  "volPreservacaoPct",
+  // 7
+  "modoCasal",
+  "aportePctRenda",
+  "inicioAporteMes",
+  "idadeFimAporte",
+  "idadeParceiro",
+  "rendaParceiro",
+  "aportePctRendaParceiro",
+  "inicioAporteParceiroMes",
+  "idadeFimAporteParceiro",
+  // 8
+  "usarReserva",
+  "despesaMensal",
+  "mesesReserva",
+  "reservaAtual",
+  "rendimentoReservaPct",
+  // 9
+  "metas",
+  "orcamentoMetas",
+  "alocacaoMetas",
+  // 10
+  "usarMetaFire",
+  "gastoMensalFire",
+  "metodoFire",
+  "taxaRetiradaFirePct",
+  "rendimentoRealFirePct",
+  "idadeIndependencia",
+  "beneficioInss",
+  "idadeInss",
+  // 11
+  "usarPrevidencia",
+  "tipoPrevidencia",
+  "tabelaPrevidencia",
+  "aportePrevidencia",
+  "saldoPrevidencia",
+  "rendimentoPrevidenciaPct",
+  "taxaAdmPrevidenciaPct",
+];
+
+const TAX_REGIMES = [
+  "regressive",
+  "comeCotas",
+  "stocks",
+  "exempt",
+] as const satisfies readonly TaxRegime[];
+
+const ASSET_CLASS_KEYS = [
+  "posFixado",
+  "ipcaMais",
+  "acoesBr",
+  "exterior",
+  "fiis",
+] as const satisfies readonly AssetClassKey[];
+
+// Valores aceitos nos campos com opções fixas
+const PRESET_CHOICES: Partial<Record<keyof PresetPayload, readonly unknown[]>> =
+  {
+    benchmarkKey: ["investidor", "populacao"] satisfies BenchmarkKey[],
+    scenarioKey: [
+      "pessimista",
+      "base",
+      "otimista",
+      "personalizado",
+      "produto",
+    ] satisfies ScenarioKey[],
+    produtoKey: [
+      "cdb",
+      "tesouroSelic",
+      "tesouroIpca",
+      "prefixado",
+      "lciLca",
+      "poupanca",
+    ] satisfies FixedIncomeProductKey[],
+    taxRegime: TAX_REGIMES,
+    indexation: [
+      "inflationAdjusted",
+      "fixedNominal",
+    ] satisfies ContributionIndexation[],
+    timing: ["end", "begin"] satisfies ContributionTiming[],
+    displayMode: ["real", "nominal"] satisfies DisplayMode[],
+    projectionMode: [
+      "deterministic",
+      "monteCarlo",
+      "backtest",
+    ] satisfies ProjectionMode[],
+    regraRetirada: [
+      "fixedReal",
+      "percentOfBalance",
+      "guardrails",
+    ] satisfies WithdrawalRule[],
+    margemSeguranca: [
+      "none",
+      "haircut",
+      "probability",
+    ] satisfies SafetyMarginMode[],
+    plrMes: Array.from({ length: 12 }, (_, i) => i),
+    alocacaoMetas: ["priority", "proportional"] satisfies GoalAllocation[],
+    metodoFire: ["withdrawalRate", "annuity"] satisfies FireMethod[],
+    tipoPrevidencia: ["pgbl", "vgbl"] satisfies PensionPlanType[],
+    tabelaPrevidencia: [
+      "regressive",
+      "progressive",
+    ] satisfies PensionTaxTable[],
+  };
+
+// Campos de cada item das listas (null = qualquer texto)
+const PRESET_LIST_ITEMS: Partial<
+  Record<keyof PresetPayload, Record<string, readonly string[] | null>>
+> = {
+  carteiraClasses: {
+    key: ASSET_CLASS_KEYS,
+    pesoPct: null,
+    rendimentoMensalPct: null,
+    taxRegime: TAX_REGIMES,
+  },
+  curvaTaxas: { anos: null, rendimentoAnualPct: null, ipcaAnualPct: null },
+  eventosAporte: { kind: ["pause", "extra"], mes: null, valor: null },
+  eventosPlano: {
+    descricao: null,
+    idade: null,
+    valor: null,
+    tipo: ["withdrawal", "deposit"],
+  },
+  metas: {
+    descricao: null,
+    valor: null,
+    idade: null,
+    rendimentoMensalPct: null,
+    saldoAtual: null,
+  },
+};
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[v] leva um plano da versão v para a v + 1
+const MIGRATIONS: Record<number, Migration> = {
+  1: ({ impostoEfetivoPct, ...rest }) => {
+    // A alíquota única vira o produto mais próximo: 0% = isento, qualquer
+    // outra = tabela regressiva (15% no longo prazo)
+    if (typeof impostoEfetivoPct !== "number") return rest;
+    return {
+      ...rest,
+      taxRegime: impostoEfetivoPct <= 0 ? "exempt" : "regressive",
+    };
+  },
+  // 2 → 3: os produtos só valem no cenário "produto", que não existia;
+  // o plano continua igual
+  2: (data) => data,
+  // 3 → 4: sem taxas nem corretagem, como o plano era calculado
+  3: (data) => ({
+    taxaAdmAnualPct: "0",
+    taxaCustodiaAnualPct: "0",
+    taxaPerformancePct: "0",
+    corretagemPorAporte: "0",
+    ...data,
+  }),
+  // 4 → 5: sem curva, só a taxa e a inflação constantes
+  4: (data) => ({
+    curvaTaxas: [],
+    ...data,
+  }),
+  // 5 → 6: sem transição antes da idade-alvo
+  5: (data) => ({
+    usarTransicao: false,
+    ...data,
+  }),
+  // 6 → 7: só a sua renda e o seu aporte
+  6: (data) => ({
+    modoCasal: false,
+    ...data,
+  }),
+  // 7 → 8: sem reserva, o aporte vai todo para a meta
+  7: (data) => ({
+    usarReserva: false,
+    ...data,
+  }),
+  // 8 → 9: só a meta principal
+  8: (data) => ({
+    metas: [],
+    ...data,
+  }),
+  // 9 → 10: meta digitada e sem INSS
+  9: (data) => ({
+    usarMetaFire: false,
+    beneficioInss: "0",
+    ...data,
+  }),
+  // 10 → 11: sem previdência privada
+  10: (data) => ({
+    usarPrevidencia: false,
+    ...data,
+  }),
+};
+
+/** Aplica as migrações em sequência, de `fromVersion` até a versão atual. */
+export function migratePresetData(
+  data: Record<string, unknown>,
+  fromVersion: number
+): Record<string, unknown> {
+  let migrated = data;
+  for (let v = Math.max(1, fromVersion); v < PRESET_VERSION; v++) {
+    migrated = MIGRATIONS[v](migrated);
+  }
+  return migrated;
+}
+
+function isValidPresetField(key: keyof PresetPayload, value: unknown) {
+  const fallback = DEFAULT_PRESET[key];
+  if (Array.isArray(fallback)) {
+    const shape = PRESET_LIST_ITEMS[key] ?? {};
+    return (
+      Array.isArray(value) &&
+      value.every(
+        (item) =>
+          typeof item === "object" &&
+          item !== null &&
+          Object.entries(shape).every(([field, choices]) => {
+            const v = (item as Record<string, unknown>)[field];
+            return typeof v === "string" && (!choices || choices.includes(v));
+          })
+      )
+    );
+  }
+  if (typeof value !== typeof fallback) return false;
+  if (typeof value === "number" && !Number.isFinite(value)) return false;
+  const choices = PRESET_CHOICES[key];
+  return !choices || choices.includes(value);
+}
+
+/**
+ * Completa um plano (já na versão atual) com os valores padrão. Campos
+ * ausentes ficam no padrão sem aviso (planos antigos não têm os campos
+ * novos); campos presentes mas inválidos também, e são listados em `invalid`.
+ */
+export function validatePresetPayload(raw: Record<string, unknown>) {
+  const payload: Record<string, unknown> = { ...DEFAULT_PRESET };
+  const invalid: string[] = [];
+  for (const key of Object.keys(DEFAULT_PRESET) as (keyof PresetPayload)[]) {
+    if (!(key in raw)) continue;
+    if (isValidPresetField(key, raw[key])) payload[key] = raw[key];
+    else invalid.push(key);
+  }
+  return { payload: payload as PresetPayload, invalid };
+}
+
+export type PresetReport = {
+  // Presets carregados com campos inválidos trocados pelo padrão
+  repaired: { name: string; fields: string[] }[];
+  // Presets migrados de uma versão antiga
+  migrated: { name: string; fromVersion: number }[];
+  // Presets que não abrem (sem nome, sem dados ou de versão mais nova)
+  rejected: { name: string | null; reason: string }[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lê a lista de presets salva (JSON já interpretado). Presets sem `version`
+ * são da versão 1. Devolve os presets na versão atual, o que foi feito com
+ * cada um e, em `unreadable`, as entradas que não abrem, como vieram: quem
+ * grava a lista de volta as mantém (uma versão mais nova do app ainda as lê).
+ */
+export function parseStoredPresets(raw: unknown): {
+  presets: Preset[];
+  report: PresetReport;
+  unreadable: unknown[];
+} {
+  const report: PresetReport = { repaired: [], migrated: [], rejected: [] };
+  const unreadable: unknown[] = [];
+  if (!Array.isArray(raw)) {
+    if (raw != null) {
+      report.rejected.push({ name: null, reason: "A lista não é um array." });
+      unreadable.push(raw);
+    }
+    return { presets: [], report, unreadable };
+  }
+
+  const presets: Preset[] = [];
+  for (const item of raw) {
+    const name =
+      isRecord(item) && typeof item.name === "string" ? item.name.trim() : "";
+    if (!name) {
+      report.rejected.push({ name: null, reason: "Preset sem nome." });
+      if (item != null) unreadable.push(item);
+      continue;
+    }
+    if (!isRecord(item) || !isRecord(item.data)) {
+      report.rejected.push({ name, reason: "Preset sem dados." });
+      unreadable.push(item);
+      continue;
+    }
+    const version =
+      typeof item.version === "number" && Number.isInteger(item.version)
+        ? item.version
+        : 1;
+    if (version > PRESET_VERSION) {
+      report.rejected.push({
+        name,
+        reason: `Versão ${version} é mais nova que a suportada (${PRESET_VERSION}).`,
+      });
+      unreadable.push(item);
+      continue;
+    }
+
+    const { payload, invalid } = validatePresetPayload(
+      migratePresetData(item.data, version)
+    );
+    if (version < PRESET_VERSION) {
+      report.migrated.push({ name, fromVersion: version });
+    }
+    if (invalid.length > 0) report.repaired.push({ name, fields: invalid });
+
+    // Nomes repetidos: vale o último, como ao salvar
+    const existing = presets.findIndex((p) => p.name === name);
+    if (existing >= 0) presets.splice(existing, 1);
+    presets.push({ name, version: PRESET_VERSION, data: payload });
+  }
+  return { presets, report, unreadable };
+}
+
+// Arquivo de exportação: presets na versão atual, com um marcador de formato
+const PRESET_FILE_FORMAT = "calcAporte.presets";
+
+export function serializePresetFile(presets: Preset[]): string {
+  return JSON.stringify(
+    { format: PRESET_FILE_FORMAT, version: PRESET_VERSION, presets },
+    null,
+    2
+  );
+}
+
+/**
+ * Lê um arquivo exportado (ou só a lista, como fica no localStorage) com as
+ * mesmas migrações e validações dos presets salvos.
+ */
+export function parsePresetFile(raw: unknown) {
+  if (isRecord(raw) && raw.format === PRESET_FILE_FORMAT) {
+    return parseStoredPresets(raw.presets);
+  }
+  return parseStoredPresets(raw);
+}
+
+// JSON com as chaves em ordem, para comparar planos campo a campo
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (isRecord(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export type ImportStatus = "new" | "identical" | "conflict";
+
+export type ImportPreviewItem = { preset: Preset; status: ImportStatus };
+
+/** Classifica cada preset importado em relação aos que já existem. */
+export function previewPresetImport(
+  existing: Preset[],
+  incoming: Preset[]
+): ImportPreviewItem[] {
+  return incoming.map((preset) => {
+    const current = existing.find((p) => p.name === preset.name);
+    if (!current) return { preset, status: "new" };
+    return {
+      preset,
+      status:
+        stableStringify(current.data) === stableStringify(preset.data)
+          ? "identical"
+          : "conflict",
+    };
+  });
+}
+
+export type ConflictResolution = "overwrite" | "keepBoth" | "skip";
+
+/** Primeiro "nome (2)", "nome (3)"... que ainda não existe. */
+export function uniquePresetName(name: string, taken: string[]): string {
+  if (!taken.includes(name)) return name;
+  let n = 2;
+  while (taken.includes(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+}
+
+/**
+ * Junta os presets importados aos existentes. Idênticos são ignorados; nos
+ * conflitos vale `resolution` (sobrescrever, manter os dois renomeando o
+ * importado ou pular).
+ */
+export function mergePresets(
+  existing: Preset[],
+  preview: ImportPreviewItem[],
+  resolution: ConflictResolution
+) {
+  const presets = [...existing];
+  const summary = { added: 0, overwritten: 0, renamed: 0, skipped: 0 };
+
+  for (const { preset, status } of preview) {
+    if (status === "identical") {
+      summary.skipped++;
+    } else if (status === "new") {
+      presets.push(preset);
+      summary.added++;
+    } else if (resolution === "overwrite") {
+      const idx = presets.findIndex((p) => p.name === preset.name);
+      presets[idx] = preset;
+      summary.overwritten++;
+    } else if (resolution === "keepBoth") {
+      const name = uniquePresetName(
+        preset.name,
+        presets.map((p) => p.name)
+      );
+      presets.push({ ...preset, name });
+      summary.renamed++;
+    } else {
+      summary.skipped++;
+    }
+  }
+  return { presets, summary };
+}
+
+/** Campos com valores diferentes entre os planos, na ordem do formato. */
+export function diffPresetPayloads(
+  payloads: PresetPayload[]
+): (keyof PresetPayload)[] {
+  const keys = Object.keys(DEFAULT_PRESET) as (keyof PresetPayload)[];
+  return keys.filter((key) => {
+    const values = payloads.map((p) => stableStringify(p[key]));
+    return values.some((v) => v !== values[0]);
+  });
+}
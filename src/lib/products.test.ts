@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { annualToMonthlyRate } from "./finance";
+import {
+  cdiPercentMonthlyRate,
+  poupancaMonthlyRate,
+  productGrossMonthlyRate,
+} from "./products";
+import type { MarketRates } from "./products";
+
+const market: MarketRates = {
+  selicAnnualRate: 0.105,
+  cdiAnnualRate: 0.104,
+  ipcaAnnualRate: 0.045,
+  trAnnualRate: 0,
+};
+
+describe("fixed income products", () => {
+  it("applies the CDI percentage to the daily rate", () => {
+    const full = cdiPercentMonthlyRate(0.104, 1);
+    expect(Math.pow(1 + full, 12)).toBeCloseTo(1.104, 10);
+
+    const partial = cdiPercentMonthlyRate(0.104, 0.9);
+    // 90% da taxa diária capitaliza menos que 90% da taxa mensal
+    expect(partial).toBeLessThan(full * 0.9);
+    expect(partial).toBeGreaterThan(full * 0.89);
+  });
+
+  it("follows the poupança rule around the 8.5% Selic threshold", () => {
+    expect(poupancaMonthlyRate(0.105, 0)).toBeCloseTo(0.005, 12);
+    expect(poupancaMonthlyRate(0.06, 0)).toBeCloseTo(
+      annualToMonthlyRate(0.042),
+      12
+    );
+    expect(poupancaMonthlyRate(0.105, 0.012)).toBeCloseTo(
+      1.005 * (1 + annualToMonthlyRate(0.012)) - 1,
+      12
+    );
+  });
+
+  it("builds the gross rate of each product from the market", () => {
+    expect(productGrossMonthlyRate("cdb", 110, market)).toBeCloseTo(
+      cdiPercentMonthlyRate(0.104, 1.1),
+      12
+    );
+    expect(productGrossMonthlyRate("tesouroSelic", 0, market)).toBe(
+      annualToMonthlyRate(0.105)
+    );
+    expect(productGrossMonthlyRate("tesouroIpca", 6, market)).toBe(
+      annualToMonthlyRate(1.045 * 1.06 - 1)
+    );
+    expect(productGrossMonthlyRate("prefixado", 12, market)).toBe(
+      annualToMonthlyRate(0.12)
+    );
+    expect(productGrossMonthlyRate("poupanca", 999, market)).toBeCloseTo(
+      0.005,
+      12
+    );
+  });
+});
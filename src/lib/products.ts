@@ -0,0 +1,130 @@
+import { annualToMonthlyRate } from "./finance";
+import type { TaxRegime } from "./tax";
+
+// Produtos de renda fixa como fonte do rendimento bruto. Cada um tira a taxa
+// das premissas de mercado do plano (Selic, CDI, IPCA, TR) e tem a sua
+// tributação.
+
+export type FixedIncomeProductKey =
+  | "cdb"
+  | "tesouroSelic"
+  | "tesouroIpca"
+  | "prefixado"
+  | "lciLca"
+  | "poupanca";
+
+// Taxas anuais (0,105 = 10,5% a.a.)
+export type MarketRates = {
+  selicAnnualRate: number;
+  cdiAnnualRate: number;
+  ipcaAnnualRate: number;
+  trAnnualRate: number;
+};
+
+export type FixedIncomeProduct = {
+  label: string;
+  taxRegime: TaxRegime;
+  // O que a taxa do produto significa (null = não tem taxa própria)
+  rateLabel: string | null;
+  defaultRatePct: number | null;
+};
+
+export const FIXED_INCOME_PRODUCTS: Record<
+  FixedIncomeProductKey,
+  FixedIncomeProduct
+> = {
+  cdb: {
+    label: "CDB pós (% do CDI)",
+    taxRegime: "regressive",
+    rateLabel: "% do CDI",
+    defaultRatePct: 100,
+  },
+  tesouroSelic: {
+    label: "Tesouro Selic",
+    taxRegime: "regressive",
+    rateLabel: "Ágio sobre a Selic (% a.a.)",
+    defaultRatePct: 0,
+  },
+  tesouroIpca: {
+    label: "Tesouro IPCA+",
+    taxRegime: "regressive",
+    rateLabel: "Taxa real (% a.a.)",
+    defaultRatePct: 6,
+  },
+  prefixado: {
+    label: "Prefixado (Tesouro ou CDB)",
+    taxRegime: "regressive",
+    rateLabel: "Taxa (% a.a.)",
+    defaultRatePct: 12,
+  },
+  lciLca: {
+    label: "LCI / LCA (% do CDI)",
+    taxRegime: "exempt",
+    rateLabel: "% do CDI",
+    defaultRatePct: 90,
+  },
+  poupanca: {
+    label: "Poupança",
+    taxRegime: "exempt",
+    rateLabel: null,
+    defaultRatePct: null,
+  },
+};
+
+// Dias úteis por ano e por mês (base do CDI)
+const BUSINESS_DAYS_YEAR = 252;
+const BUSINESS_DAYS_MONTH = 21;
+
+// Poupança: 0,5% a.m. + TR com a Selic acima de 8,5% a.a.; abaixo disso,
+// 70% da Selic + TR
+const POUPANCA_SELIC_THRESHOLD = 0.085;
+const POUPANCA_FIXED_MONTHLY = 0.005;
+const POUPANCA_SELIC_SHARE = 0.7;
+
+/**
+ * "X% do CDI" incide sobre a taxa diária: (1 + cdi_dia × X)^21 - 1 ao mês.
+ * Com X = 1 é a própria taxa do CDI.
+ */
+export function cdiPercentMonthlyRate(
+  cdiAnnualRate: number,
+  cdiShare: number
+): number {
+  const daily = Math.pow(1 + cdiAnnualRate, 1 / BUSINESS_DAYS_YEAR) - 1;
+  return Math.pow(1 + daily * cdiShare, BUSINESS_DAYS_MONTH) - 1;
+}
+
+export function poupancaMonthlyRate(
+  selicAnnualRate: number,
+  trAnnualRate: number
+): number {
+  const base =
+    selicAnnualRate > POUPANCA_SELIC_THRESHOLD
+      ? POUPANCA_FIXED_MONTHLY
+      : annualToMonthlyRate(selicAnnualRate * POUPANCA_SELIC_SHARE);
+  return (1 + base) * (1 + annualToMonthlyRate(trAnnualRate)) - 1;
+}
+
+/**
+ * Rendimento bruto nominal ao mês do produto. `ratePct` é a taxa do produto
+ * em % (ver `rateLabel`); a poupança ignora.
+ */
+export function productGrossMonthlyRate(
+  key: FixedIncomeProductKey,
+  ratePct: number,
+  market: MarketRates
+): number {
+  const rate = ratePct / 100;
+  switch (key) {
+    case "cdb":
+    case "lciLca":
+      return cdiPercentMonthlyRate(market.cdiAnnualRate, rate);
+    case "tesouroSelic":
+      return annualToMonthlyRate((1 + market.selicAnnualRate) * (1 + rate) - 1);
+    case "tesouroIpca":
+      return annualToMonthlyRate((1 + market.ipcaAnnualRate) * (1 + rate) - 1);
+    case "prefixado":
+      return annualToMonthlyRate(rate);
+    case "poupanca":
+      return poupancaMonthlyRate(market.selicAnnualRate, market.trAnnualRate);
+  }
+}
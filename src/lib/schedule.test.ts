@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  contributorsShare,
+  isPausedMonth,
+  scheduledContribution,
+} from "./schedule";
+import type { ContributionSchedule } from "./schedule";
+
+const flat: ContributionSchedule = {
+  realRaiseAnnualRate: 0,
+  thirteenth: false,
+  bonusMultiple: 0,
+  bonusCalendarMonth: 1,
+  events: [],
+};
+
+describe("contribution schedule", () => {
+  it("keeps the base contribution without rules", () => {
+    expect(scheduledContribution(flat, 1000, 0, 0)).toBe(1000);
+    expect(scheduledContribution(flat, 1000, 37, 1)).toBe(1000);
+  });
+
+  it("raises the contribution every 12 months of the plan", () => {
+    const schedule = { ...flat, realRaiseAnnualRate: 0.1 };
+    expect(scheduledContribution(schedule, 1000, 11, 5)).toBe(1000);
+    expect(scheduledContribution(schedule, 1000, 12, 5)).toBeCloseTo(1100, 8);
+    expect(scheduledContribution(schedule, 1000, 24, 5)).toBeCloseTo(1210, 8);
+  });
+
+  it("adds the 13th salary in December and the bonus in its month", () => {
+    const schedule = { ...flat, thirteenth: true, bonusMultiple: 2 };
+    expect(scheduledContribution(schedule, 1000, 0, 11)).toBe(2000);
+    expect(scheduledContribution(schedule, 1000, 1, 12 + 1)).toBe(3000);
+    expect(scheduledContribution(schedule, 1000, 2, 2)).toBe(1000);
+  });
+
+  it("skips regular contributions while paused but keeps extras", () => {
+    const schedule: ContributionSchedule = {
+      ...flat,
+      thirteenth: true,
+      events: [
+        { kind: "pause", month: 10, months: 3 },
+        { kind: "extra", month: 11, amount: 5000 },
+      ],
+    };
+    expect(isPausedMonth(schedule, 9)).toBe(false);
+    expect(isPausedMonth(schedule, 12)).toBe(true);
+    expect(isPausedMonth(schedule, 13)).toBe(false);
+    expect(scheduledContribution(schedule, 1000, 10, 11)).toBe(0);
+    expect(scheduledContribution(schedule, 1000, 11, 0)).toBe(5000);
+    expect(scheduledContribution(schedule, 1000, 13, 2)).toBe(1000);
+  });
+});
+
+describe("contributors", () => {
+  it("adds the share of everyone contributing in the month", () => {
+    const couple = [
+      { share: 0.6, startMonth: 0, endMonth: 120 },
+      { share: 0.4, startMonth: 12, endMonth: null },
+    ];
+    expect(contributorsShare(couple, 0)).toBe(0.6);
+    expect(contributorsShare(couple, 12)).toBe(1);
+    expect(contributorsShare(couple, 119)).toBe(1);
+    expect(contributorsShare(couple, 120)).toBe(0.4);
+    expect(contributorsShare([], 0)).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+// Eventos pontuais do aporte, por mês da projeção (0 = primeiro mês):
+// - "pause": sem aporte regular (nem 13º/PLR) por `months` meses
+// - "extra": aporte adicional de `amount` naquele mês
+export type ContributionEvent =
+  | { kind: "pause"; month: number; months: number }
+  | { kind: "extra"; month: number; amount: number };
+
+// Valores na mesma unidade de `pmt0`: R$ de hoje se o aporte é reajustado
+// pela inflação, nominal se é fixo.
+export type ContributionSchedule = {
+  // Aumento real do aporte a cada 12 meses de plano (0,02 = 2% a.a.)
+  realRaiseAnnualRate: number;
+  // Um aporte a mais em dezembro
+  thirteenth: boolean;
+  // PLR/bônus: múltiplo do aporte do mês, pago em `bonusCalendarMonth`
+  bonusMultiple: number;
+  bonusCalendarMonth: number; // 0 = janeiro
+  events: ContributionEvent[];
+};
+
+export function isPausedMonth(schedule: ContributionSchedule, month: number) {
+  return schedule.events.some(
+    (e) => e.kind === "pause" && month >= e.month && month < e.month + e.months
+  );
+}
+
+/**
+ * Aporte do mês `month` da projeção, dado o aporte base `pmt0` e o mês do
+ * calendário correspondente (0 = janeiro).
+ */
+export function scheduledContribution(
+  schedule: ContributionSchedule,
+  pmt0: number,
+  month: number,
+  calendarMonth: number
+): number {
+  let amount = 0;
+
+  if (!isPausedMonth(schedule, month)) {
+    const raise = Math.max(-0.99, schedule.realRaiseAnnualRate);
+    const regular = pmt0 * Math.pow(1 + raise, Math.floor(month / 12));
+    const cal = ((calendarMonth % 12) + 12) % 12;
+
+    amount += regular;
+    if (schedule.thirteenth && cal === 11) amount += regular;
+    if (cal === schedule.bonusCalendarMonth) {
+      amount += regular * Math.max(0, schedule.bonusMultiple);
+    }
+  }
+
+  for (const e of schedule.events) {
+    if (e.kind === "extra" && e.month === month) {
+      amount += Math.max(0, e.amount);
+    }
+  }
+  return amount;
+}
+
+// Quem aporta no plano (ex.: um casal numa carteira só): cada pessoa entra
+// com a fração `share` do aporte base, do mês `startMonth` até antes de
+// `endMonth` (null = até o fim da projeção).
+export type Contributor = {
+  share: number;
+  startMonth: number;
+  endMonth: number | null;
+};
+
+/** Fração do aporte base que entra no mês `month` (soma de quem aporta). */
+export function contributorsShare(
+  contributors: Contributor[],
+  month: number
+): number {
+  let share = 0;
+  for (const c of contributors) {
+    if (month < c.startMonth) continue;
+    if (c.endMonth != null && month >= c.endMonth) continue;
+    share += Math.max(0, c.share);
+  }
+  return share;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  TAX_REGIME_ORDER,
+  evaluateSensitivity,
+  sensitivityGrid,
+  sensitivityRange,
+  tornadoChart,
+  variableValue,
+  withVariable,
+} from "./sensitivity";
+import type { SensitivityPlan } from "./sensitivity";
+
+const plan: SensitivityPlan = {
+  pvToday: 20000,
+  pmt0: 1500,
+  ageNow: 30,
+  indexation: "inflationAdjusted",
+  timing: "end",
+  taxRegime: "regressive",
+  startCalendarMonth: 0,
+  grossMonthlyRate: 0.008,
+  inflationAnnualRate: 0.045,
+  targetAge: 55,
+  targetToday: 1_000_000,
+};
+
+describe("sensitivity", () => {
+  it("builds a range centered on the current value", () => {
+    const values = sensitivityRange(0.008, 0.002);
+    expect(values).toHaveLength(5);
+    expect(values[0]).toBeCloseTo(0.006, 12);
+    expect(values[2]).toBe(0.008);
+    expect(values[4]).toBeCloseTo(0.01, 12);
+    expect(sensitivityRange(10, 5, 2)).toEqual([5, 15]);
+  });
+
+  it("replaces one input and keeps the others", () => {
+    const clipped = withVariable(plan, "pvToday", -100);
+    expect(clipped.pvToday).toBe(0);
+    expect(clipped.grossMonthlyRate).toBe(plan.grossMonthlyRate);
+    expect(
+      variableValue(withVariable(plan, "taxRegime", "exempt"), "taxRegime")
+    ).toBe("exempt");
+  });
+
+  it("asks for less with higher returns and lower inflation", () => {
+    const x = { variable: "grossMonthlyRate" as const, values: [0.007, 0.009] };
+    const y = {
+      variable: "inflationAnnualRate" as const,
+      values: [0.03, 0.06],
+    };
+    const grid = sensitivityGrid(plan, "requiredPmt", x, y);
+
+    expect(grid).toHaveLength(2);
+    expect(grid[0][1]!).toBeLessThan(grid[0][0]!);
+    expect(grid[0][0]!).toBeLessThan(grid[1][0]!);
+    expect(grid[1][1]).toBeCloseTo(
+      evaluateSensitivity(
+        { ...plan, grossMonthlyRate: 0.009, inflationAnnualRate: 0.06 },
+        "requiredPmt"
+      )!,
+      8
+    );
+  });
+
+  it("has no required contribution without time left", () => {
+    expect(
+      evaluateSensitivity({ ...plan, targetAge: 30 }, "requiredPmt")
+    ).toBeNull();
+    expect(evaluateSensitivity(plan, "monthsToTarget")).toBeGreaterThan(0);
+  });
+
+  it("ranks the inputs by how much they move the result", () => {
+    const bars = tornadoChart(plan, "requiredPmt", [
+      { variable: "pvToday", values: [19000, 21000] },
+      { variable: "grossMonthlyRate", values: [0.006, 0.01] },
+      { variable: "taxRegime", values: TAX_REGIME_ORDER },
+    ]);
+
+    expect(bars.map((b) => b.variable)).toEqual([
+      "grossMonthlyRate",
+      "taxRegime",
+      "pvToday",
+    ]);
+    const tax = bars[1];
+    expect(tax.lowValue).toBe("exempt");
+    expect(tax.low!).toBeLessThan(tax.high!);
+    expect(bars[2].lowValue).toBe(21000);
+  });
+
+  it("puts unreachable inputs first", () => {
+    const bars = tornadoChart({ ...plan, pmt0: 300 }, "monthsToTarget", [
+      { variable: "pvToday", values: [10000, 30000] },
+      { variable: "grossMonthlyRate", values: [0.0035, 0.01] },
+    ]);
+    expect(bars[0].variable).toBe("grossMonthlyRate");
+    expect(bars[0].swing).toBe(Infinity);
+    expect(bars[0].high).toBeNull();
+  });
+});
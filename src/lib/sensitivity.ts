@@ -0,0 +1,196 @@
+import {
+  annualToMonthlyRate,
+  monthsToTarget,
+  realMonthlyRateFromGross,
+  solveRequiredPmt,
+} from "./finance";
+import type { ProjectionParams } from "./finance";
+import type { TaxRegime } from "./tax";
+
+// Análise de sensibilidade: o mesmo plano (ativo único, sem carteira de
+// classes) recalculado variando uma ou duas entradas de cada vez.
+
+export type SensitivityPlan = Omit<
+  ProjectionParams,
+  | "realMonthlyRate"
+  | "inflationMonthlyRate"
+  | "months"
+  | "portfolio"
+  | "ratePath"
+> & {
+  grossMonthlyRate: number; // bruto nominal ao mês
+  inflationAnnualRate: number;
+  targetAge: number;
+  targetToday: number;
+  safetyMarginBp?: number;
+};
+
+export type SensitivityVariable =
+  | "grossMonthlyRate"
+  | "inflationAnnualRate"
+  | "taxRegime"
+  | "targetAge"
+  | "pvToday";
+
+export type SensitivityValue = number | TaxRegime;
+
+export type SensitivityAxis = {
+  variable: SensitivityVariable;
+  values: SensitivityValue[];
+};
+
+// "requiredPmt": aporte para chegar à meta na idade-alvo
+// "monthsToTarget": meses até a meta com o aporte do plano (`pmt0`)
+export type SensitivityMetric = "requiredPmt" | "monthsToTarget";
+
+export const TAX_REGIME_ORDER: TaxRegime[] = [
+  "exempt",
+  "stocks",
+  "regressive",
+  "comeCotas",
+];
+
+export function withVariable(
+  plan: SensitivityPlan,
+  variable: SensitivityVariable,
+  value: SensitivityValue
+): SensitivityPlan {
+  if (variable === "taxRegime") {
+    return { ...plan, taxRegime: value as TaxRegime };
+  }
+  const n = Number(value);
+  if (variable === "pvToday") return { ...plan, pvToday: Math.max(0, n) };
+  return { ...plan, [variable]: n };
+}
+
+/** Valor atual da entrada no plano. */
+export function variableValue(
+  plan: SensitivityPlan,
+  variable: SensitivityVariable
+): SensitivityValue {
+  if (variable === "taxRegime") return plan.taxRegime ?? "exempt";
+  return plan[variable];
+}
+
+/** `points` valores de `base - spread` a `base + spread`, com `base` no meio. */
+export function sensitivityRange(
+  base: number,
+  spread: number,
+  points = 5
+): number[] {
+  const n = Math.max(2, Math.floor(points));
+  return Array.from(
+    { length: n },
+    (_, i) => base + spread * ((2 * i) / (n - 1) - 1)
+  );
+}
+
+/** Resultado do plano na métrica escolhida; `null` se a meta não é atingível. */
+export function evaluateSensitivity(
+  plan: SensitivityPlan,
+  metric: SensitivityMetric
+): number | null {
+  const inflationMonthlyRate = annualToMonthlyRate(plan.inflationAnnualRate);
+  const params = {
+    ...plan,
+    realMonthlyRate: realMonthlyRateFromGross({
+      grossMonthlyRate: plan.grossMonthlyRate,
+      taxOnGainsRate: 0,
+      inflationMonthlyRate,
+    }),
+    inflationMonthlyRate,
+  };
+
+  if (metric === "monthsToTarget") return monthsToTarget(params);
+
+  const months = Math.round((plan.targetAge - plan.ageNow) * 12);
+  if (months <= 0) return null;
+  return solveRequiredPmt({ ...params, months });
+}
+
+/** Grade `y` × `x`: uma linha por valor de `y`, uma coluna por valor de `x`. */
+export function sensitivityGrid(
+  plan: SensitivityPlan,
+  metric: SensitivityMetric,
+  x: SensitivityAxis,
+  y: SensitivityAxis
+): (number | null)[][] {
+  return y.values.map((yValue) => {
+    const row = withVariable(plan, y.variable, yValue);
+    return x.values.map((xValue) =>
+      evaluateSensitivity(withVariable(row, x.variable, xValue), metric)
+    );
+  });
+}
+
+export type TornadoBar = {
+  variable: SensitivityVariable;
+  // Menor e maior resultado entre os valores testados (`null` = não chega)
+  low: number | null;
+  high: number | null;
+  lowValue: SensitivityValue;
+  highValue: SensitivityValue;
+  swing: number; // high - low; Infinity se algum valor não chega à meta
+};
+
+/**
+ * Varia uma entrada por vez (as outras ficam no plano atual) e ordena da que
+ * mais mexe no resultado para a que menos mexe.
+ */
+export function tornadoChart(
+  plan: SensitivityPlan,
+  metric: SensitivityMetric,
+  axes: SensitivityAxis[]
+): TornadoBar[] {
+  const bars = axes.map((axis): TornadoBar => {
+    const results = axis.values.map((value) => ({
+      value,
+      result: evaluateSensitivity(
+        withVariable(plan, axis.variable, value),
+        metric
+      ),
+    }));
+    const finite = results.filter(
+      (r): r is { value: SensitivityValue; result: number } => r.result != null
+    );
+    const sorted = [...finite].sort((a, b) => a.result - b.result);
+    const unreachable = results.find((r) => r.result == null);
+    const lowest = sorted[0];
+    const highest = unreachable ?? sorted[sorted.length - 1];
+
+    return {
+      variable: axis.variable,
+      low: lowest?.result ?? null,
+      high: highest?.result ?? null,
+      lowValue: lowest?.value ?? axis.values[0],
+      highValue: highest?.value ?? axis.values[0],
+      swing: unreachable
+        ? Infinity
+        : sorted.length > 0
+          ? sorted[sorted.length - 1].result - sorted[0].result
+          : 0,
+    };
+  });
+  return bars.sort((a, b) => b.swing - a.swing);
+}
+
+export type SensitivityAnalysis = {
+  base: number | null;
+  grid: (number | null)[][];
+  tornado: TornadoBar[];
+};
+
+/** Mapa `y` × `x` e tornado de uma vez, a partir do mesmo plano. */
+export function analyzeSensitivity(
+  plan: SensitivityPlan,
+  metric: SensitivityMetric,
+  x: SensitivityAxis,
+  y: SensitivityAxis,
+  tornadoAxes: SensitivityAxis[]
+): SensitivityAnalysis {
+  return {
+    base: evaluateSensitivity(plan, metric),
+    grid: sensitivityGrid(plan, metric, x, y),
+    tornado: tornadoChart(plan, metric, tornadoAxes),
+  };
+}
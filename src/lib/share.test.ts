@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRESET, PRESET_FIELD_ORDER, PRESET_VERSION } from "./presets";
+import { decodeSharedPlan, encodeSharedPlan } from "./share";
+
+const VERSION = 2;
+const FIELDS = ["meta", "idadeAtual", "usarCarteira", "eventos"];
+
+const defaults = {
+  meta: "1000000",
+  idadeAtual: "23",
+  usarCarteira: false,
+  eventos: [] as { descricao: string }[],
+};
+
+describe("shared plan links", () => {
+  it("round-trips the whole plan", async () => {
+    const payload = {
+      ...defaults,
+      meta: "2000000",
+      eventos: [{ descricao: "Entrada do apê" }],
+    };
+    const encoded = await encodeSharedPlan(payload, FIELDS, VERSION);
+    expect(encoded.startsWith(`${VERSION}.`)).toBe(true);
+    expect(encoded).toMatch(/^\d+\.[A-Za-z0-9_-]+$/);
+
+    const decoded = await decodeSharedPlan(encoded, FIELDS, VERSION);
+    expect(decoded).toEqual({ ok: true, version: VERSION, data: payload });
+  });
+
+  it("keeps fields that are at their default value", async () => {
+    const decoded = await decodeSharedPlan(
+      await encodeSharedPlan(defaults, FIELDS, VERSION),
+      FIELDS,
+      VERSION
+    );
+    expect(decoded.ok && decoded.data).toEqual(defaults);
+  });
+
+  it("reads older links with fewer fields", async () => {
+    const older = await encodeSharedPlan(defaults, FIELDS.slice(0, 2), 1);
+    const decoded = await decodeSharedPlan(older, FIELDS, VERSION);
+    expect(decoded).toEqual({
+      ok: true,
+      version: 1,
+      data: { meta: "1000000", idadeAtual: "23" },
+    });
+  });
+
+  it("keeps the default plan link short", async () => {
+    const encoded = await encodeSharedPlan(
+      DEFAULT_PRESET,
+      PRESET_FIELD_ORDER,
+      PRESET_VERSION
+    );
+    expect(encoded.length).toBeLessThan(700);
+    const decoded = await decodeSharedPlan(
+      encoded,
+      PRESET_FIELD_ORDER,
+      PRESET_VERSION
+    );
+    expect(decoded.ok && decoded.data).toEqual(DEFAULT_PRESET);
+  });
+
+  it("rejects malformed, corrupted and newer links", async () => {
+    const decode = (text: string) => decodeSharedPlan(text, FIELDS, VERSION);
+    expect((await decode("not a plan")).ok).toBe(false);
+    expect((await decode("1.@@@")).ok).toBe(false);
+    expect((await decode("1.bm90LWpzb24")).ok).toBe(false); // não é deflate
+    // Mais posições que campos
+    const tooLong = await encodeSharedPlan(
+      { ...defaults, extra: 1 },
+      [...FIELDS, "extra"],
+      VERSION
+    );
+    expect((await decode(tooLong)).ok).toBe(false);
+    const newer = await decode(`${VERSION + 1}.eJwDAAAAAAE`);
+    expect(newer.ok).toBe(false);
+    expect(!newer.ok && newer.error).toMatch(/mais nova/);
+  });
+});
@@ -0,0 +1,91 @@
+// Plano compartilhável na URL: "<versão>.<dados>", onde a versão é a do
+// formato do plano (ver `./presets`) e os dados são os valores do plano
+// inteiro num array JSON, na ordem de `fields`, comprimido (deflate) e em
+// base64url. O link leva o plano inteiro, e não só o que difere do padrão:
+// mudar um padrão depois não muda o que um link antigo abre. Como `fields` só
+// cresce no fim, um link antigo tem só as primeiras posições.
+
+export type SharedPlanDecode =
+  | { ok: true; version: number; data: Record<string, unknown> }
+  | { ok: false; error: string };
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Codifica o plano inteiro na versão `version` do formato. */
+export async function encodeSharedPlan(
+  payload: Record<string, unknown>,
+  fields: readonly string[],
+  version: number
+): Promise<string> {
+  const values = fields.map((key) => payload[key] ?? null);
+  const compressed = await pipeBytes(
+    new TextEncoder().encode(JSON.stringify(values)),
+    new CompressionStream("deflate")
+  );
+  return `${version}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Lê um plano codificado por `encodeSharedPlan`. Não valida nem migra os
+ * campos (isso fica com `./presets`); só garante um plano de uma versão até
+ * `latestVersion`. Posições vazias (`null`) ficam de fora.
+ */
+export async function decodeSharedPlan(
+  text: string,
+  fields: readonly string[],
+  latestVersion: number
+): Promise<SharedPlanDecode> {
+  const match = /^(\d+)\.([A-Za-z0-9_-]*)$/.exec(text.trim());
+  if (!match) return { ok: false, error: "Link de plano malformado." };
+
+  const version = Number(match[1]);
+  if (version > latestVersion) {
+    return {
+      ok: false,
+      error: "O link foi criado por uma versão mais nova da calculadora.",
+    };
+  }
+  if (version < 1) return { ok: false, error: "Versão de link desconhecida." };
+
+  let values: unknown;
+  try {
+    const bytes = await pipeBytes(
+      fromBase64Url(match[2]),
+      new DecompressionStream("deflate")
+    );
+    values = JSON.parse(
+      new TextDecoder("utf-8", { fatal: true }).decode(bytes)
+    );
+  } catch {
+    return { ok: false, error: "O link está corrompido ou incompleto." };
+  }
+  if (!Array.isArray(values) || values.length > fields.length) {
+    return { ok: false, error: "O link não contém um plano válido." };
+  }
+  const data: Record<string, unknown> = {};
+  values.forEach((value, i) => {
+    if (value !== null) data[fields[i]] = value;
+  });
+  return { ok: true, version, data };
+}
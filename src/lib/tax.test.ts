@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  addLot,
+  advanceLedger,
+  createTaxLedger,
+  isComeCotasMonth,
+  ledgerValue,
+  redeemFromLedger,
+  regressiveRate,
+  taxDueOnRedemption,
+  withholdComeCotas,
+} from "./tax";
+
+describe("regressive table", () => {
+  it("maps holding period to the IR bracket", () => {
+    expect(regressiveRate(1)).toBe(0.225);
+    expect(regressiveRate(6)).toBe(0.225);
+    expect(regressiveRate(7)).toBe(0.2);
+    expect(regressiveRate(12)).toBe(0.2);
+    expect(regressiveRate(24)).toBe(0.175);
+    expect(regressiveRate(25)).toBe(0.15);
+  });
+
+  it("charges each lot by its own age", () => {
+    const ledger = createTaxLedger("regressive");
+    addLot(ledger, 0, 1000);
+    for (let m = 1; m <= 30; m++) {
+      advanceLedger(ledger, m, 1.01);
+      if (m === 28) addLot(ledger, m, 1000);
+    }
+
+    const oldGain = 1000 * Math.pow(1.01, 30) - 1000;
+    const newGain = 1000 * Math.pow(1.01, 2) - 1000;
+    expect(ledger.lots).toHaveLength(1); // o primeiro já foi consolidado
+    expect(taxDueOnRedemption(ledger, 30)).toBeCloseTo(
+      oldGain * 0.15 + newGain * 0.225,
+      6
+    );
+  });
+});
+
+describe("come-cotas", () => {
+  it("runs only in May and November", () => {
+    expect(isComeCotasMonth(4)).toBe(true);
+    expect(isComeCotasMonth(10)).toBe(true);
+    expect(isComeCotasMonth(16)).toBe(true);
+    expect(isComeCotasMonth(11)).toBe(false);
+  });
+
+  it("withholds 15% of gains and leaves the complement for redemption", () => {
+    const ledger = createTaxLedger("comeCotas");
+    addLot(ledger, 0, 1000);
+    advanceLedger(ledger, 1, 1.1);
+
+    expect(withholdComeCotas(ledger)).toBeCloseTo(15, 6);
+    expect(ledgerValue(ledger)).toBeCloseTo(1085, 6);
+    // 1 mês de aplicação: 22,5% do ganho bruto menos os 15% já antecipados
+    expect(taxDueOnRedemption(ledger, 1)).toBeCloseTo(100 * 0.225 - 15, 6);
+  });
+
+  it("ignores come-cotas outside the fund regime", () => {
+    const ledger = createTaxLedger("exempt");
+    addLot(ledger, 0, 1000);
+    advanceLedger(ledger, 1, 1.1);
+
+    expect(withholdComeCotas(ledger)).toBe(0);
+    expect(taxDueOnRedemption(ledger, 1)).toBe(0);
+  });
+});
+
+describe("partial redemptions", () => {
+  it("withholds IR on the redeemed share of the gains", () => {
+    const ledger = createTaxLedger("stocks");
+    addLot(ledger, 0, 1000);
+    advanceLedger(ledger, 1, 1.2);
+
+    // vende metade: ganho realizado de 100, 15% sem tabela por prazo
+    expect(redeemFromLedger(ledger, 1, 600)).toBeCloseTo(15, 6);
+    expect(ledgerValue(ledger)).toBeCloseTo(600, 6);
+    expect(taxDueOnRedemption(ledger, 1)).toBeCloseTo(15, 6);
+    expect(ledger.paidNominal).toBeCloseTo(15, 6);
+  });
+});
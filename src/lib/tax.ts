@@ -0,0 +1,173 @@
+// IR sobre aplicações financeiras (pessoa física):
+// - "regressive": CDB, Tesouro Direto, debêntures comuns. Alíquota pela
+//   tabela regressiva conforme o prazo de cada aporte, cobrada no resgate.
+// - "comeCotas": fundos de longo prazo. Antecipação semestral de 15% sobre o
+//   rendimento (último dia útil de maio e novembro) e complemento pela tabela
+//   regressiva no resgate.
+// - "stocks": ações, ETFs e exterior. 15% sobre o ganho na venda, sem tabela
+//   por prazo (não modela a isenção de vendas até R$ 20 mil/mês).
+// - "exempt": LCI, LCA, CRI, CRA (isentos para pessoa física).
+export type TaxRegime = "regressive" | "comeCotas" | "stocks" | "exempt";
+
+const STOCKS_RATE = 0.15;
+
+export const COME_COTAS_RATE = 0.15;
+
+// Meses do calendário (0 = janeiro) em que o come-cotas é recolhido.
+export const COME_COTAS_MONTHS = [4, 10];
+
+// Acima de 720 dias (~24 meses) todo aporte cai na última faixa da tabela.
+const MATURE_AFTER_MONTHS = 24;
+
+export type TaxLot = {
+  month: number; // mês da projeção em que o aporte entrou
+  basis: number; // custo de aquisição (nominal)
+  value: number; // valor atual (nominal, já líquido do come-cotas)
+  mark: number; // valor após o último come-cotas (base do próximo)
+  paid: number; // come-cotas já recolhido sobre o lote (nominal)
+};
+
+export type TaxLedger = {
+  regime: TaxRegime;
+  lots: TaxLot[];
+  // Lotes com mais de 24 meses têm a mesma alíquota: somamos tudo em um
+  // único lote para manter o custo por mês constante em horizontes longos.
+  mature: TaxLot;
+  paidNominal: number; // IR já recolhido: come-cotas e resgates parciais
+};
+
+/**
+ * Alíquota da tabela regressiva pelo tempo de aplicação (meses de 30 dias):
+ * até 180 dias 22,5%, até 360 dias 20%, até 720 dias 17,5% e acima 15%.
+ */
+export function regressiveRate(monthsHeld: number): number {
+  if (monthsHeld <= 6) return 0.225;
+  if (monthsHeld <= 12) return 0.2;
+  if (monthsHeld <= MATURE_AFTER_MONTHS) return 0.175;
+  return 0.15;
+}
+
+/** Alíquota aplicada a uma aplicação mantida por muito tempo (última faixa). */
+export function longTermTaxRate(regime: TaxRegime): number {
+  return regime === "exempt" ? 0 : 0.15;
+}
+
+export function isComeCotasMonth(calendarMonth: number): boolean {
+  return COME_COTAS_MONTHS.includes(((calendarMonth % 12) + 12) % 12);
+}
+
+function emptyLot(month: number): TaxLot {
+  return { month, basis: 0, value: 0, mark: 0, paid: 0 };
+}
+
+export function createTaxLedger(regime: TaxRegime): TaxLedger {
+  return { regime, lots: [], mature: emptyLot(0), paidNominal: 0 };
+}
+
+export function addLot(ledger: TaxLedger, month: number, amount: number) {
+  if (!(amount > 0)) return;
+  ledger.lots.push({
+    month,
+    basis: amount,
+    value: amount,
+    mark: amount,
+    paid: 0,
+  });
+}
+
+export function ledgerValue(ledger: TaxLedger): number {
+  let total = ledger.mature.value;
+  for (const lot of ledger.lots) total += lot.value;
+  return total;
+}
+
+/**
+ * Aplica o rendimento do mês (`growthFactor` = 1 + taxa nominal bruta) e move
+ * para o lote consolidado os aportes que passaram de 24 meses em `month`.
+ */
+export function advanceLedger(
+  ledger: TaxLedger,
+  month: number,
+  growthFactor: number
+) {
+  ledger.mature.value *= growthFactor;
+  for (const lot of ledger.lots) lot.value *= growthFactor;
+
+  while (
+    ledger.lots.length > 0 &&
+    month - ledger.lots[0].month > MATURE_AFTER_MONTHS
+  ) {
+    const lot = ledger.lots.shift()!;
+    ledger.mature.basis += lot.basis;
+    ledger.mature.value += lot.value;
+    ledger.mature.mark += lot.mark;
+    ledger.mature.paid += lot.paid;
+  }
+}
+
+/**
+ * Recolhe o come-cotas (15% do rendimento desde o último recolhimento) e
+ * devolve o valor retido. Não faz nada fora do regime de fundos.
+ */
+export function withholdComeCotas(ledger: TaxLedger): number {
+  if (ledger.regime !== "comeCotas") return 0;
+
+  let withheld = 0;
+  for (const lot of [ledger.mature, ...ledger.lots]) {
+    const tax = Math.max(0, lot.value - lot.mark) * COME_COTAS_RATE;
+    lot.value -= tax;
+    lot.paid += tax;
+    lot.mark = lot.value;
+    withheld += tax;
+  }
+  ledger.paidNominal += withheld;
+  return withheld;
+}
+
+function lotTaxDue(regime: TaxRegime, lot: TaxLot, monthsHeld: number) {
+  if (regime === "exempt") return 0;
+  if (regime === "stocks") {
+    return Math.max(0, (lot.value - lot.basis) * STOCKS_RATE);
+  }
+  // No fundo o valor já está líquido do come-cotas: o ganho bruto soma de
+  // volta o que foi antecipado, e o complemento desconta o que já foi pago.
+  const grossGain = lot.value + lot.paid - lot.basis;
+  return Math.max(0, grossGain * regressiveRate(monthsHeld) - lot.paid);
+}
+
+/** IR que seria devido se toda a carteira fosse resgatada em `month`. */
+export function taxDueOnRedemption(ledger: TaxLedger, month: number): number {
+  let due = lotTaxDue(ledger.regime, ledger.mature, Infinity);
+  for (const lot of ledger.lots) {
+    due += lotTaxDue(ledger.regime, lot, month - lot.month);
+  }
+  return due;
+}
+
+/**
+ * Resgata `amount` (nominal) proporcionalmente de todos os lotes e devolve o
+ * IR retido na fonte sobre a parte resgatada.
+ */
+export function redeemFromLedger(
+  ledger: TaxLedger,
+  month: number,
+  amount: number
+): number {
+  const total = ledgerValue(ledger);
+  if (!(amount > 0) || total <= 0) return 0;
+
+  const fraction = Math.min(1, amount / total);
+  let tax = 0;
+  const scale = (lot: TaxLot, monthsHeld: number) => {
+    tax += lotTaxDue(ledger.regime, lot, monthsHeld) * fraction;
+    lot.basis *= 1 - fraction;
+    lot.value *= 1 - fraction;
+    lot.mark *= 1 - fraction;
+    lot.paid *= 1 - fraction;
+  };
+  scale(ledger.mature, Infinity);
+  for (const lot of ledger.lots) scale(lot, month - lot.month);
+
+  ledger.paidNominal += tax;
+  return tax;
+}